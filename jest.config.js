@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'react-native',
+  roots: ['<rootDir>/src'],
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|@react-navigation|@reduxjs|immer|redux|reselect)/)',
+  ],
+};
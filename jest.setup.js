@@ -0,0 +1,2 @@
+// Build-time settings come from the native side, tests use the defaults
+jest.mock('react-native-config', () => ({}));
@@ -5,8 +5,14 @@ import { Provider } from 'react-redux';
 import { PersistGate } from 'redux-persist/integration/react';
 import { store, persistor } from './redux/store';
 import { setupOfflineSync } from './redux/middleware/offlineMiddleware';
+import { navigationService } from './services/navigationService';
+import { notificationService } from './services/notificationService';
+import { realtimeService } from './services/realtimeService';
+import { appLockService } from './services/appLockService';
+import { sessionManager } from './services/sessionManager';
 import AppNavigator from './navigation/AppNavigator';
 import OfflineIndicator from './components/OfflineIndicator';
+import AppLockOverlay from './components/AppLockOverlay';
 
 // Suppress specific warnings
 LogBox.ignoreLogs([
@@ -16,18 +22,35 @@ LogBox.ignoreLogs([
 
 const App = () => {
   useEffect(() => {
-    // Setup offline synchronization
-    setupOfflineSync(store);
+    notificationService.start();
+    return () => notificationService.stop();
   }, []);
 
   return (
     <Provider store={store}>
-      <PersistGate loading={null} persistor={persistor}>
-        <NavigationContainer>
-          <SafeAreaView style={styles.container}>
+      <PersistGate
+        loading={null}
+        persistor={persistor}
+        // Setup offline synchronization, realtime updates and session expiry
+        // once the persisted queue and session are restored
+        onBeforeLift={() => {
+          setupOfflineSync(store);
+          realtimeService.start(store);
+          appLockService.start(store);
+          sessionManager.start(store);
+        }}
+      >
+        <NavigationContainer
+          ref={navigationService.navigationRef}
+          onReady={navigationService.handleNavigationChange}
+          onStateChange={navigationService.handleNavigationChange}
+        >
+          {/* Every touch outside the lock screen postpones the inactivity lock */}
+          <SafeAreaView style={styles.container} onTouchStart={sessionManager.recordActivity}>
             <StatusBar barStyle="dark-content" backgroundColor="#FFFFFF" />
             <AppNavigator />
             <OfflineIndicator />
+            <AppLockOverlay />
           </SafeAreaView>
         </NavigationContainer>
       </PersistGate>
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../redux/store';
+import { logout } from '../redux/slices/authSlice';
+import { selectIsAppLocked } from '../redux/slices/appLockSlice';
+import { appLockService, isValidPin } from '../services/appLockService';
+import { APP_LOCK } from '../constants/appConstants';
+import TextField from './TextField';
+import Button from './Button';
+
+/**
+ * Covers the app while it is locked, keeping the screens underneath mounted
+ * so caregivers return to where they were.
+ * Biometrics are offered first when enabled, with the PIN and a full login
+ * as fallbacks.
+ */
+const AppLockOverlay: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const isLocked = useSelector(selectIsAppLocked);
+  const { biometricsEnabled, failedAttempts, totalFailedAttempts, lockedOutUntil } = useSelector(
+    (state: RootState) => state.appLock
+  );
+
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const isLockedOut = !!lockedOutUntil && now < lockedOutUntil;
+
+  // Offer biometrics as soon as the app locks
+  useEffect(() => {
+    if (isLocked && biometricsEnabled) {
+      appLockService.unlockWithBiometrics();
+    }
+    if (!isLocked) {
+      setPin('');
+      setError(null);
+    }
+  }, [isLocked, biometricsEnabled]);
+
+  // Count down the lockout
+  useEffect(() => {
+    setNow(Date.now());
+    if (!lockedOutUntil) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedOutUntil) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedOutUntil]);
+
+  if (!isLocked) {
+    return null;
+  }
+
+  const handleUnlock = async () => {
+    setIsVerifying(true);
+    const isUnlocked = await appLockService.unlockWithPin(pin);
+    setIsVerifying(false);
+    if (!isUnlocked) {
+      setPin('');
+      setError('Incorrect PIN');
+    }
+  };
+
+  const getLockoutText = () => {
+    const seconds = Math.ceil(((lockedOutUntil || 0) - now) / 1000);
+    const minutes = Math.floor(seconds / 60);
+    const remaining = minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+    return `Too many incorrect PINs. Try again in ${remaining}, or sign in with your password.`;
+  };
+
+  const attemptsLeft = APP_LOCK.MAX_FAILED_ATTEMPTS - failedAttempts;
+  // The next lockout signs the caregiver out instead
+  const isLastLockout = totalFailedAttempts >= APP_LOCK.MAX_FAILED_ATTEMPTS * (APP_LOCK.MAX_LOCKOUTS - 1);
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.content}>
+        <Text style={styles.title}>Caro is locked</Text>
+        <Text style={styles.subtitle}>Enter your PIN to continue</Text>
+
+        {isLockedOut ? (
+          <Text style={styles.lockoutText}>{getLockoutText()}</Text>
+        ) : (
+          <>
+            <TextField
+              value={pin}
+              onChangeText={(value) => {
+                setPin(value.replace(/\D/g, ''));
+                setError(null);
+              }}
+              placeholder="PIN"
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={APP_LOCK.PIN_MAX_LENGTH}
+              error={error && failedAttempts > 0
+                ? `${error}, ${attemptsLeft} ${attemptsLeft === 1 ? 'attempt' : 'attempts'} left${
+                  isLastLockout ? ' before you are signed out' : ''}`
+                : error || undefined}
+              onSubmitEditing={handleUnlock}
+              fullWidth
+            />
+            <Button
+              title="Unlock"
+              onPress={handleUnlock}
+              isLoading={isVerifying}
+              disabled={!isValidPin(pin) || isVerifying}
+              fullWidth
+              style={styles.unlockButton}
+            />
+          </>
+        )}
+
+        {biometricsEnabled && (
+          <Button
+            title="Use biometrics"
+            onPress={() => appLockService.unlockWithBiometrics()}
+            variant="outline"
+            fullWidth
+            style={styles.biometricsButton}
+          />
+        )}
+
+        {/* Unsynced changes are kept, only the cached records are cleared */}
+        <TouchableOpacity onPress={() => dispatch(logout())} style={styles.passwordLink}>
+          <Text style={styles.passwordLinkText}>Sign in with password</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  content: {
+    width: '100%',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  lockoutText: {
+    fontSize: 14,
+    color: '#F44336',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  unlockButton: {
+    marginTop: 8,
+  },
+  biometricsButton: {
+    marginTop: 12,
+  },
+  passwordLink: {
+    alignSelf: 'center',
+    marginTop: 24,
+  },
+  passwordLinkText: {
+    color: '#3F51B5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default AppLockOverlay;
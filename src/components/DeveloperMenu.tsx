@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useSelector, useDispatch } from 'react-redux';
+import { RootState } from '../redux/store';
+import { setEnvironment, selectEnvironment } from '../redux/slices/environmentSlice';
+import { selectPendingMutations } from '../redux/slices/offlineSlice';
+import { ENVIRONMENTS, EnvironmentName, resolveEnvironment } from '../constants/environments';
+import { DEFAULT_MOCK_OPTIONS, mockServer } from '../mocks/mockServer';
+import Button from './Button';
+import TextField from './TextField';
+
+// Mock API settings toggled from the menu
+const SLOW_LATENCY = 3000;
+const FLAKY_ERROR_RATE = 0.2;
+
+interface DeveloperMenuProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Hidden menu for switching the API environment in non-production builds
+ */
+const DeveloperMenu: React.FC<DeveloperMenuProps> = ({ visible, onClose }) => {
+  const dispatch = useDispatch();
+  const current = useSelector((state: RootState) => state.environment);
+  const environment = useSelector(selectEnvironment);
+  const pendingCount = useSelector(selectPendingMutations).length;
+
+  const [selectedName, setSelectedName] = useState<EnvironmentName>(current.name);
+  const [tenant, setTenant] = useState(current.tenant);
+  const [mockOptions, setMockOptions] = useState(mockServer.getOptions());
+  const [mockOffline, setMockOffline] = useState(mockServer.isOffline());
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedName(current.name);
+      setTenant(current.tenant);
+      setMockOptions(mockServer.getOptions());
+      setMockOffline(mockServer.isOffline());
+    }
+  }, [visible]);
+
+  const preview = resolveEnvironment(selectedName, tenant.trim() || current.tenant);
+
+  const handleMockOffline = (offline: boolean) => {
+    mockServer.setOffline(offline);
+    setMockOffline(offline);
+  };
+
+  const handleMockSlow = (slow: boolean) => {
+    mockServer.configure({ latency: slow ? SLOW_LATENCY : DEFAULT_MOCK_OPTIONS.latency });
+    setMockOptions(mockServer.getOptions());
+  };
+
+  const handleMockErrors = (flaky: boolean) => {
+    mockServer.configure({ errorRate: flaky ? FLAKY_ERROR_RATE : 0 });
+    setMockOptions(mockServer.getOptions());
+  };
+
+  const handleMockReset = () => {
+    mockServer.reset();
+    setMockOptions(mockServer.getOptions());
+    setMockOffline(mockServer.isOffline());
+  };
+
+  const handleApply = () => {
+    if (selectedName === current.name && tenant.trim() === current.tenant) {
+      onClose();
+      return;
+    }
+
+    // Queued changes belong to the environment they were made in
+    if (pendingCount > 0) {
+      Alert.alert(
+        'Unsynced Changes',
+        `${pendingCount} change(s) have not been synced to ${environment.label}. ` +
+          'Log in and sync them before switching environments.'
+      );
+      return;
+    }
+
+    dispatch(setEnvironment({ name: selectedName, tenant: tenant.trim() || undefined }));
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Developer Menu</Text>
+          <Text style={styles.sectionTitle}>Environment</Text>
+
+          {Object.values(ENVIRONMENTS).map((option) => (
+            <TouchableOpacity
+              key={option.name}
+              style={[styles.option, selectedName === option.name && styles.selectedOption]}
+              onPress={() => setSelectedName(option.name)}
+            >
+              <Text style={[styles.optionText, selectedName === option.name && styles.selectedOptionText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+
+          {selectedName === 'production' && (
+            <TextField
+              label="Agency"
+              value={tenant}
+              onChangeText={setTenant}
+              placeholder="Agency ID"
+              autoCapitalize="none"
+              autoCorrect={false}
+              fullWidth
+            />
+          )}
+
+          <Text style={styles.detailText}>API: {preview.apiBaseUrl}</Text>
+          <Text style={styles.detailText}>Realtime: {preview.socketUrl}</Text>
+
+          {environment.mockApi && (
+            <View style={styles.mockSection}>
+              <Text style={styles.sectionTitle}>Mock API</Text>
+              <View style={styles.switchRow}>
+                <Text style={styles.optionText}>Simulate offline</Text>
+                <Switch value={mockOffline} onValueChange={handleMockOffline} />
+              </View>
+              <View style={styles.switchRow}>
+                <Text style={styles.optionText}>Slow responses ({SLOW_LATENCY / 1000}s)</Text>
+                <Switch value={mockOptions.latency >= SLOW_LATENCY} onValueChange={handleMockSlow} />
+              </View>
+              <View style={styles.switchRow}>
+                <Text style={styles.optionText}>Random server errors ({FLAKY_ERROR_RATE * 100}%)</Text>
+                <Switch value={mockOptions.errorRate > 0} onValueChange={handleMockErrors} />
+              </View>
+              <Button title="Reset Mock Data" onPress={handleMockReset} variant="outline" />
+            </View>
+          )}
+
+          <View style={styles.actions}>
+            <Button title="Cancel" onPress={onClose} variant="outline" style={styles.actionButton} />
+            <Button title="Apply" onPress={handleApply} variant="primary" style={styles.actionButton} />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  selectedOption: {
+    borderColor: '#3F51B5',
+    backgroundColor: '#E8EAF6',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  selectedOptionText: {
+    color: '#3F51B5',
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 4,
+  },
+  mockSection: {
+    marginTop: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  actionButton: {
+    marginLeft: 12,
+  },
+});
+
+export default DeveloperMenu;
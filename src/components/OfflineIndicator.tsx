@@ -1,18 +1,24 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, Animated, Easing } from 'react-native';
+import { View, Text, StyleSheet, Animated, Easing, TouchableOpacity } from 'react-native';
 import { useSelector, useDispatch } from 'react-redux';
+import { useNavigation } from '@react-navigation/native';
 import { RootState } from '../redux/store';
-import { setOnlineStatus } from '../redux/slices/offlineSlice';
+import { setOnlineStatus, selectDeadLetters, selectConflicts } from '../redux/slices/offlineSlice';
 import { netInfoService } from '../services/netInfoService';
+import { ROUTES } from '../constants/appConstants';
 
 const OfflineIndicator: React.FC = () => {
   const dispatch = useDispatch();
+  const navigation = useNavigation<any>();
+  const isAuthenticated = useSelector((state: RootState) => state.auth.isAuthenticated);
   const isOnline = useSelector((state: RootState) => state.offline.isOnline);
   const pendingActionsCount = useSelector(
     (state: RootState) => state.offline.pendingActions.length
   );
   
   const [slideAnim] = useState(new Animated.Value(-50));
+  const deadLetters = useSelector(selectDeadLetters);
+  const conflictCount = useSelector(selectConflicts).length;
 
   useEffect(() => {
     // Listen to connectivity changes
@@ -33,8 +39,11 @@ const OfflineIndicator: React.FC = () => {
     };
   }, [dispatch]);
 
+  const failedCount = deadLetters.length;
+  const needsAttention = failedCount > 0 || conflictCount > 0;
+
   useEffect(() => {
-    if (!isOnline || pendingActionsCount > 0) {
+    if (!isOnline || pendingActionsCount > 0 || needsAttention) {
       // Slide in
       Animated.timing(slideAnim, {
         toValue: 0,
@@ -51,25 +60,43 @@ const OfflineIndicator: React.FC = () => {
         useNativeDriver: true,
       }).start();
     }
-  }, [isOnline, pendingActionsCount, slideAnim]);
+  }, [isOnline, pendingActionsCount, needsAttention, slideAnim]);
 
-  if (isOnline && pendingActionsCount === 0) {
+  if (isOnline && pendingActionsCount === 0 && !needsAttention) {
     return null;
   }
 
+  const getStatusText = () => {
+    if (!isOnline) {
+      return 'You are offline. Changes will be saved locally.';
+    }
+    if (pendingActionsCount > 0) {
+      return `Syncing ${pendingActionsCount} pending ${pendingActionsCount === 1 ? 'change' : 'changes'}...`;
+    }
+    if (failedCount > 0) {
+      return `${failedCount} ${failedCount === 1 ? 'change' : 'changes'} failed to sync. Tap to review.`;
+    }
+    return `${conflictCount} ${conflictCount === 1 ? 'change conflicts' : 'changes conflict'} with the server. Tap to review.`;
+  };
+
   return (
     <Animated.View
       style={[
         styles.container,
         { transform: [{ translateY: slideAnim }] },
-        isOnline ? styles.syncContainer : styles.offlineContainer,
+        !isOnline
+          ? styles.offlineContainer
+          : pendingActionsCount > 0
+            ? styles.syncContainer
+            : styles.failedContainer,
       ]}
     >
-      <Text style={styles.text}>
-        {!isOnline
-          ? 'You are offline. Changes will be saved locally.'
-          : `Syncing ${pendingActionsCount} pending ${pendingActionsCount === 1 ? 'change' : 'changes'}...`}
-      </Text>
+      <TouchableOpacity
+        disabled={!isAuthenticated}
+        onPress={() => navigation.navigate(ROUTES.SYNC.CENTER)}
+      >
+        <Text style={styles.text}>{getStatusText()}</Text>
+      </TouchableOpacity>
     </Animated.View>
   );
 };
@@ -91,6 +118,9 @@ const styles = StyleSheet.create({
   syncContainer: {
     backgroundColor: '#FF9800',
   },
+  failedContainer: {
+    backgroundColor: '#795548',
+  },
   text: {
     color: 'white',
     fontWeight: '500',
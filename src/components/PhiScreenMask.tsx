@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { AppState, View, Text, StyleSheet } from 'react-native';
+
+interface PhiScreenMaskProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps a screen showing PHI and hides it whenever the app is not in the
+ * foreground, so patient details do not appear in the app switcher snapshot
+ */
+const PhiScreenMask: React.FC<PhiScreenMaskProps> = ({ children }) => {
+  // iOS reports 'inactive' while the app switcher is open, before 'background'
+  const [isActive, setIsActive] = useState(AppState.currentState === 'active');
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      setIsActive(nextState === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      {children}
+      {!isActive && (
+        <View style={styles.mask}>
+          <Text style={styles.maskTitle}>Caro</Text>
+          <Text style={styles.maskText}>Patient information is hidden</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  mask: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  maskTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+    marginBottom: 8,
+  },
+  maskText: {
+    fontSize: 16,
+    color: '#666',
+  },
+});
+
+export default PhiScreenMask;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle, StyleProp } from 'react-native';
+import { useSelector } from 'react-redux';
+import { RootState } from '../redux/store';
+import { isStale } from '../utils/cacheUtils';
+import { getRelativeDateString, formatTime } from '../utils/dateUtils';
+
+interface StaleDataBannerProps {
+  // Time the data on screen was last fetched from the server
+  fetchedAt?: number | null;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Tells the user that the data on screen comes from the offline cache
+ * Shown while offline, or when the cached data is older than STALE_AFTER
+ */
+const StaleDataBanner: React.FC<StaleDataBannerProps> = ({ fetchedAt, style }) => {
+  const isOnline = useSelector((state: RootState) => state.offline.isOnline);
+
+  // Online, only cached data that is getting old is flagged
+  if (isOnline && (!fetchedAt || !isStale(fetchedAt))) {
+    return null;
+  }
+
+  const getLastUpdatedText = () => {
+    if (!fetchedAt) {
+      return 'not updated yet';
+    }
+    const fetchedDate = new Date(fetchedAt);
+    return `last updated ${getRelativeDateString(fetchedDate)} at ${formatTime(fetchedDate)}`;
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.text}>
+        {isOnline ? 'This information may be out of date' : 'Offline - showing saved data'}
+        {', '}
+        {getLastUpdatedText()}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF3E0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 12,
+    color: '#E65100',
+    fontWeight: '500',
+  },
+});
+
+export default StaleDataBanner;
@@ -1,23 +1,27 @@
-export const API_BASE_URL = 'https://api.example.com';
-
 export const ENDPOINTS = {
   AUTH: {
     LOGIN: '/auth/login',
     REGISTER: '/auth/register',
     REFRESH_TOKEN: '/auth/refresh',
+    FIREBASE_TOKEN: '/auth/firebase', // Exchanges a Firebase ID token for our tokens
+    MFA_VERIFY: '/auth/mfa/verify',
+    MFA_SEND_CODE: '/auth/mfa/send',
     PASSWORD_RESET: '/auth/password-reset'
   },
   VISITS: {
     GET_ALL: '/visits',
+    CHANGES: '/visits/changes',
     GET_BY_ID: '/visits/:id',
     CREATE: '/visits',
     UPDATE: '/visits/:id',
     DELETE: '/visits/:id',
     CLOCK_IN: '/visits/:id/clock-in',
-    CLOCK_OUT: '/visits/:id/clock-out'
+    CLOCK_OUT: '/visits/:id/clock-out',
+    DOCUMENTS: '/visits/:id/documents'
   },
   PATIENTS: {
     GET_ALL: '/patients',
+    CHANGES: '/patients/changes',
     GET_BY_ID: '/patients/:id',
     CREATE: '/patients',
     UPDATE: '/patients/:id',
@@ -25,31 +29,51 @@ export const ENDPOINTS = {
   },
   SCHEDULES: {
     GET_ALL: '/schedules',
+    CHANGES: '/schedules/changes',
     GET_BY_ID: '/schedules/:id',
     CREATE: '/schedules',
     UPDATE: '/schedules/:id',
     DELETE: '/schedules/:id',
     AVAILABLE_SHIFTS: '/schedules/available-shifts',
-    REQUEST_SHIFT: '/schedules/request-shift'
+    REQUEST_SHIFT: '/schedules/request-shift',
+    CANCEL_SHIFT_REQUEST: '/schedules/request-shift/:id/cancel'
   },
   MESSAGES: {
     GET_ALL: '/messages',
+    CHANGES: '/messages/changes',
     GET_BY_ID: '/messages/:id',
     CREATE: '/messages',
     UPDATE: '/messages/:id',
     DELETE: '/messages/:id',
     MARK_READ: '/messages/:id/read'
   },
+  CONVERSATIONS: {
+    GET_ALL: '/conversations'
+  },
+  UPLOADS: {
+    CREATE: '/uploads',
+    GET_BY_ID: '/uploads/:id',
+    CHUNKS: '/uploads/:id/chunks',
+    COMPLETE: '/uploads/:id/complete'
+  },
   USER: {
     PROFILE: '/user/profile',
     UPDATE_PROFILE: '/user/profile',
     AVAILABILITY: '/user/availability',
     UPDATE_AVAILABILITY: '/user/availability'
   }
-};
+} as const;
 
 export const API_TIMEOUT = 30000; // 30 seconds
 
+export const HEADERS = {
+  IDEMPOTENCY_KEY: 'Idempotency-Key',
+  IF_MATCH: 'If-Match'
+};
+
+// HTTP methods that change server state and must be replay-safe
+export const MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
+
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
@@ -57,5 +81,17 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  GONE: 410,
   SERVER_ERROR: 500
 };
+
+// Events pushed by the realtime server (socket.io)
+export const REALTIME_EVENTS = {
+  SHIFT_APPROVED: 'shift:approved',
+  SHIFT_REJECTED: 'shift:rejected',
+  SCHEDULE_CHANGED: 'schedule:changed',
+  VISIT_REASSIGNED: 'visit:reassigned',
+  VISIT_CANCELLED: 'visit:cancelled',
+  MESSAGE_NEW: 'message:new',
+  MESSAGE_READ: 'message:read'
+} as const;
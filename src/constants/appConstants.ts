@@ -20,7 +20,11 @@ export const STORAGE_KEYS = {
   LANGUAGE: 'language',
   DARK_MODE: 'dark_mode',
   OFFLINE_DATA: 'offline_data',
-  LOCATION_PERMISSIONS: 'location_permissions'
+  OFFLINE_DEAD_LETTERS: 'offline_dead_letters',
+  LOCATION_PERMISSIONS: 'location_permissions',
+  APP_LOCK_PIN: 'app_lock_pin',
+  EMAIL_LINK_ADDRESS: 'email_link_address',
+  MFA_DEVICE_TOKEN: 'mfa_device_token'
 };
 
 // App-wide timeouts (milliseconds)
@@ -31,6 +35,82 @@ export const TIMEOUTS = {
   INACTIVITY: 1800000 // 30 minutes
 };
 
+// Offline request queue settings
+export const OFFLINE_QUEUE = {
+  BASE_RETRY_DELAY: 2000, // 2 seconds before the first retry
+  MAX_RETRY_DELAY: 300000, // 5 minutes cap between retries
+  MAX_ATTEMPTS: 8 // Quarantine a request after this many failed attempts
+};
+
+// Background sync settings
+export const SYNC = {
+  LOW_BATTERY_LEVEL: 0.2, // Pause background sync below 20% unless charging
+  HISTORY_SIZE: 20 // Recently synced mutations kept for the Sync Center
+};
+
+// Chunked media uploads
+export const UPLOAD = {
+  CHUNK_SIZE: 262144, // 256 KB per request, small enough to finish on a weak connection
+  // Used when a document does not say what kind of file it holds
+  DEFAULT_MIME_TYPES: {
+    image: 'image/jpeg',
+    audio: 'audio/mp4'
+  } as Record<string, string>
+};
+
+// Offline read cache for visits, patients and schedules
+export const OFFLINE_CACHE = {
+  STALE_AFTER: 3600000, // 1 hour before cached records are flagged as stale
+  MAX_AGE: 1209600000, // 14 days before cached records are evicted
+  MAX_VISITS: 200,
+  MAX_PATIENTS: 100,
+  MAX_SCHEDULES: 200
+};
+
+// RTK Query cache lifetimes (seconds) and polling
+export const QUERY_CACHE = {
+  KEEP_UNUSED_DATA_FOR: 300, // 5 minutes after the last screen using a query closes
+  PATIENTS_KEEP_UNUSED_DATA_FOR: 1800, // Patient records rarely change during a shift
+  SHIFTS_KEEP_UNUSED_DATA_FOR: 60, // Open shifts are claimed quickly
+  SHIFTS_POLLING_INTERVAL: 60000 // 1 minute while the marketplace is open (milliseconds)
+};
+
+// App lock (quick unlock with biometrics or a PIN after TIMEOUTS.INACTIVITY)
+export const APP_LOCK = {
+  PIN_MIN_LENGTH: 4,
+  PIN_MAX_LENGTH: 6,
+  PIN_HASH_ITERATIONS: 10000, // PBKDF2 rounds, slows down guessing a stolen hash
+  MAX_FAILED_ATTEMPTS: 5, // Wrong PINs before PIN entry is blocked
+  LOCKOUT_DURATION: 300000, // 5 minutes
+  MAX_LOCKOUTS: 2 // Lockouts before the caregiver has to sign in with their password
+};
+
+// Multi-factor sign in, required by the server for supervisors and admins
+export const MFA = {
+  CODE_LENGTH: 6, // Authenticator app and text message codes
+  RESEND_INTERVAL: 30000 // 30 seconds between text message codes
+};
+
+// Firebase email-link sign-in, the link opens the app through these IDs
+export const FIREBASE_AUTH = {
+  EMAIL_LINK_URL: 'https://caro.example.com/auth/email-link',
+  IOS_BUNDLE_ID: 'com.caro.homecare',
+  ANDROID_PACKAGE_NAME: 'com.caro.homecare'
+};
+
+// Session expiry after TIMEOUTS.INACTIVITY and TIMEOUTS.SESSION_EXPIRY without use
+export const SESSION = {
+  ACTIVITY_CHECK_INTERVAL: 30000, // 30 seconds
+  DRAFT_SAVE_DELAY: 1000 // Documentation drafts are saved once typing pauses
+};
+
+// Realtime connection
+export const REALTIME = {
+  BASE_RECONNECT_DELAY: 1000, // 1 second before the first reconnection attempt
+  MAX_RECONNECT_DELAY: 60000, // 1 minute cap between attempts
+  RECONNECT_JITTER: 0.5 // Spread attempts so clients do not reconnect all at once
+};
+
 // Location accuracy settings
 export const LOCATION = {
   HIGH_ACCURACY: true,
@@ -84,12 +164,22 @@ export const DOCUMENTATION_TYPES = {
   SIGNATURE: 'signature'
 };
 
+// Push notification types, sent as the "type" field of the data payload
+export const NOTIFICATION_TYPES = {
+  VISIT_REMINDER: 'visit_reminder',
+  VISIT_UPDATED: 'visit_updated',
+  SHIFT_AVAILABLE: 'shift_available',
+  NEW_MESSAGE: 'new_message',
+  SYNC_CONFLICT: 'sync_conflict'
+};
+
 // App routes
 export const ROUTES = {
   AUTH: {
     LOGIN: 'Login',
     REGISTER: 'Register',
-    FORGOT_PASSWORD: 'ForgotPassword'
+    FORGOT_PASSWORD: 'ForgotPassword',
+    MFA_CHALLENGE: 'MfaChallenge'
   },
   MAIN: {
     HOME: 'Home',
@@ -106,6 +196,13 @@ export const ROUTES = {
     DOCUMENTATION: 'Documentation',
     VISIT_HISTORY: 'VisitHistory'
   },
+  SYNC: {
+    CENTER: 'SyncCenter',
+    CONFLICTS: 'SyncConflicts'
+  },
+  SETTINGS: {
+    SECURITY: 'SecuritySettings'
+  },
   PATIENTS: {
     PATIENT_DETAILS: 'PatientDetails',
     CARE_PLAN: 'CarePlan',
@@ -122,7 +219,7 @@ export const ROUTES = {
     CONVERSATION: 'Conversation',
     NEW_MESSAGE: 'NewMessage'
   }
-};
+} as const;
 
 // Environment
 export const IS_DEV = __DEV__;
@@ -0,0 +1,114 @@
+import Config from 'react-native-config';
+
+export type EnvironmentName = 'development' | 'staging' | 'production' | 'mock';
+
+// How caregivers sign in, see authProviders
+export type AuthProviderName = 'rest' | 'firebase';
+
+export interface FeatureFlags {
+  backgroundSync: boolean; // Periodic foreground sync (manual sync is always available)
+  shiftMarketplace: boolean; // Picking up open shifts from the schedule screen
+}
+
+export interface EvvThresholds {
+  requiredAccuracyMeters: number; // Worst GPS accuracy accepted for clock in/out
+  requiredProximityMeters: number; // Furthest distance allowed from the patient's address
+}
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  label: string;
+  apiBaseUrl: string;
+  socketUrl: string;
+  mockApi: boolean; // Requests are answered in-process from fixtures (src/mocks)
+  authProvider: AuthProviderName;
+  features: FeatureFlags;
+  evv: EvvThresholds;
+}
+
+const DEFAULT_FEATURES: FeatureFlags = {
+  backgroundSync: true,
+  shiftMarketplace: true,
+};
+
+const DEFAULT_EVV: EvvThresholds = {
+  requiredAccuracyMeters: 50,
+  requiredProximityMeters: 1000,
+};
+
+// Agencies that manage caregiver accounts in Firebase build with APP_AUTH_PROVIDER=firebase
+const BUILD_AUTH_PROVIDER: AuthProviderName = Config.APP_AUTH_PROVIDER === 'firebase' ? 'firebase' : 'rest';
+
+// Production is deployed per agency, "{tenant}" is replaced with the agency ID
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentConfig> = {
+  development: {
+    name: 'development',
+    label: 'Development',
+    apiBaseUrl: 'https://dev.api.example.com',
+    socketUrl: 'wss://dev.realtime.example.com',
+    mockApi: false,
+    authProvider: BUILD_AUTH_PROVIDER,
+    features: DEFAULT_FEATURES,
+    // Testers are rarely at the patient's address
+    evv: { requiredAccuracyMeters: 100, requiredProximityMeters: 50000 },
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    apiBaseUrl: 'https://staging.api.example.com',
+    socketUrl: 'wss://staging.realtime.example.com',
+    mockApi: false,
+    authProvider: BUILD_AUTH_PROVIDER,
+    features: DEFAULT_FEATURES,
+    evv: DEFAULT_EVV,
+  },
+  production: {
+    name: 'production',
+    label: 'Production',
+    apiBaseUrl: 'https://{tenant}.api.example.com',
+    socketUrl: 'wss://{tenant}.realtime.example.com',
+    mockApi: false,
+    authProvider: BUILD_AUTH_PROVIDER,
+    features: DEFAULT_FEATURES,
+    evv: DEFAULT_EVV,
+  },
+  mock: {
+    name: 'mock',
+    label: 'Mock data (no backend)',
+    apiBaseUrl: 'https://mock.api.local',
+    socketUrl: 'wss://mock.realtime.local',
+    mockApi: true,
+    // The fixtures only know the REST login
+    authProvider: 'rest',
+    features: DEFAULT_FEATURES,
+    evv: { requiredAccuracyMeters: 1000, requiredProximityMeters: Number.MAX_SAFE_INTEGER },
+  },
+};
+
+const isEnvironmentName = (name?: string): name is EnvironmentName =>
+  !!name && name in ENVIRONMENTS;
+
+// Selected at build time with react-native-config (APP_ENV and APP_TENANT in the .env file)
+export const BUILD_ENVIRONMENT: EnvironmentName = isEnvironmentName(Config.APP_ENV)
+  ? Config.APP_ENV
+  : __DEV__ ? 'development' : 'production';
+
+export const BUILD_TENANT: string = Config.APP_TENANT || 'default';
+
+// Production builds always use their build environment, the developer menu is not available
+export const IS_PRODUCTION_BUILD = BUILD_ENVIRONMENT === 'production';
+
+/**
+ * Resolve the config of an environment
+ * @param name Environment name
+ * @param tenant Agency ID, used by per-agency environments
+ * @returns The environment config with tenant URLs filled in
+ */
+export const resolveEnvironment = (name: EnvironmentName, tenant: string): EnvironmentConfig => {
+  const environment = ENVIRONMENTS[name];
+  return {
+    ...environment,
+    apiBaseUrl: environment.apiBaseUrl.replace('{tenant}', tenant),
+    socketUrl: environment.socketUrl.replace('{tenant}', tenant),
+  };
+};
@@ -0,0 +1,42 @@
+import { DependencyList, useEffect } from 'react';
+import { useDispatch, useStore } from 'react-redux';
+import { AnyAction, ThunkAction } from '@reduxjs/toolkit';
+import { AppDispatch, RootState } from '../redux/store';
+import { baseApi } from '../redux/api/baseApi';
+
+// Thunk returned by api.util.getRunningQueryThunk
+type RunningQueryThunk = ThunkAction<
+  { abort: () => void; queryCacheKey: string } | undefined,
+  unknown,
+  unknown,
+  AnyAction
+>;
+
+/**
+ * Abort a screen's query still in flight when the screen unmounts, and when
+ * the query argument changes so a stale response is not waited for.
+ * RTK Query hooks only unsubscribe on unmount, which leaves the request
+ * running with a signal that is never aborted.
+ * A query other mounted screens are subscribed to (e.g. getPatient on the
+ * PatientDetailScreen under CarePlanScreen) is left running for them.
+ * @param getRunningQuery Returns the thunk looking up the running query,
+ * e.g. () => visitApi.util.getRunningQueryThunk('getVisit', visitId)
+ * @param deps Query argument the running query was started with
+ */
+export const useAbortOnUnmount = (getRunningQuery: () => RunningQueryThunk, deps: DependencyList) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+
+  useEffect(() => () => {
+    // RTK Query writes the screen's own unsubscribe to the store after this tick
+    setTimeout(() => {
+      const runningQuery = dispatch(getRunningQuery());
+      if (!runningQuery) return;
+
+      const subscriptions = store.getState()[baseApi.reducerPath].subscriptions[runningQuery.queryCacheKey];
+      if (!subscriptions || Object.keys(subscriptions).length === 0) {
+        runningQuery.abort();
+      }
+    });
+  }, deps);
+};
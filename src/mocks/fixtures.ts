@@ -0,0 +1,340 @@
+import { User } from '../redux/slices/authSlice';
+import { Visit } from '../redux/slices/visitSlice';
+import { Patient } from '../redux/slices/patientSlice';
+import { AvailableShift, Schedule, ShiftRequest } from '../redux/slices/scheduleSlice';
+import { Message } from '../redux/slices/messageSlice';
+import { MESSAGE_PRIORITY, VISIT_STATUS } from '../constants/appConstants';
+
+// Fixture data served by the mock API. Times are relative to when the
+// fixtures are built so today's visits are always today.
+
+export interface AvailabilityDay {
+  day: string;
+  isAvailable: boolean;
+  timeSlots: {
+    id: string;
+    day: string;
+    startTime: string;
+    endTime: string;
+    isAvailable: boolean;
+  }[];
+}
+
+export interface MockFixtures {
+  user: User;
+  password: string;
+  visits: Visit[];
+  patients: Patient[];
+  schedules: Schedule[];
+  availableShifts: AvailableShift[];
+  shiftRequests: ShiftRequest[];
+  messages: Message[];
+  availability: AvailabilityDay[];
+}
+
+/**
+ * Get an ISO timestamp relative to the start of today
+ * @param days Days from today
+ * @param hours Hour of the day
+ */
+const at = (days: number, hours: number): string => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  date.setHours(hours);
+  return date.toISOString();
+};
+
+const hoursAgo = (hours: number): string =>
+  new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+const CAREGIVER_ID = 'caregiver-1';
+
+// Accepted by the mock login
+export const MOCK_CREDENTIALS = {
+  username: 'demo',
+  password: 'password',
+};
+
+// Accepted for both MFA methods, asked of supervisors and admins
+export const MOCK_MFA_CODE = '123456';
+
+const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Build a fresh copy of the fixtures
+ * @returns Fixtures with times relative to now
+ */
+export const buildFixtures = (): MockFixtures => ({
+  user: {
+    id: CAREGIVER_ID,
+    username: MOCK_CREDENTIALS.username,
+    email: 'demo.caregiver@example.com',
+    firstName: 'Jordan',
+    lastName: 'Rivera',
+    role: 'caregiver',
+  },
+  password: MOCK_CREDENTIALS.password,
+
+  patients: [
+    {
+      id: 'patient-1',
+      firstName: 'Margaret',
+      lastName: 'Thompson',
+      dateOfBirth: '1941-03-12',
+      gender: 'female',
+      address: {
+        street: '14 Elm Street',
+        city: 'Springfield',
+        state: 'IL',
+        zipCode: '62701',
+        country: 'USA',
+        coordinates: { latitude: 39.7817, longitude: -89.6501 },
+      },
+      phone: '(217) 555-0142',
+      preferredLanguage: 'English',
+      medicalConditions: [
+        { id: 'condition-1', name: 'Type 2 diabetes', diagnosisDate: '2009-06-01' },
+        { id: 'condition-2', name: 'Osteoarthritis', description: 'Both knees' },
+      ],
+      medications: [
+        {
+          id: 'medication-1',
+          name: 'Metformin',
+          dosage: '500 mg',
+          frequency: 'Twice daily',
+          instructions: 'Take with meals',
+        },
+      ],
+      allergies: [
+        { id: 'allergy-1', name: 'Penicillin', severity: 'severe', reaction: 'Hives' },
+      ],
+      carePlan: {
+        id: 'care-plan-1',
+        goals: ['Maintain blood sugar in range', 'Walk 10 minutes daily'],
+        instructions: 'Check blood sugar before lunch. Assist with bathing and meal preparation.',
+        specialNotes: 'Uses a walker, keep hallways clear',
+        lastUpdated: at(-14, 9),
+      },
+      contactPersons: [
+        {
+          id: 'contact-1',
+          relationship: 'Daughter',
+          firstName: 'Susan',
+          lastName: 'Thompson',
+          phone: '(217) 555-0199',
+          email: 'susan.thompson@example.com',
+          isEmergencyContact: true,
+        },
+      ],
+    },
+    {
+      id: 'patient-2',
+      firstName: 'Robert',
+      lastName: 'Chen',
+      dateOfBirth: '1936-11-30',
+      gender: 'male',
+      address: {
+        street: '802 Oak Avenue, Apt 3',
+        city: 'Springfield',
+        state: 'IL',
+        zipCode: '62704',
+        country: 'USA',
+        coordinates: { latitude: 39.7684, longitude: -89.6812 },
+      },
+      phone: '(217) 555-0178',
+      preferredLanguage: 'Mandarin',
+      medicalConditions: [
+        { id: 'condition-3', name: 'Congestive heart failure', diagnosisDate: '2018-02-15' },
+      ],
+      medications: [
+        { id: 'medication-2', name: 'Furosemide', dosage: '20 mg', frequency: 'Once daily' },
+        { id: 'medication-3', name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily' },
+      ],
+      allergies: [],
+      carePlan: {
+        id: 'care-plan-2',
+        goals: ['Daily weight log', 'Low sodium diet'],
+        instructions: 'Weigh before breakfast and report a gain of more than 2 lbs in a day.',
+        lastUpdated: at(-30, 10),
+      },
+      contactPersons: [
+        {
+          id: 'contact-2',
+          relationship: 'Son',
+          firstName: 'David',
+          lastName: 'Chen',
+          phone: '(217) 555-0123',
+          isEmergencyContact: true,
+        },
+      ],
+    },
+  ],
+
+  visits: [
+    {
+      id: 'visit-1',
+      patientId: 'patient-1',
+      caregiverId: CAREGIVER_ID,
+      scheduledStartTime: at(0, 9),
+      scheduledEndTime: at(0, 11),
+      status: VISIT_STATUS.SCHEDULED,
+      tasks: ['Blood sugar check', 'Bathing assistance', 'Meal preparation'],
+      documents: [],
+      version: '1',
+    },
+    {
+      id: 'visit-2',
+      patientId: 'patient-2',
+      caregiverId: CAREGIVER_ID,
+      scheduledStartTime: at(0, 13),
+      scheduledEndTime: at(0, 15),
+      status: VISIT_STATUS.SCHEDULED,
+      tasks: ['Weight log', 'Medication reminder', 'Light housekeeping'],
+      documents: [],
+      version: '1',
+    },
+    {
+      id: 'visit-3',
+      patientId: 'patient-1',
+      caregiverId: CAREGIVER_ID,
+      scheduledStartTime: at(-1, 9),
+      scheduledEndTime: at(-1, 11),
+      actualStartTime: at(-1, 9),
+      actualEndTime: at(-1, 11),
+      status: VISIT_STATUS.COMPLETED,
+      tasks: ['Blood sugar check', 'Bathing assistance'],
+      notes: 'Blood sugar 112 before lunch. In good spirits.',
+      clockInLocation: { latitude: 39.7817, longitude: -89.6501, accuracy: 12, timestamp: Date.parse(at(-1, 9)) },
+      clockOutLocation: { latitude: 39.7817, longitude: -89.6501, accuracy: 9, timestamp: Date.parse(at(-1, 11)) },
+      documents: [
+        {
+          id: 'document-1',
+          type: 'text',
+          content: 'Assisted with shower, no skin issues observed.',
+          createdAt: Date.parse(at(-1, 10)),
+        },
+      ],
+      version: '3',
+    },
+    {
+      id: 'visit-4',
+      patientId: 'patient-2',
+      caregiverId: CAREGIVER_ID,
+      scheduledStartTime: at(1, 13),
+      scheduledEndTime: at(1, 15),
+      status: VISIT_STATUS.SCHEDULED,
+      tasks: ['Weight log', 'Grocery shopping'],
+      documents: [],
+      version: '1',
+    },
+  ],
+
+  schedules: [
+    {
+      id: 'schedule-1',
+      caregiverId: CAREGIVER_ID,
+      patientId: 'patient-1',
+      startTime: at(0, 9),
+      endTime: at(0, 11),
+      status: 'scheduled',
+      recurring: true,
+      recurrencePattern: 'weekly',
+      tasks: ['Blood sugar check', 'Bathing assistance', 'Meal preparation'],
+    },
+    {
+      id: 'schedule-2',
+      caregiverId: CAREGIVER_ID,
+      patientId: 'patient-2',
+      startTime: at(0, 13),
+      endTime: at(0, 15),
+      status: 'scheduled',
+      tasks: ['Weight log', 'Medication reminder', 'Light housekeeping'],
+    },
+    {
+      id: 'schedule-3',
+      caregiverId: CAREGIVER_ID,
+      patientId: 'patient-2',
+      startTime: at(1, 13),
+      endTime: at(1, 15),
+      status: 'scheduled',
+      tasks: ['Weight log', 'Grocery shopping'],
+    },
+  ],
+
+  availableShifts: [
+    {
+      id: 'shift-1',
+      patientId: 'patient-2',
+      startTime: at(2, 8),
+      endTime: at(2, 12),
+      taskDescription: 'Morning routine and medication reminders',
+      requiredSkills: ['Medication management'],
+      status: 'open',
+      address: {
+        street: '802 Oak Avenue, Apt 3',
+        city: 'Springfield',
+        state: 'IL',
+        zipCode: '62704',
+        coordinates: { latitude: 39.7684, longitude: -89.6812 },
+      },
+    },
+    {
+      id: 'shift-2',
+      patientId: 'patient-1',
+      startTime: at(3, 17),
+      endTime: at(3, 20),
+      taskDescription: 'Evening meal and companionship',
+      requiredSkills: ['Diabetic meal planning'],
+      status: 'open',
+      notes: 'Covering for a caregiver on leave',
+      address: {
+        street: '14 Elm Street',
+        city: 'Springfield',
+        state: 'IL',
+        zipCode: '62701',
+        coordinates: { latitude: 39.7817, longitude: -89.6501 },
+      },
+    },
+  ],
+
+  shiftRequests: [],
+
+  messages: [
+    {
+      id: 'message-1',
+      senderId: 'coordinator-1',
+      senderName: 'Alex Morgan',
+      receiverId: CAREGIVER_ID,
+      receiverName: 'Jordan Rivera',
+      content: 'Margaret\'s daughter asked that we log her blood sugar readings in the notes.',
+      timestamp: hoursAgo(20),
+      readStatus: true,
+      priority: MESSAGE_PRIORITY.NORMAL,
+      category: 'care',
+    },
+    {
+      id: 'message-2',
+      senderId: 'coordinator-1',
+      senderName: 'Alex Morgan',
+      receiverId: CAREGIVER_ID,
+      receiverName: 'Jordan Rivera',
+      content: 'Robert\'s visit tomorrow moved to 1 PM, please confirm.',
+      timestamp: hoursAgo(2),
+      readStatus: false,
+      priority: MESSAGE_PRIORITY.HIGH,
+      category: 'schedule',
+    },
+  ],
+
+  availability: WEEK_DAYS.map((day, index) => {
+    const isAvailable = index > 0 && index < 6;
+    return {
+      day,
+      isAvailable,
+      timeSlots: isAvailable
+        ? [{ id: `slot-${index}`, day, startTime: '08:00', endTime: '17:00', isAvailable: true }]
+        : [],
+    };
+  }),
+});
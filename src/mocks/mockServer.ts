@@ -0,0 +1,683 @@
+import {
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { ENDPOINTS, HEADERS, HTTP_STATUS, MUTATING_METHODS } from '../constants/apiConstants';
+import { SHIFT_REQUEST_STATUS, USER_ROLES, VISIT_STATUS } from '../constants/appConstants';
+import { netInfoService } from '../services/netInfoService';
+import { formatApiDate } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+import { buildFixtures, MOCK_MFA_CODE, MockFixtures } from './fixtures';
+
+export interface MockServerOptions {
+  latency: number; // Delay before every response, in milliseconds
+  errorRate: number; // Share of requests (0-1) failing with a server error
+}
+
+export interface MockFailure {
+  method?: string; // Any method when omitted
+  path?: string; // ENDPOINTS path, e.g. ENDPOINTS.VISITS.CLOCK_IN. Any path when omitted
+  status?: number; // Network error (no response) when omitted
+  data?: unknown; // Response body
+  times?: number; // Number of matching requests to fail, 1 by default
+}
+
+interface MockRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  header: (name: string) => string | undefined;
+}
+
+interface MockResponse {
+  status: number;
+  data: unknown;
+}
+
+interface MockRoute {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  handler: (request: MockRequest) => MockResponse;
+}
+
+// Collections served with delta sync
+type SyncedCollection = 'visits' | 'patients' | 'schedules' | 'messages';
+
+interface MockChange {
+  revision: number;
+  deleted: boolean;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockServerOptions = {
+  latency: 300,
+  errorRate: 0,
+};
+
+const ok = (data: unknown): MockResponse => ({ status: HTTP_STATUS.OK, data });
+const created = (data: unknown): MockResponse => ({ status: HTTP_STATUS.CREATED, data });
+const fail = (status: number, message: string, data: object = {}): MockResponse =>
+  ({ status, data: { message, ...data } });
+const notFound = (): MockResponse => fail(HTTP_STATUS.NOT_FOUND, 'Not found');
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const emptyChangeLog = (): Record<SyncedCollection, Map<string, MockChange>> => ({
+  visits: new Map(),
+  patients: new Map(),
+  schedules: new Map(),
+  messages: new Map(),
+});
+
+// '/visits/:id' -> /^\/visits\/([^/]+)$/
+const toPattern = (path: string): RegExp =>
+  new RegExp(`^${path.replace(/:\w+/g, '([^/]+)')}$`);
+
+const route = (method: string, path: string, handler: MockRoute['handler']): MockRoute =>
+  ({ method, path, pattern: toPattern(path), handler });
+
+/**
+ * Parse a query string (URLSearchParams is incomplete in React Native)
+ */
+const parseQuery = (queryString: string): Record<string, string> =>
+  Object.fromEntries(
+    queryString.split('&').filter(Boolean).map(pair => {
+      const [key, value = ''] = pair.split('=');
+      return [decodeURIComponent(key), decodeURIComponent(value)];
+    })
+  );
+
+/**
+ * Size in bytes of base64 encoded data
+ */
+const decodedLength = (base64: string): number => {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+/**
+ * In-process API serving fixtures, plugged into ApiService as an axios adapter.
+ * Used by the "mock" environment so the app runs without a backend, and by
+ * tests through setEnabled(). Keeps its data in memory: changes made through
+ * the API (clock in, documents, messages, shift requests) are visible to later
+ * requests until reset(). Latency, server errors, scripted failures and
+ * offline mode can be set at runtime to reproduce sync and error handling.
+ */
+class MockServer {
+  private db: MockFixtures = buildFixtures();
+  private options: MockServerOptions = { ...DEFAULT_MOCK_OPTIONS };
+  private failures: MockFailure[] = [];
+  private offline: boolean = false;
+  private enabled: boolean = false;
+  // Responses of mutations by idempotency key, returned again on a replay
+  private idempotentResponses: Map<string, MockResponse> = new Map();
+  private uploads: Map<string, number> = new Map();
+  // Tokens issued before this time are rejected with 401
+  private tokensValidFrom: number = 0;
+  // Open MFA challenge, and device tokens that skip it
+  private mfaChallengeId: string | null = null;
+  private trustedDevices: Set<string> = new Set();
+  // Changes to the synced collections. Sync cursors are '<epoch>.<revision>',
+  // cursors of another epoch are rejected so the client syncs everything again.
+  private syncEpoch: string = Date.now().toString(36);
+  private revision: number = 0;
+  private changeLog = emptyChangeLog();
+  private routes: MockRoute[];
+
+  constructor() {
+    this.routes = this.buildRoutes();
+  }
+
+  /**
+   * Serve every request from the mock API, whatever the selected environment
+   * @param enabled Whether the mock API is used
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Change the latency and random error rate
+   * @param options Options to change
+   */
+  configure(options: Partial<MockServerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): MockServerOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Fail upcoming requests matching a method and path
+   * @param failure Requests to fail and the response to fail them with
+   */
+  failNext(failure: MockFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  /**
+   * Simulate losing the connection. Requests fail with a network error and
+   * the app's connectivity listeners see it as offline.
+   * @param offline Whether the device is offline
+   */
+  setOffline(offline: boolean): void {
+    this.offline = offline;
+    netInfoService.setSimulatedOffline(offline);
+  }
+
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Reject every issued auth token, so the next request has to refresh it
+   */
+  expireTokens(): void {
+    this.tokensValidFrom = Date.now() + 1;
+  }
+
+  /**
+   * Reject every issued sync cursor, so the next delta sync falls back to a full one
+   */
+  expireSyncCursors(): void {
+    this.syncEpoch = `${this.syncEpoch}x`;
+  }
+
+  /**
+   * Restore the fixtures and default options and clear scripted failures
+   */
+  reset(): void {
+    this.db = buildFixtures();
+    this.expireSyncCursors();
+    this.revision = 0;
+    this.changeLog = emptyChangeLog();
+    this.options = { ...DEFAULT_MOCK_OPTIONS };
+    this.failures = [];
+    this.idempotentResponses.clear();
+    this.uploads.clear();
+    this.tokensValidFrom = 0;
+    this.mfaChallengeId = null;
+    this.trustedDevices.clear();
+    this.setOffline(false);
+  }
+
+  /**
+   * Axios adapter answering requests from the in-memory data
+   */
+  adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    if (this.options.latency > 0) {
+      await sleep(this.options.latency);
+    }
+    if (config.signal?.aborted) {
+      throw new CanceledError(undefined, undefined, config);
+    }
+
+    const method = (config.method || 'get').toLowerCase();
+    const [path, queryString = ''] = this.getPath(config).split('?');
+    const header = (name: string): string | undefined => {
+      const value = config.headers?.get(name);
+      return typeof value === 'string' ? value : undefined;
+    };
+
+    if (this.offline) {
+      throw this.networkError(config);
+    }
+
+    const failure = this.takeFailure(method, path);
+    if (failure) {
+      if (failure.status === undefined) {
+        throw this.networkError(config);
+      }
+      return this.respond(config, { status: failure.status, data: failure.data ?? {} });
+    }
+
+    if (Math.random() < this.options.errorRate) {
+      return this.respond(config, fail(HTTP_STATUS.SERVER_ERROR, 'Simulated server error'));
+    }
+
+    const match = this.matchRoute(method, path);
+    if (!match) {
+      return this.respond(config, notFound());
+    }
+    const { route: matchedRoute, params } = match;
+
+    if (!this.isPublicRoute(matchedRoute) && !this.isAuthorized(header('Authorization'))) {
+      return this.respond(config, fail(HTTP_STATUS.UNAUTHORIZED, 'Token expired'));
+    }
+
+    const idempotencyKey = MUTATING_METHODS.includes(method) ? header(HEADERS.IDEMPOTENCY_KEY) : undefined;
+    const previousResponse = idempotencyKey && this.idempotentResponses.get(idempotencyKey);
+    if (previousResponse) {
+      return this.respond(config, previousResponse);
+    }
+
+    const response = matchedRoute.handler({
+      params,
+      query: { ...parseQuery(queryString), ...config.params },
+      body: typeof config.data === 'string' ? JSON.parse(config.data) : config.data,
+      header,
+    });
+
+    if (idempotencyKey && response.status < HTTP_STATUS.BAD_REQUEST) {
+      this.idempotentResponses.set(idempotencyKey, response);
+    }
+    return this.respond(config, response);
+  };
+
+  private getPath(config: InternalAxiosRequestConfig): string {
+    const url = config.url || '';
+    if (config.baseURL && url.startsWith(config.baseURL)) {
+      return url.slice(config.baseURL.length);
+    }
+    // Absolute URLs sent outside the API instance, e.g. the token refresh
+    return url.replace(/^\w+:\/\/[^/]+/, '');
+  }
+
+  private takeFailure(method: string, path: string): MockFailure | undefined {
+    const index = this.failures.findIndex(failure =>
+      (!failure.method || failure.method.toLowerCase() === method) &&
+      (!failure.path || toPattern(failure.path).test(path))
+    );
+    if (index === -1) return undefined;
+
+    const failure = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  private matchRoute(method: string, path: string) {
+    for (const route of this.routes) {
+      const match = route.method === method && route.pattern.exec(path);
+      if (match) {
+        const names = (route.path.match(/:\w+/g) || []).map(name => name.slice(1));
+        const params = Object.fromEntries(
+          names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+        );
+        return { route, params };
+      }
+    }
+    return null;
+  }
+
+  private isPublicRoute(route: MockRoute): boolean {
+    return Object.values(ENDPOINTS.AUTH).some(path => path === route.path);
+  }
+
+  private isAuthorized(authorization?: string): boolean {
+    const issuedAt = Number(authorization?.match(/^Bearer mock-token-(\d+)$/)?.[1]);
+    return issuedAt >= this.tokensValidFrom;
+  }
+
+  private issueTokens() {
+    const issuedAt = Date.now();
+    return { token: `mock-token-${issuedAt}`, refreshToken: `mock-refresh-${issuedAt}` };
+  }
+
+  private respond(config: InternalAxiosRequestConfig, response: MockResponse): AxiosResponse {
+    const axiosResponse: AxiosResponse = {
+      data: response.data,
+      status: response.status,
+      statusText: String(response.status),
+      headers: {},
+      config,
+      request: {},
+    };
+
+    if (response.status >= HTTP_STATUS.BAD_REQUEST) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= HTTP_STATUS.SERVER_ERROR ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        axiosResponse.request,
+        axiosResponse
+      );
+    }
+    return axiosResponse;
+  }
+
+  private networkError(config: InternalAxiosRequestConfig): AxiosError {
+    // A request but no response, like a real connection failure
+    return new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+  }
+
+  /**
+   * Check the If-Match header of a visit mutation against the current version
+   * @returns 412 with the current visit when it changed since the client read it
+   */
+  private checkVersion(request: MockRequest, visit: MockFixtures['visits'][number]): MockResponse | null {
+    const expected = request.header(HEADERS.IF_MATCH);
+    if (expected && visit.version && expected !== visit.version) {
+      return fail(412, 'Visit was changed by someone else', { current: visit });
+    }
+    return null;
+  }
+
+  private nextVersion(version?: string): string {
+    return String(Number(version || 0) + 1);
+  }
+
+  /**
+   * Record a change for delta sync
+   * @param collection Collection of the changed record
+   * @param id ID of the changed record
+   * @param deleted Whether the record was deleted
+   */
+  private recordChange(collection: SyncedCollection, id: string, deleted: boolean = false): void {
+    this.revision += 1;
+    this.changeLog[collection].set(id, { revision: this.revision, deleted });
+  }
+
+  private getSyncCursor(): string {
+    return `${this.syncEpoch}.${this.revision}`;
+  }
+
+  /**
+   * @returns Revision of a sync cursor, or null if it was not issued since the last reset
+   */
+  private parseSyncCursor(cursor: string): number | null {
+    const separator = cursor.lastIndexOf('.');
+    const revision = Number(cursor.slice(separator + 1));
+    const isCurrent = cursor.slice(0, separator) === this.syncEpoch &&
+      Number.isInteger(revision) && revision <= this.revision;
+    return isCurrent ? revision : null;
+  }
+
+  private buildRoutes(): MockRoute[] {
+    // Specific paths come before the :id paths they would also match
+    return [
+      // Auth
+      route('post', ENDPOINTS.AUTH.LOGIN, ({ body }) => {
+        if (body?.username !== this.db.user.username || body?.password !== this.db.password) {
+          return fail(HTTP_STATUS.UNAUTHORIZED, 'Invalid username or password');
+        }
+        const requiresMfa = [USER_ROLES.SUPERVISOR, USER_ROLES.ADMIN].includes(this.db.user.role);
+        if (requiresMfa && !this.trustedDevices.has(body?.deviceToken)) {
+          this.mfaChallengeId = `mock-challenge-${Date.now()}`;
+          return ok({
+            mfaRequired: true,
+            challenge: { challengeId: this.mfaChallengeId, methods: ['totp', 'sms'], phoneNumberHint: '0142' },
+          });
+        }
+        return ok({ user: this.db.user, ...this.issueTokens() });
+      }),
+      route('post', ENDPOINTS.AUTH.MFA_VERIFY, ({ body }) => {
+        if (!this.mfaChallengeId || body?.challengeId !== this.mfaChallengeId) {
+          return fail(HTTP_STATUS.GONE, 'Sign-in expired, please log in again');
+        }
+        if (body?.code !== MOCK_MFA_CODE) {
+          return fail(HTTP_STATUS.UNAUTHORIZED, 'Incorrect code');
+        }
+        this.mfaChallengeId = null;
+        const deviceToken = body.rememberDevice ? `mock-device-${Date.now()}` : undefined;
+        if (deviceToken) {
+          this.trustedDevices.add(deviceToken);
+        }
+        return ok({ user: this.db.user, ...this.issueTokens(), deviceToken });
+      }),
+      route('post', ENDPOINTS.AUTH.MFA_SEND_CODE, ({ body }) => (
+        body?.challengeId === this.mfaChallengeId
+          ? ok({})
+          : fail(HTTP_STATUS.GONE, 'Sign-in expired, please log in again')
+      )),
+      route('post', ENDPOINTS.AUTH.REGISTER, () => created({})),
+      route('post', ENDPOINTS.AUTH.REFRESH_TOKEN, ({ body }) => {
+        if (!/^mock-refresh-\d+$/.test(body?.refreshToken)) {
+          return fail(HTTP_STATUS.UNAUTHORIZED, 'Invalid refresh token');
+        }
+        return ok(this.issueTokens());
+      }),
+      route('post', ENDPOINTS.AUTH.PASSWORD_RESET, () => ok({})),
+
+      // Visits
+      route('get', ENDPOINTS.VISITS.GET_ALL, ({ query }) => ok(
+        this.db.visits.filter(visit =>
+          !query.date || formatApiDate(new Date(visit.scheduledStartTime)) === query.date
+        )
+      )),
+      route('post', ENDPOINTS.VISITS.CLOCK_IN, (request) => {
+        const visit = this.db.visits.find(item => item.id === request.params.id);
+        if (!visit) return notFound();
+        const conflict = this.checkVersion(request, visit);
+        if (conflict) return conflict;
+
+        Object.assign(visit, {
+          status: VISIT_STATUS.IN_PROGRESS,
+          actualStartTime: new Date().toISOString(),
+          clockInLocation: request.body.location,
+          version: this.nextVersion(visit.version),
+        });
+        this.recordChange('visits', visit.id);
+        const { status, actualStartTime, clockInLocation, version } = visit;
+        return ok({ status, actualStartTime, clockInLocation, version });
+      }),
+      route('post', ENDPOINTS.VISITS.CLOCK_OUT, (request) => {
+        const visit = this.db.visits.find(item => item.id === request.params.id);
+        if (!visit) return notFound();
+        const conflict = this.checkVersion(request, visit);
+        if (conflict) return conflict;
+
+        Object.assign(visit, {
+          status: VISIT_STATUS.COMPLETED,
+          actualEndTime: new Date().toISOString(),
+          clockOutLocation: request.body.location,
+          notes: request.body.notes ?? visit.notes,
+          version: this.nextVersion(visit.version),
+        });
+        this.recordChange('visits', visit.id);
+        const { status, actualEndTime, clockOutLocation, notes, version } = visit;
+        return ok({ status, actualEndTime, clockOutLocation, notes, version });
+      }),
+      route('post', ENDPOINTS.VISITS.DOCUMENTS, ({ params, body }) => {
+        const visit = this.db.visits.find(item => item.id === params.id);
+        if (!visit) return notFound();
+
+        const document = { ...body, id: generateId() };
+        visit.documents.push(document);
+        visit.version = this.nextVersion(visit.version);
+        this.recordChange('visits', visit.id);
+        return created(document);
+      }),
+      ...this.collectionRoutes(ENDPOINTS.VISITS, 'visits', () => this.db.visits),
+
+      // Patients
+      ...this.collectionRoutes(ENDPOINTS.PATIENTS, 'patients', () => this.db.patients),
+
+      // Schedules
+      route('get', ENDPOINTS.SCHEDULES.AVAILABLE_SHIFTS, () => ok(this.db.availableShifts)),
+      route('post', ENDPOINTS.SCHEDULES.REQUEST_SHIFT, ({ body }) => {
+        const shift = this.db.availableShifts.find(item => item.id === body?.shiftId);
+        if (!shift) return notFound();
+
+        const shiftRequest = {
+          id: generateId(),
+          shiftId: shift.id,
+          caregiverId: this.db.user.id,
+          requestTime: new Date().toISOString(),
+          status: SHIFT_REQUEST_STATUS.PENDING,
+        };
+        this.db.shiftRequests.push(shiftRequest);
+        return created(shiftRequest);
+      }),
+      route('post', ENDPOINTS.SCHEDULES.CANCEL_SHIFT_REQUEST, ({ params }) => {
+        const shiftRequest = this.db.shiftRequests.find(item => item.id === params.id);
+        if (!shiftRequest) return notFound();
+
+        shiftRequest.status = SHIFT_REQUEST_STATUS.CANCELLED;
+        return ok(shiftRequest);
+      }),
+      route('get', ENDPOINTS.SCHEDULES.GET_ALL, ({ query }) => ok(
+        this.db.schedules.filter(schedule =>
+          !query.date || formatApiDate(new Date(schedule.startTime)) === query.date
+        )
+      )),
+      ...this.collectionRoutes(ENDPOINTS.SCHEDULES, 'schedules', () => this.db.schedules),
+
+      // Messages
+      route('post', ENDPOINTS.MESSAGES.MARK_READ, ({ params }) => {
+        const message = this.db.messages.find(item => item.id === params.id);
+        if (!message) return notFound();
+
+        message.readStatus = true;
+        this.recordChange('messages', message.id);
+        return ok(message);
+      }),
+      route('post', ENDPOINTS.MESSAGES.CREATE, ({ body }) => {
+        const message = {
+          ...body,
+          id: generateId(),
+          timestamp: new Date().toISOString(),
+          readStatus: false,
+        };
+        this.db.messages.push(message);
+        this.recordChange('messages', message.id);
+        return created(message);
+      }),
+      ...this.collectionRoutes(ENDPOINTS.MESSAGES, 'messages', () => this.db.messages),
+      route('get', ENDPOINTS.CONVERSATIONS.GET_ALL, () => ok(this.getConversations())),
+
+      // Uploads
+      route('post', ENDPOINTS.UPLOADS.CREATE, () => {
+        const uploadId = generateId();
+        this.uploads.set(uploadId, 0);
+        return created({ uploadId, offset: 0 });
+      }),
+      route('get', ENDPOINTS.UPLOADS.GET_BY_ID, ({ params }) => {
+        const offset = this.uploads.get(params.id);
+        return offset === undefined ? notFound() : ok({ offset });
+      }),
+      route('put', ENDPOINTS.UPLOADS.CHUNKS, ({ params, body }) => {
+        const offset = this.uploads.get(params.id);
+        if (offset === undefined) return notFound();
+        if (body?.offset !== offset) {
+          return fail(409, 'Chunk does not start at the upload offset', { offset });
+        }
+
+        const nextOffset = offset + decodedLength(body.data || '');
+        this.uploads.set(params.id, nextOffset);
+        return ok({ offset: nextOffset });
+      }),
+      route('post', ENDPOINTS.UPLOADS.COMPLETE, ({ params }) => {
+        if (!this.uploads.has(params.id)) return notFound();
+
+        this.uploads.delete(params.id);
+        return ok({ fileUrl: `https://files.example.com/uploads/${params.id}` });
+      }),
+
+      // User
+      route('get', ENDPOINTS.USER.PROFILE, () => ok(this.db.user)),
+      route('put', ENDPOINTS.USER.UPDATE_PROFILE, ({ body }) => {
+        this.db.user = { ...this.db.user, ...body, id: this.db.user.id };
+        return ok(this.db.user);
+      }),
+      route('get', ENDPOINTS.USER.AVAILABILITY, () => ok(this.db.availability)),
+      route('put', ENDPOINTS.USER.UPDATE_AVAILABILITY, ({ body }) => {
+        this.db.availability = body;
+        return ok(this.db.availability);
+      }),
+    ];
+  }
+
+  /**
+   * Routes of a collection with the usual GET_ALL, CHANGES, GET_BY_ID, CREATE,
+   * UPDATE and DELETE endpoints
+   * @param endpoints ENDPOINTS group of the collection
+   * @param collection Name of the collection in the change log
+   * @param items Function returning the collection's current items
+   */
+  private collectionRoutes<T extends { id: string }>(
+    endpoints: {
+      GET_ALL: string;
+      CHANGES: string;
+      GET_BY_ID: string;
+      CREATE: string;
+      UPDATE: string;
+      DELETE: string;
+    },
+    collection: SyncedCollection,
+    items: () => T[]
+  ): MockRoute[] {
+    const find = (id: string) => items().find(item => item.id === id);
+
+    return [
+      route('get', endpoints.GET_ALL, () => ok(items())),
+      route('get', endpoints.CHANGES, ({ query }) => {
+        if (!query.updatedSince) {
+          return ok({ updated: items(), deleted: [], cursor: this.getSyncCursor() });
+        }
+
+        const since = this.parseSyncCursor(query.updatedSince);
+        if (since === null) {
+          return fail(HTTP_STATUS.GONE, 'Sync cursor expired, a full sync is needed');
+        }
+        const changes = Array.from(this.changeLog[collection].entries())
+          .filter(([, change]) => change.revision > since);
+        const updatedIds = new Set(changes.filter(([, change]) => !change.deleted).map(([id]) => id));
+        return ok({
+          updated: items().filter(item => updatedIds.has(item.id)),
+          deleted: changes.filter(([, change]) => change.deleted).map(([id]) => id),
+          cursor: this.getSyncCursor(),
+        });
+      }),
+      route('get', endpoints.GET_BY_ID, ({ params }) => {
+        const item = find(params.id);
+        return item ? ok(item) : notFound();
+      }),
+      route('post', endpoints.CREATE, ({ body }) => {
+        const item = { ...body, id: generateId() };
+        items().push(item);
+        this.recordChange(collection, item.id);
+        return created(item);
+      }),
+      route('put', endpoints.UPDATE, ({ params, body }) => {
+        const item = find(params.id);
+        if (!item) return notFound();
+
+        Object.assign(item, body, { id: item.id });
+        this.recordChange(collection, item.id);
+        return ok(item);
+      }),
+      route('delete', endpoints.DELETE, ({ params }) => {
+        const index = items().findIndex(item => item.id === params.id);
+        if (index === -1) return notFound();
+
+        const [removed] = items().splice(index, 1);
+        this.recordChange(collection, removed.id, true);
+        return ok({});
+      }),
+    ];
+  }
+
+  /**
+   * Group messages into conversations with the other participant
+   */
+  private getConversations() {
+    const userId = this.db.user.id;
+    const byParticipant = new Map<string, MockFixtures['messages']>();
+
+    [...this.db.messages]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .forEach(message => {
+        const otherId = message.senderId === userId ? message.receiverId : message.senderId;
+        byParticipant.set(otherId, [...(byParticipant.get(otherId) || []), message]);
+      });
+
+    return Array.from(byParticipant.entries()).map(([otherId, messages]) => ({
+      id: `conversation-${otherId}`,
+      participants: [userId, otherId],
+      lastMessage: messages[messages.length - 1],
+      unreadCount: messages.filter(message => message.receiverId === userId && !message.readStatus).length,
+    }));
+  }
+}
+
+export const mockServer = new MockServer();
@@ -4,11 +4,22 @@ import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { RootState } from '../redux/store';
 import { ROUTES } from '../constants/appConstants';
+import {
+  AuthStackParamList,
+  MainTabParamList,
+  MessagesStackParamList,
+  PatientsStackParamList,
+  ProfileStackParamList,
+  RootStackParamList,
+  ScheduleStackParamList,
+  VisitsStackParamList,
+} from './types';
 
 // Auth screens
 import LoginScreen from '../screens/auth/LoginScreen';
 import RegisterScreen from '../screens/auth/RegisterScreen';
 import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
+import MfaChallengeScreen from '../screens/auth/MfaChallengeScreen';
 
 // Main screens
 import HomeScreen from '../screens/home/HomeScreen';
@@ -27,130 +38,144 @@ import ScheduleScreen from '../screens/schedule/ScheduleScreen';
 import ShiftMarketplaceScreen from '../screens/schedule/ShiftMarketplaceScreen';
 import AvailabilityScreen from '../screens/schedule/AvailabilityScreen';
 
+// Sync screens
+import SyncCenterScreen from '../screens/sync/SyncCenterScreen';
+import ConflictResolutionScreen from '../screens/sync/ConflictResolutionScreen';
+
+// Settings screens
+import SecuritySettingsScreen from '../screens/settings/SecuritySettingsScreen';
+
 // We'll need to implement these screens next
 const MessageScreen = () => null;
 const ProfileScreen = () => null;
 const DocumentationScreen = () => null;
 
-const Stack = createStackNavigator();
-const Tab = createBottomTabNavigator();
+const RootStack = createStackNavigator<RootStackParamList>();
+const AuthStackNavigator = createStackNavigator<AuthStackParamList>();
+const VisitsStackNavigator = createStackNavigator<VisitsStackParamList>();
+const PatientsStackNavigator = createStackNavigator<PatientsStackParamList>();
+const ScheduleStackNavigator = createStackNavigator<ScheduleStackParamList>();
+const MessagesStackNavigator = createStackNavigator<MessagesStackParamList>();
+const ProfileStackNavigator = createStackNavigator<ProfileStackParamList>();
+const Tab = createBottomTabNavigator<MainTabParamList>();
 
 const AuthStack = () => {
   return (
-    <Stack.Navigator
+    <AuthStackNavigator.Navigator
       screenOptions={{
         headerShown: false,
       }}
     >
-      <Stack.Screen name={ROUTES.AUTH.LOGIN} component={LoginScreen} />
-      <Stack.Screen name={ROUTES.AUTH.REGISTER} component={RegisterScreen} />
-      <Stack.Screen name={ROUTES.AUTH.FORGOT_PASSWORD} component={ForgotPasswordScreen} />
-    </Stack.Navigator>
+      <AuthStackNavigator.Screen name={ROUTES.AUTH.LOGIN} component={LoginScreen} />
+      <AuthStackNavigator.Screen name={ROUTES.AUTH.REGISTER} component={RegisterScreen} />
+      <AuthStackNavigator.Screen name={ROUTES.AUTH.FORGOT_PASSWORD} component={ForgotPasswordScreen} />
+      <AuthStackNavigator.Screen name={ROUTES.AUTH.MFA_CHALLENGE} component={MfaChallengeScreen} />
+    </AuthStackNavigator.Navigator>
   );
 };
 
 const VisitsStack = () => {
   return (
-    <Stack.Navigator>
-      <Stack.Screen 
+    <VisitsStackNavigator.Navigator>
+      <VisitsStackNavigator.Screen 
         name="VisitsList" 
         component={VisitListScreen} 
         options={{ title: 'Visits' }}
       />
-      <Stack.Screen 
+      <VisitsStackNavigator.Screen 
         name={ROUTES.VISITS.VISIT_DETAILS} 
         component={VisitDetailScreen}
         options={{ title: 'Visit Details' }}
       />
-      <Stack.Screen 
+      <VisitsStackNavigator.Screen 
         name={ROUTES.VISITS.CLOCK_IN} 
         component={EVVScreen}
         options={{ title: 'Clock In' }}
       />
-      <Stack.Screen 
+      <VisitsStackNavigator.Screen 
         name={ROUTES.VISITS.CLOCK_OUT} 
         component={EVVScreen}
         options={{ title: 'Clock Out' }}
       />
-      <Stack.Screen 
+      <VisitsStackNavigator.Screen 
         name={ROUTES.VISITS.DOCUMENTATION} 
         component={DocumentationScreen}
         options={{ title: 'Documentation' }}
       />
-    </Stack.Navigator>
+    </VisitsStackNavigator.Navigator>
   );
 };
 
 const PatientsStack = () => {
   return (
-    <Stack.Navigator>
-      <Stack.Screen 
+    <PatientsStackNavigator.Navigator>
+      <PatientsStackNavigator.Screen 
         name="PatientsList" 
         component={PatientListScreen} 
         options={{ title: 'Patients' }}
       />
-      <Stack.Screen 
+      <PatientsStackNavigator.Screen 
         name={ROUTES.PATIENTS.PATIENT_DETAILS} 
         component={PatientDetailScreen}
         options={{ title: 'Patient Details' }}
       />
-      <Stack.Screen 
+      <PatientsStackNavigator.Screen 
         name={ROUTES.PATIENTS.CARE_PLAN} 
         component={CarePlanScreen}
         options={{ title: 'Care Plan' }}
       />
-      <Stack.Screen 
+      <PatientsStackNavigator.Screen 
         name={ROUTES.PATIENTS.MEDICAL_HISTORY} 
         component={MedicalHistoryScreen}
         options={{ title: 'Medical History' }}
       />
-    </Stack.Navigator>
+    </PatientsStackNavigator.Navigator>
   );
 };
 
 const ScheduleStack = () => {
   return (
-    <Stack.Navigator>
-      <Stack.Screen 
+    <ScheduleStackNavigator.Navigator>
+      <ScheduleStackNavigator.Screen 
         name="ScheduleMain" 
         component={ScheduleScreen} 
         options={{ title: 'Schedule' }}
       />
-      <Stack.Screen 
+      <ScheduleStackNavigator.Screen 
         name={ROUTES.SCHEDULE.SHIFT_MARKETPLACE} 
         component={ShiftMarketplaceScreen}
         options={{ title: 'Shift Marketplace' }}
       />
-      <Stack.Screen 
+      <ScheduleStackNavigator.Screen 
         name={ROUTES.SCHEDULE.AVAILABILITY} 
         component={AvailabilityScreen}
         options={{ title: 'My Availability' }}
       />
-    </Stack.Navigator>
+    </ScheduleStackNavigator.Navigator>
   );
 };
 
 const MessagesStack = () => {
   return (
-    <Stack.Navigator>
-      <Stack.Screen 
+    <MessagesStackNavigator.Navigator>
+      <MessagesStackNavigator.Screen 
         name="MessagesMain" 
         component={MessageScreen} 
         options={{ title: 'Messages' }}
       />
-    </Stack.Navigator>
+    </MessagesStackNavigator.Navigator>
   );
 };
 
 const ProfileStack = () => {
   return (
-    <Stack.Navigator>
-      <Stack.Screen 
+    <ProfileStackNavigator.Navigator>
+      <ProfileStackNavigator.Screen 
         name="ProfileMain" 
         component={ProfileScreen} 
         options={{ title: 'Profile' }}
       />
-    </Stack.Navigator>
+    </ProfileStackNavigator.Navigator>
   );
 };
 
@@ -215,17 +240,35 @@ const AppNavigator = () => {
   const { isAuthenticated } = useSelector((state: RootState) => state.auth);
 
   return (
-    <Stack.Navigator
+    <RootStack.Navigator
       screenOptions={{
         headerShown: false,
       }}
     >
       {isAuthenticated ? (
-        <Stack.Screen name="Main" component={MainTabs} />
+        <>
+          <RootStack.Screen name="Main" component={MainTabs} />
+          {/* Sync screens are reachable from any tab and from the offline indicator */}
+          <RootStack.Screen 
+            name={ROUTES.SYNC.CENTER} 
+            component={SyncCenterScreen}
+            options={{ headerShown: true, title: 'Sync Center' }}
+          />
+          <RootStack.Screen 
+            name={ROUTES.SYNC.CONFLICTS} 
+            component={ConflictResolutionScreen}
+            options={{ headerShown: true, title: 'Sync Conflicts' }}
+          />
+          <RootStack.Screen 
+            name={ROUTES.SETTINGS.SECURITY} 
+            component={SecuritySettingsScreen}
+            options={{ headerShown: true, title: 'Security' }}
+          />
+        </>
       ) : (
-        <Stack.Screen name="Auth" component={AuthStack} />
+        <RootStack.Screen name="Auth" component={AuthStack} />
       )}
-    </Stack.Navigator>
+    </RootStack.Navigator>
   );
 };
 
@@ -0,0 +1,75 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+import { ROUTES } from '../constants/appConstants';
+
+// Route params of each navigator in AppNavigator
+
+export type AuthStackParamList = {
+  [ROUTES.AUTH.LOGIN]: undefined;
+  [ROUTES.AUTH.REGISTER]: undefined;
+  [ROUTES.AUTH.FORGOT_PASSWORD]: undefined;
+  [ROUTES.AUTH.MFA_CHALLENGE]: undefined;
+};
+
+export type VisitsStackParamList = {
+  VisitsList: undefined;
+  [ROUTES.VISITS.VISIT_DETAILS]: { visitId: string };
+  [ROUTES.VISITS.CLOCK_IN]: { visitId: string; mode: 'clockIn' };
+  [ROUTES.VISITS.CLOCK_OUT]: { visitId: string; mode: 'clockOut' };
+  [ROUTES.VISITS.DOCUMENTATION]: { visitId: string };
+  [ROUTES.VISITS.VISIT_HISTORY]: undefined;
+};
+
+export type PatientsStackParamList = {
+  PatientsList: undefined;
+  [ROUTES.PATIENTS.PATIENT_DETAILS]: { patientId: string };
+  [ROUTES.PATIENTS.CARE_PLAN]: { patientId: string };
+  [ROUTES.PATIENTS.HEALTH_METRICS]: { patientId: string };
+  [ROUTES.PATIENTS.MEDICAL_HISTORY]: { patientId: string };
+};
+
+export type ScheduleStackParamList = {
+  ScheduleMain: undefined;
+  [ROUTES.SCHEDULE.CALENDAR]: undefined;
+  [ROUTES.SCHEDULE.SHIFT_MARKETPLACE]: undefined;
+  [ROUTES.SCHEDULE.AVAILABILITY]: undefined;
+};
+
+export type MessagesStackParamList = {
+  MessagesMain: undefined;
+  [ROUTES.MESSAGES.INBOX]: undefined;
+  [ROUTES.MESSAGES.CONVERSATION]: { conversationId: string };
+  [ROUTES.MESSAGES.NEW_MESSAGE]: { receiverId?: string } | undefined;
+};
+
+export type ProfileStackParamList = {
+  ProfileMain: undefined;
+};
+
+export type MainTabParamList = {
+  [ROUTES.MAIN.HOME]: undefined;
+  [ROUTES.MAIN.SCHEDULE]: NavigatorScreenParams<ScheduleStackParamList> | undefined;
+  [ROUTES.MAIN.VISITS]: NavigatorScreenParams<VisitsStackParamList> | undefined;
+  [ROUTES.MAIN.PATIENTS]: NavigatorScreenParams<PatientsStackParamList> | undefined;
+  [ROUTES.MAIN.MESSAGES]: NavigatorScreenParams<MessagesStackParamList> | undefined;
+  [ROUTES.MAIN.PROFILE]: NavigatorScreenParams<ProfileStackParamList> | undefined;
+};
+
+export type RootStackParamList = {
+  Auth: NavigatorScreenParams<AuthStackParamList> | undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
+  [ROUTES.SYNC.CENTER]: undefined;
+  [ROUTES.SYNC.CONFLICTS]: { visitId?: string } | undefined;
+  [ROUTES.SETTINGS.SECURITY]: undefined;
+};
+
+// Params of every screen in ROUTES, wherever it is nested
+export type RouteParamList =
+  AuthStackParamList &
+  MainTabParamList &
+  VisitsStackParamList &
+  PatientsStackParamList &
+  ScheduleStackParamList &
+  MessagesStackParamList &
+  Omit<RootStackParamList, 'Auth' | 'Main'>;
+
+export type RouteName = keyof RouteParamList;
@@ -0,0 +1,92 @@
+import { applyChanges } from '../deltaSync';
+import { byDistanceFromNow } from '../../utils/cacheUtils';
+import { isTodayOrLater } from '../../utils/dateUtils';
+
+interface CachedItem {
+  id: string;
+  name: string;
+  date?: string;
+}
+
+const DAY = 86400000;
+
+const records = (count: number): CachedItem[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `r${index}`, name: 'Synced' }));
+
+describe('applyChanges', () => {
+  it('keeps the cursor when the change set overflows the offline cache', () => {
+    const entities: Record<string, CachedItem> = {};
+    const lastFetchedAt: Record<string, number> = {};
+
+    const cursor = applyChanges(
+      entities,
+      { changes: { updated: records(5), deleted: [], cursor: 'c1' }, isFullSync: true },
+      { lastFetchedAt, maxEntries: 3 }
+    );
+
+    expect(cursor).toBe('c1');
+    expect(Object.keys(entities)).toHaveLength(3);
+  });
+
+  it('brings an evicted record back with its next change', () => {
+    const entities: Record<string, CachedItem> = {};
+    const lastFetchedAt: Record<string, number> = {};
+    applyChanges(
+      entities,
+      { changes: { updated: records(3), deleted: [], cursor: 'c1' }, isFullSync: true },
+      { lastFetchedAt, maxEntries: 2 }
+    );
+    const [evictedId] = ['r0', 'r1', 'r2'].filter(id => !entities[id]);
+
+    const cursor = applyChanges(
+      entities,
+      {
+        changes: { updated: [{ id: evictedId, name: 'Changed' }], deleted: [], cursor: 'c2' },
+        isFullSync: false,
+      },
+      { lastFetchedAt, maxEntries: 3 }
+    );
+
+    expect(cursor).toBe('c2');
+    expect(entities[evictedId]).toEqual({ id: evictedId, name: 'Changed' });
+  });
+
+  it('evicts the records furthest in the past and keeps current ones', () => {
+    const entities: Record<string, CachedItem> = {};
+    const lastFetchedAt: Record<string, number> = {};
+    const dated = (id: string, daysFromNow: number): CachedItem =>
+      ({ id, name: 'Visit', date: new Date(Date.now() + daysFromNow * DAY).toISOString() });
+
+    applyChanges(
+      entities,
+      {
+        changes: {
+          updated: [dated('upcoming', 2), dated('last-year', -365), dated('today', 0), dated('yesterday', -1)],
+          deleted: [],
+          cursor: 'c1',
+        },
+        isFullSync: true,
+      },
+      {
+        lastFetchedAt,
+        maxEntries: 3,
+        keepCached: (item) => isTodayOrLater(item.date!),
+        evictionOrder: byDistanceFromNow((item: CachedItem) => item.date!),
+      }
+    );
+
+    expect(Object.keys(entities).sort()).toEqual(['today', 'upcoming', 'yesterday']);
+  });
+
+  it('still removes deleted records that would be kept in the cache', () => {
+    const entities: Record<string, CachedItem> = { upcoming: { id: 'upcoming', name: 'Visit' } };
+
+    applyChanges(
+      entities,
+      { changes: { updated: [], deleted: ['upcoming'], cursor: 'c2' }, isFullSync: false },
+      { lastFetchedAt: {}, maxEntries: 10, keepCached: () => true }
+    );
+
+    expect(entities).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { apiClient } from '../../services/apiClient';
+import { VISIT_STATUS } from '../../constants/appConstants';
+import visitReducer, {
+  Visit,
+  VisitLocation,
+  addOfflineVisit,
+  clockIn,
+  clockOut,
+  visitsReceived,
+} from '../slices/visitSlice';
+import offlineReducer, { enqueueMutation, mutationSucceeded } from '../slices/offlineSlice';
+
+jest.mock('../../services/apiClient', () => ({
+  apiClient: {
+    visits: { clockIn: jest.fn(), clockOut: jest.fn() },
+  },
+}));
+jest.mock('../../services/syncEngine', () => ({
+  syncEngine: { registerThunk: jest.fn() },
+  withOfflineReplay: () => ({}),
+}));
+jest.mock('../../services/uploadService', () => ({
+  uploadService: { isLocalFile: () => false },
+}));
+jest.mock('../slices/authSlice', () => {
+  const { createAction } = jest.requireActual('@reduxjs/toolkit');
+  return {
+    login: { fulfilled: createAction('auth/login/fulfilled') },
+    logout: { fulfilled: createAction('auth/logout/fulfilled') },
+    verifyMfa: { fulfilled: createAction('auth/verifyMfa/fulfilled') },
+  };
+});
+
+const location: VisitLocation = { latitude: 52.37, longitude: 4.89, timestamp: Date.parse('2024-05-01T09:00:00Z') };
+
+const scheduledVisit: Visit = {
+  id: 'visit-1',
+  patientId: 'patient-1',
+  caregiverId: 'caregiver-1',
+  scheduledStartTime: '2024-05-01T09:00:00Z',
+  scheduledEndTime: '2024-05-01T10:00:00Z',
+  status: VISIT_STATUS.SCHEDULED,
+  tasks: [],
+  documents: [],
+};
+
+const startedVisit: Visit = {
+  ...scheduledVisit,
+  status: VISIT_STATUS.IN_PROGRESS,
+  actualStartTime: '2024-05-01T09:00:00Z',
+  version: '2',
+};
+
+const createStore = () => configureStore({
+  reducer: { visits: visitReducer, offline: offlineReducer },
+});
+
+const queueMutation = (store: ReturnType<typeof createStore>, type: string, idempotencyKey: string) =>
+  store.dispatch(enqueueMutation({
+    id: idempotencyKey,
+    kind: 'thunk',
+    type,
+    arg: { visitId: scheduledVisit.id, location, idempotencyKey },
+    idempotencyKey,
+    timestamp: Date.now(),
+    attempts: 0,
+    lastError: null,
+    nextRetryAt: null,
+  }));
+
+describe('visitSlice replays', () => {
+  let store: ReturnType<typeof createStore>;
+
+  // Clocked in and out while offline
+  beforeEach(() => {
+    store = createStore();
+    store.dispatch(visitsReceived([scheduledVisit]));
+    store.dispatch(addOfflineVisit({
+      ...scheduledVisit,
+      status: VISIT_STATUS.COMPLETED,
+      actualStartTime: '2024-05-01T09:00:00Z',
+      actualEndTime: '2024-05-01T10:00:00Z',
+    }));
+    queueMutation(store, clockIn.typePrefix, 'clock-in-key');
+    queueMutation(store, clockOut.typePrefix, 'clock-out-key');
+  });
+
+  it('keeps a queued clock out applied when the clock in is replayed', async () => {
+    jest.mocked(apiClient.visits.clockIn).mockResolvedValue(startedVisit);
+
+    await store.dispatch(clockIn({ visitId: scheduledVisit.id, location, idempotencyKey: 'clock-in-key' }));
+    store.dispatch(mutationSucceeded({ id: 'clock-in-key' }));
+    store.dispatch(visitsReceived([startedVisit]));
+
+    const visit = store.getState().visits.entities[scheduledVisit.id];
+    expect(visit.status).toBe(VISIT_STATUS.COMPLETED);
+    expect(visit.actualEndTime).toBe('2024-05-01T10:00:00Z');
+    expect(visit.isOffline).toBe(true);
+  });
+
+  it('clears the offline flag once the last queued mutation is replayed', async () => {
+    jest.mocked(apiClient.visits.clockIn).mockResolvedValue(startedVisit);
+    jest.mocked(apiClient.visits.clockOut).mockResolvedValue({
+      ...startedVisit,
+      status: VISIT_STATUS.COMPLETED,
+      actualEndTime: '2024-05-01T10:00:00Z',
+      version: '3',
+    });
+
+    await store.dispatch(clockIn({ visitId: scheduledVisit.id, location, idempotencyKey: 'clock-in-key' }));
+    store.dispatch(mutationSucceeded({ id: 'clock-in-key' }));
+    await store.dispatch(clockOut({ visitId: scheduledVisit.id, location, idempotencyKey: 'clock-out-key' }));
+    store.dispatch(mutationSucceeded({ id: 'clock-out-key' }));
+
+    const visit = store.getState().visits.entities[scheduledVisit.id];
+    expect(visit.status).toBe(VISIT_STATUS.COMPLETED);
+    expect(visit.version).toBe('3');
+    expect(visit.isOffline).toBe(false);
+  });
+});
@@ -0,0 +1,192 @@
+import { AppState } from 'react-native';
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+import { setupListeners } from '@reduxjs/toolkit/query';
+import { netInfoService } from '../../services/netInfoService';
+import { QUERY_CACHE } from '../../constants/appConstants';
+import { classifyRequestError, getRequestErrorMessage } from '../../utils/requestErrorUtils';
+import { isQueuedOffline } from '../createOfflineThunk';
+import { ChangeSet, ChangesReceived, isSyncCursorRejected } from '../deltaSync';
+import { RootState } from '../store';
+
+// Error of a failed query or mutation
+export interface ApiQueryError {
+  message: string;
+  status?: number;
+  // Offline with nothing cached to show
+  isOffline?: boolean;
+}
+
+// Result of a mutation, queued mutations are replayed by the sync engine
+export interface MutationResult {
+  queued: boolean;
+}
+
+export const API_TAGS = [
+  'Visit',
+  'Patient',
+  'Schedule',
+  'AvailableShift',
+  'Message',
+  'Conversation',
+] as const;
+
+// Tag ID of a whole collection, single records are tagged with their ID
+export const LIST_ID = 'LIST';
+
+const OFFLINE_ERROR: ApiQueryError = {
+  message: 'Not available offline',
+  isOffline: true,
+};
+
+// Endpoints are injected per domain (visitApi, patientApi, ...). Each calls
+// the typed apiClient, so responses are validated and requests go through
+// apiService's auth, mock and offline handling.
+export const baseApi = createApi({
+  reducerPath: 'api',
+  baseQuery: fakeBaseQuery<ApiQueryError>(),
+  tagTypes: API_TAGS,
+  keepUnusedDataFor: QUERY_CACHE.KEEP_UNUSED_DATA_FOR,
+  refetchOnFocus: true,
+  refetchOnReconnect: true,
+  endpoints: () => ({}),
+});
+
+interface QueryApi {
+  getState: () => unknown;
+  signal: AbortSignal;
+}
+
+interface CachedQuery<Result> {
+  // Request to the API, aborted when the query is
+  request: (signal: AbortSignal) => Promise<Result>;
+  // Store the response in the slice that persists it
+  onReceived?: (result: Result) => void;
+  // Copy kept by the slice, shown offline
+  getCached?: (state: RootState) => Result | undefined;
+}
+
+/**
+ * Run a query backed by a slice's offline cache
+ * Fresh responses are written to the slice, and the cached copy is returned
+ * instead while offline or when the request cannot reach the server.
+ * @param api queryFn API
+ * @param query Request and cache accessors
+ * @returns The queryFn result
+ */
+export const runCachedQuery = async <Result>(
+  { getState, signal }: QueryApi,
+  { request, onReceived, getCached }: CachedQuery<Result>
+): Promise<{ data: Result } | { error: ApiQueryError }> => {
+  const fromCache = () => {
+    const cached = getCached?.(getState() as RootState);
+    return cached !== undefined ? { data: cached } : { error: OFFLINE_ERROR };
+  };
+
+  if (!(getState() as RootState).offline.isOnline) {
+    return fromCache();
+  }
+
+  try {
+    const result = await request(signal);
+    onReceived?.(result);
+    return { data: result };
+  } catch (error: any) {
+    if (classifyRequestError(error) === 'network' && !signal.aborted) {
+      return fromCache();
+    }
+    return {
+      error: {
+        message: getRequestErrorMessage(error),
+        status: error?.response?.status,
+      },
+    };
+  }
+};
+
+interface DeltaQuery<Entity> {
+  // Request changes since a cursor, the whole collection without one
+  request: (updatedSince: string | undefined, signal: AbortSignal) => Promise<ChangeSet<Entity>>;
+  // Cursor kept by the slice
+  getCursor: (state: RootState) => string | null;
+  // Apply the changes to the slice
+  onReceived: (received: ChangesReceived<Entity>) => void;
+  // Collection kept by the slice, returned once the changes are applied
+  getCached: (state: RootState) => Entity[];
+}
+
+/**
+ * Run a query syncing a slice's collection incrementally
+ * Only changes since the slice's cursor are downloaded. When the server
+ * rejects the cursor, the whole collection is downloaded again.
+ * @param api queryFn API
+ * @param query Request and cache accessors
+ * @returns The queryFn result, the slice's collection
+ */
+export const runDeltaQuery = <Entity>(
+  { getState, signal }: QueryApi,
+  { request, getCursor, onReceived, getCached }: DeltaQuery<Entity>
+) => runCachedQuery({ getState, signal }, {
+  request: async (requestSignal) => {
+    const cursor = getCursor(getState() as RootState) ?? undefined;
+    try {
+      onReceived({ changes: await request(cursor, requestSignal), isFullSync: !cursor });
+    } catch (error) {
+      if (!cursor || !isSyncCursorRejected(error)) {
+        throw error;
+      }
+      onReceived({ changes: await request(undefined, requestSignal), isFullSync: true });
+    }
+    return getCached(getState() as RootState);
+  },
+  getCached,
+});
+
+/**
+ * Run a mutation through its slice thunk, so optimistic updates and the
+ * offline queue keep working
+ * @param request Result of dispatching the thunk
+ * @returns The queryFn result, queued when the thunk was saved for replay
+ */
+export const runThunkMutation = async (
+  request: Promise<{ payload?: unknown; error?: { message?: string }; meta: { requestStatus: string } }>
+): Promise<{ data: MutationResult } | { error: ApiQueryError }> => {
+  const action = await request;
+  if (action.meta.requestStatus === 'fulfilled') {
+    return { data: { queued: false } };
+  }
+  if (isQueuedOffline(action)) {
+    return { data: { queued: true } };
+  }
+  return {
+    error: {
+      message: (typeof action.payload === 'string' ? action.payload : action.error?.message) || 'Request failed',
+    },
+  };
+};
+
+/**
+ * Enable refetchOnFocus and refetchOnReconnect
+ * The default listeners use browser events, so the app's foreground state
+ * and netInfoService connectivity are used instead.
+ * @param dispatch Store dispatch
+ * @returns Function removing the listeners
+ */
+export const setupApiListeners = (dispatch: Parameters<typeof setupListeners>[0]) =>
+  setupListeners(dispatch, (listenerDispatch, { onFocus, onFocusLost, onOnline, onOffline }) => {
+    const appStateSubscription = AppState.addEventListener('change', (nextState) => {
+      listenerDispatch(nextState === 'active' ? onFocus() : onFocusLost());
+    });
+
+    let wasConnected: boolean | null = null;
+    const handleConnectivityChange = (isConnected: boolean) => {
+      if (isConnected === wasConnected) return;
+      wasConnected = isConnected;
+      listenerDispatch(isConnected ? onOnline() : onOffline());
+    };
+    netInfoService.addConnectivityListener(handleConnectivityChange);
+
+    return () => {
+      appStateSubscription.remove();
+      netInfoService.removeConnectivityListener(handleConnectivityChange);
+    };
+  });
@@ -0,0 +1,67 @@
+import { apiClient } from '../../services/apiClient';
+import {
+  Conversation,
+  Message,
+  conversationsReceived,
+  markMessageAsRead,
+  messageChangesReceived,
+  sendMessage,
+} from '../slices/messageSlice';
+import {
+  LIST_ID,
+  MutationResult,
+  baseApi,
+  runCachedQuery,
+  runDeltaQuery,
+  runThunkMutation,
+} from './baseApi';
+
+// Messages are not persisted, so nothing is shown offline
+export const messageApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    // Synced incrementally while the app runs
+    getMessages: builder.query<Message[], void>({
+      queryFn: (_, { dispatch, getState, signal }) => runDeltaQuery({ getState, signal }, {
+        request: (updatedSince, requestSignal) =>
+          apiClient.messages.getChanges({ query: { updatedSince }, config: { signal: requestSignal } }),
+        getCursor: (state) => state.messages.syncCursor,
+        onReceived: (received) => dispatch(messageChangesReceived(received)),
+        getCached: (state) => Object.values(state.messages.messages),
+      }),
+      providesTags: (messages) => [
+        { type: 'Message', id: LIST_ID },
+        ...(messages || []).map(({ id }) => ({ type: 'Message' as const, id })),
+      ],
+    }),
+
+    getConversations: builder.query<Conversation[], void>({
+      queryFn: (_, { dispatch, getState, signal }) => runCachedQuery({ getState, signal }, {
+        request: (requestSignal) => apiClient.messages.getConversations({ config: { signal: requestSignal } }),
+        onReceived: (conversations) => dispatch(conversationsReceived(conversations)),
+      }),
+      providesTags: [{ type: 'Conversation', id: LIST_ID }],
+    }),
+
+    sendMessage: builder.mutation<MutationResult, Omit<Message, 'id' | 'timestamp' | 'readStatus'>>({
+      queryFn: (message, { dispatch }) => runThunkMutation(dispatch(sendMessage(message))),
+      invalidatesTags: (result) => (result && !result.queued
+        ? [{ type: 'Message', id: LIST_ID }, { type: 'Conversation', id: LIST_ID }]
+        : []),
+    }),
+
+    markMessageAsRead: builder.mutation<MutationResult, string>({
+      queryFn: (messageId, { dispatch }) => runThunkMutation(dispatch(markMessageAsRead(messageId))),
+      invalidatesTags: (result, error, messageId) => [
+        { type: 'Message', id: messageId },
+        { type: 'Conversation', id: LIST_ID },
+      ],
+    }),
+  }),
+});
+
+export const {
+  useGetMessagesQuery,
+  useGetConversationsQuery,
+  useSendMessageMutation,
+  useMarkMessageAsReadMutation,
+} = messageApi;
@@ -0,0 +1,45 @@
+import { apiClient } from '../../services/apiClient';
+import { QUERY_CACHE } from '../../constants/appConstants';
+import {
+  Patient,
+  patientChangesReceived,
+  patientReceived,
+  selectCachedPatients,
+} from '../slices/patientSlice';
+import { LIST_ID, baseApi, runCachedQuery, runDeltaQuery } from './baseApi';
+
+export const patientApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    // Synced incrementally
+    getPatients: builder.query<Patient[], void>({
+      queryFn: (_, { dispatch, getState, signal }) => runDeltaQuery({ getState, signal }, {
+        request: (updatedSince, requestSignal) =>
+          apiClient.patients.getChanges({ query: { updatedSince }, config: { signal: requestSignal } }),
+        getCursor: (state) => state.patients.syncCursor,
+        onReceived: (received) => dispatch(patientChangesReceived(received)),
+        getCached: selectCachedPatients,
+      }),
+      providesTags: (patients) => [
+        { type: 'Patient', id: LIST_ID },
+        ...(patients || []).map(({ id }) => ({ type: 'Patient' as const, id })),
+      ],
+      keepUnusedDataFor: QUERY_CACHE.PATIENTS_KEEP_UNUSED_DATA_FOR,
+    }),
+
+    getPatient: builder.query<Patient, string>({
+      queryFn: (patientId, { dispatch, getState, signal }) => runCachedQuery({ getState, signal }, {
+        request: (requestSignal) =>
+          apiClient.patients.getById({ params: { id: patientId }, config: { signal: requestSignal } }),
+        onReceived: (patient) => dispatch(patientReceived(patient)),
+        getCached: (state) => state.patients.entities[patientId],
+      }),
+      providesTags: (patient, error, patientId) => [{ type: 'Patient', id: patientId }],
+      keepUnusedDataFor: QUERY_CACHE.PATIENTS_KEEP_UNUSED_DATA_FOR,
+    }),
+  }),
+});
+
+export const {
+  useGetPatientsQuery,
+  useGetPatientQuery,
+} = patientApi;
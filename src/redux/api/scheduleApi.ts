@@ -0,0 +1,76 @@
+import { apiClient } from '../../services/apiClient';
+import { QUERY_CACHE } from '../../constants/appConstants';
+import {
+  AvailableShift,
+  Schedule,
+  availableShiftsReceived,
+  cancelShiftRequest,
+  requestShift,
+  scheduleChangesReceived,
+  schedulesReceived,
+  selectCachedSchedules,
+} from '../slices/scheduleSlice';
+import {
+  LIST_ID,
+  MutationResult,
+  baseApi,
+  runCachedQuery,
+  runDeltaQuery,
+  runThunkMutation,
+} from './baseApi';
+
+export const scheduleApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    // Optionally limited to a single day (YYYY-MM-DD). All schedules are
+    // synced incrementally, a single day is fetched whole.
+    getSchedules: builder.query<Schedule[], { date?: string } | void>({
+      queryFn: (query, { dispatch, getState, signal }) => (query?.date
+        ? runCachedQuery({ getState, signal }, {
+          request: (requestSignal) =>
+            apiClient.schedules.getAll({ query: { date: query.date }, config: { signal: requestSignal } }),
+          onReceived: (schedules) => dispatch(schedulesReceived(schedules)),
+          getCached: (state) => selectCachedSchedules(state, query.date),
+        })
+        : runDeltaQuery({ getState, signal }, {
+          request: (updatedSince, requestSignal) =>
+            apiClient.schedules.getChanges({ query: { updatedSince }, config: { signal: requestSignal } }),
+          getCursor: (state) => state.schedules.syncCursor,
+          onReceived: (received) => dispatch(scheduleChangesReceived(received)),
+          getCached: (state) => selectCachedSchedules(state),
+        })),
+      providesTags: (schedules, error, query) => [
+        { type: 'Schedule', id: query?.date ?? LIST_ID },
+        ...(schedules || []).map(({ id }) => ({ type: 'Schedule' as const, id })),
+      ],
+    }),
+
+    // Open shifts are not cached for offline use, a stale list would offer
+    // shifts that are already taken. Screens poll it while open.
+    getAvailableShifts: builder.query<AvailableShift[], void>({
+      queryFn: (_, { dispatch, getState, signal }) => runCachedQuery({ getState, signal }, {
+        request: (requestSignal) => apiClient.schedules.getAvailableShifts({ config: { signal: requestSignal } }),
+        onReceived: (shifts) => dispatch(availableShiftsReceived(shifts)),
+      }),
+      providesTags: [{ type: 'AvailableShift', id: LIST_ID }],
+      keepUnusedDataFor: QUERY_CACHE.SHIFTS_KEEP_UNUSED_DATA_FOR,
+    }),
+
+    // A requested shift leaves the marketplace, and joins the schedule once approved
+    requestShift: builder.mutation<MutationResult, string>({
+      queryFn: (shiftId, { dispatch }) => runThunkMutation(dispatch(requestShift(shiftId))),
+      invalidatesTags: [{ type: 'AvailableShift', id: LIST_ID }],
+    }),
+
+    cancelShiftRequest: builder.mutation<MutationResult, string>({
+      queryFn: (requestId, { dispatch }) => runThunkMutation(dispatch(cancelShiftRequest(requestId))),
+      invalidatesTags: [{ type: 'AvailableShift', id: LIST_ID }, { type: 'Schedule', id: LIST_ID }],
+    }),
+  }),
+});
+
+export const {
+  useGetSchedulesQuery,
+  useGetAvailableShiftsQuery,
+  useRequestShiftMutation,
+  useCancelShiftRequestMutation,
+} = scheduleApi;
@@ -0,0 +1,94 @@
+import { apiClient } from '../../services/apiClient';
+import { formatApiDate } from '../../utils/dateUtils';
+import {
+  Visit,
+  VisitDocument,
+  VisitLocation,
+  addVisitDocument,
+  clockIn,
+  clockOut,
+  selectCachedVisits,
+  visitChangesReceived,
+  visitsReceived,
+} from '../slices/visitSlice';
+import {
+  LIST_ID,
+  MutationResult,
+  baseApi,
+  runCachedQuery,
+  runDeltaQuery,
+  runThunkMutation,
+} from './baseApi';
+
+// A visit changing status moves it in today's lists, on both the visit and
+// the schedule screens
+const visitChangedTags = (visitId: string) => {
+  const today = formatApiDate(new Date());
+  return [
+    { type: 'Visit' as const, id: visitId },
+    { type: 'Visit' as const, id: today },
+    { type: 'Schedule' as const, id: today },
+  ];
+};
+
+export const visitApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    // Optionally limited to a single day (YYYY-MM-DD). All visits are synced
+    // incrementally, a single day is fetched whole.
+    getVisits: builder.query<Visit[], { date?: string } | void>({
+      queryFn: (query, { dispatch, getState, signal }) => (query?.date
+        ? runCachedQuery({ getState, signal }, {
+          request: (requestSignal) =>
+            apiClient.visits.getAll({ query: { date: query.date }, config: { signal: requestSignal } }),
+          onReceived: (visits) => dispatch(visitsReceived(visits)),
+          getCached: (state) => selectCachedVisits(state, query.date),
+        })
+        : runDeltaQuery({ getState, signal }, {
+          request: (updatedSince, requestSignal) =>
+            apiClient.visits.getChanges({ query: { updatedSince }, config: { signal: requestSignal } }),
+          getCursor: (state) => state.visits.syncCursor,
+          onReceived: (received) => dispatch(visitChangesReceived(received)),
+          getCached: (state) => selectCachedVisits(state),
+        })),
+      providesTags: (visits, error, query) => [
+        { type: 'Visit', id: query?.date ?? LIST_ID },
+        ...(visits || []).map(({ id }) => ({ type: 'Visit' as const, id })),
+      ],
+    }),
+
+    getVisit: builder.query<Visit, string>({
+      queryFn: (visitId, { dispatch, getState, signal }) => runCachedQuery({ getState, signal }, {
+        request: (requestSignal) =>
+          apiClient.visits.getById({ params: { id: visitId }, config: { signal: requestSignal } }),
+        onReceived: (visit) => dispatch(visitsReceived([visit])),
+        getCached: (state) => state.visits.entities[visitId],
+      }),
+      providesTags: (visit, error, visitId) => [{ type: 'Visit', id: visitId }],
+    }),
+
+    // Mutations run the offline-capable slice thunks, a mutation queued
+    // offline invalidates nothing until the sync engine replays it
+    clockIn: builder.mutation<MutationResult, { visitId: string; location: VisitLocation }>({
+      queryFn: (arg, { dispatch }) => runThunkMutation(dispatch(clockIn(arg))),
+      invalidatesTags: (result, error, { visitId }) => (result && !result.queued ? visitChangedTags(visitId) : []),
+    }),
+
+    clockOut: builder.mutation<MutationResult, { visitId: string; location: VisitLocation; notes?: string }>({
+      queryFn: (arg, { dispatch }) => runThunkMutation(dispatch(clockOut(arg))),
+      invalidatesTags: (result, error, { visitId }) => (result && !result.queued ? visitChangedTags(visitId) : []),
+    }),
+
+    addVisitDocument: builder.mutation<MutationResult, { visitId: string; document: Omit<VisitDocument, 'id'> }>({
+      queryFn: (arg, { dispatch }) => runThunkMutation(dispatch(addVisitDocument(arg))),
+      invalidatesTags: (result, error, { visitId }) => (result && !result.queued ? [{ type: 'Visit', id: visitId }] : []),
+    }),
+  }),
+});
+
+export const {
+  useGetVisitsQuery,
+  useGetVisitQuery,
+  useClockInMutation,
+  useClockOutMutation,
+  useAddVisitDocumentMutation,
+} = visitApi;
@@ -0,0 +1,91 @@
+import { AsyncThunkPayloadCreator, createAsyncThunk } from '@reduxjs/toolkit';
+import { RootState } from './store';
+import { selectIsRequestQueued } from './slices/offlineSlice';
+import { syncEngine, OfflineReplayArg } from '../services/syncEngine';
+
+// Rejection value of an offline-capable thunk that was queued instead of run
+export const OFFLINE_QUEUED = 'offline/queued';
+
+interface OfflineThunkOptions<ThunkArg> {
+  // Key identifying the resource the thunk mutates, used to avoid queuing
+  // the same mutation twice (e.g. "POST /visits/123/clock-in")
+  dedupKey?: (arg: ThunkArg) => string;
+  // Version of the resource the change is based on, sent as If-Match so
+  // the server can reject replays made against stale data
+  baseVersion?: (arg: ThunkArg, state: RootState) => string | undefined;
+  // Whether the thunk uploads a media file, deferred on metered connections
+  hasUpload?: (arg: ThunkArg) => boolean;
+}
+
+/**
+ * Meta attached to the pending action of an offline-capable thunk.
+ * offlineMiddleware reads it to queue the thunk before its payload
+ * creator runs when the device is offline.
+ */
+export interface OfflineThunkMeta {
+  processOffline: true;
+  isReplay: boolean;
+  offlineKey?: string;
+  baseVersion?: string;
+}
+
+/**
+ * Check whether a rejected thunk (action or unwrapped error) was queued
+ * for later rather than failing
+ * @param actionOrError Rejected action or the value thrown by unwrap()
+ */
+export const isQueuedOffline = (actionOrError: any): boolean => {
+  return actionOrError === OFFLINE_QUEUED || actionOrError?.payload === OFFLINE_QUEUED;
+};
+
+/**
+ * Create an async thunk that is queued in the sync engine when dispatched
+ * offline, and re-dispatched with the same argument by syncOfflineData once
+ * the connection is restored.
+ * Dispatching it offline rejects with OFFLINE_QUEUED without calling the
+ * payload creator.
+ * @param typePrefix Thunk type prefix
+ * @param payloadCreator Thunk payload creator
+ * @param options Offline queuing options
+ */
+export const createOfflineThunk = <Returned, ThunkArg extends OfflineReplayArg>(
+  typePrefix: string,
+  payloadCreator: AsyncThunkPayloadCreator<Returned, ThunkArg>,
+  options: OfflineThunkOptions<ThunkArg> = {}
+) => {
+  const thunk = createAsyncThunk<Returned, ThunkArg>(
+    typePrefix,
+    async (arg, thunkAPI) => {
+      const isQueued = () =>
+        selectIsRequestQueued(thunkAPI.getState() as RootState, thunkAPI.requestId);
+
+      // Queued by offlineMiddleware while handling the pending action
+      if (isQueued()) {
+        return thunkAPI.rejectWithValue(OFFLINE_QUEUED);
+      }
+
+      const baseVersion =
+        arg.baseVersion ?? options.baseVersion?.(arg, thunkAPI.getState() as RootState);
+      const result = await payloadCreator({ ...arg, baseVersion }, thunkAPI);
+
+      // Connection dropped mid-request and apiService queued the thunk
+      if (isQueued()) {
+        return thunkAPI.rejectWithValue(OFFLINE_QUEUED);
+      }
+
+      return result as Returned;
+    },
+    {
+      getPendingMeta: ({ arg }, { getState }): OfflineThunkMeta => ({
+        processOffline: true,
+        isReplay: !!arg.idempotencyKey,
+        offlineKey: options.dedupKey?.(arg),
+        baseVersion: arg.baseVersion ?? options.baseVersion?.(arg, getState() as RootState),
+      }),
+    }
+  );
+
+  syncEngine.registerThunk(thunk, options.dedupKey, options.hasUpload);
+
+  return thunk;
+};
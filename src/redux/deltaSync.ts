@@ -0,0 +1,100 @@
+import { HTTP_STATUS } from '../constants/apiConstants';
+import { evictCachedEntities } from '../utils/cacheUtils';
+
+// Incremental sync of cached collections. Each collection keeps the cursor
+// returned with its last change set and sends it back as updatedSince, so
+// only records changed or deleted since then are downloaded.
+// Evicting records from the offline cache keeps the cursor: an evicted record
+// comes back whole with its next change, or when it is fetched by ID, and a
+// tombstone for a record that is no longer cached is simply ignored. So
+// collections evict the records lists are least likely to need, e.g. visits
+// long past, and pin the ones they show (today's and upcoming visits).
+
+// Changes to a collection since a cursor, the whole collection without one
+export interface ChangeSet<T> {
+  updated: T[]; // Created or changed records
+  deleted: string[]; // IDs of deleted records (tombstones)
+  cursor: string; // Sent as updatedSince on the next sync
+}
+
+export interface ChangesReceived<T> {
+  changes: ChangeSet<T>;
+  // Requested without a cursor, records missing from it were deleted
+  isFullSync: boolean;
+}
+
+interface ApplyChangesOptions<T> {
+  // Combine a server copy with the cached one, e.g. to keep unsynced local changes
+  merge?: (serverEntity: T, localEntity?: T) => T;
+  // Records kept even when the server deleted them
+  isPinned?: (entity: T) => boolean;
+  // Offline cache limits of collections with fetch times
+  lastFetchedAt?: Record<string, number>;
+  maxEntries?: number;
+  // Records never evicted from the offline cache, in addition to pinned ones
+  keepCached?: (entity: T) => boolean;
+  // Records evicted first, see evictCachedEntities
+  evictionOrder?: (a: T, b: T) => number;
+}
+
+/**
+ * Check whether the server refused a sync cursor, e.g. because its change
+ * history no longer goes back that far. A full sync is needed then.
+ * @param error Error thrown by axios
+ */
+export const isSyncCursorRejected = (error: any): boolean =>
+  error?.response?.status === HTTP_STATUS.GONE;
+
+/**
+ * Apply a change set to cached records
+ * Should be called from the slice reducer receiving the changes.
+ * @param entities Cached records by ID
+ * @param received Change set and whether it holds the whole collection
+ * @param options Merging, pinned records and cache limits
+ * @returns The cursor to send on the next sync
+ */
+export const applyChanges = <T extends { id: string }>(
+  entities: Record<string, T>,
+  { changes, isFullSync }: ChangesReceived<T>,
+  {
+    merge = (serverEntity) => serverEntity,
+    isPinned = () => false,
+    lastFetchedAt,
+    maxEntries,
+    keepCached = () => false,
+    evictionOrder,
+  }: ApplyChangesOptions<T> = {}
+): string => {
+  const updatedIds = new Set(changes.updated.map(entity => entity.id));
+  const removedIds = isFullSync
+    ? Object.keys(entities).filter(id => !updatedIds.has(id))
+    : changes.deleted;
+  removedIds.forEach(id => {
+    if (entities[id] && !isPinned(entities[id])) {
+      delete entities[id];
+    }
+  });
+
+  changes.updated.forEach(entity => {
+    entities[entity.id] = merge(entity, entities[entity.id]);
+  });
+
+  if (!lastFetchedAt || maxEntries === undefined) {
+    return changes.cursor;
+  }
+
+  // Records left out of a change set did not change, so all of them are current
+  const syncedAt = Date.now();
+  Object.keys(entities).forEach(id => {
+    lastFetchedAt[id] = syncedAt;
+  });
+
+  evictCachedEntities(
+    entities,
+    lastFetchedAt,
+    maxEntries,
+    entity => isPinned(entity) || keepCached(entity),
+    evictionOrder
+  );
+  return changes.cursor;
+};
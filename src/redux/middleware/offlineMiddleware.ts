@@ -1,33 +1,29 @@
 import { Middleware } from 'redux';
 import { netInfoService } from '../../services/netInfoService';
-import { markOfflineAction, syncOfflineData } from '../slices/offlineSlice';
+import { syncEngine } from '../../services/syncEngine';
+import { syncScheduler } from '../../services/syncScheduler';
+import { setOnlineStatus, syncOfflineData } from '../slices/offlineSlice';
+import { AppStore } from '../store';
 
 /**
  * Middleware to handle offline actions
- * - Marks actions as offline when device is offline
+ * - Queues offline-capable thunks (see createOfflineThunk) in the sync engine
+ *   when their pending action is dispatched while the device is offline,
+ *   before the payload creator runs
  * - Triggers sync when connection is restored
  */
-export const offlineMiddleware: Middleware = (store) => (next) => async (action) => {
+export const offlineMiddleware: Middleware = (store) => (next) => (action) => {
+  const meta = action.meta;
+
   // Check if action is marked to be processed when offline
-  if (action.meta?.processOffline) {
-    const isConnected = await netInfoService.isConnected();
+  if (meta?.processOffline && meta.requestStatus === 'pending' && !meta.isReplay) {
+    const { offline } = store.getState();
 
-    if (!isConnected) {
-      // Device is offline, mark the action for later processing
-      store.dispatch(
-        markOfflineAction({
-          action,
-          timestamp: Date.now(),
-        })
-      );
-      
-      // Don't process the action now
-      return next({
-        type: action.type + '_QUEUED',
-        meta: {
-          originalAction: action,
-        },
-      });
+    if (!offline.isOnline) {
+      // Device is offline, queue the thunk with its argument for later
+      const typePrefix = action.type.replace(/\/pending$/, '');
+      const arg = meta.baseVersion ? { ...meta.arg, baseVersion: meta.baseVersion } : meta.arg;
+      syncEngine.enqueueThunk(typePrefix, arg, meta.offlineKey, meta.requestId);
     }
   }
 
@@ -37,10 +33,16 @@ export const offlineMiddleware: Middleware = (store) => (next) => async (action)
 
 /**
  * Function to setup offline sync handling
- * Should be called when the app initializes
+ * Should be called once the persisted state has been rehydrated
+ * - Triggers sync when connection is restored
+ * - Starts the periodic foreground sync
  */
-export const setupOfflineSync = (store: any) => {
+export const setupOfflineSync = (store: AppStore) => {
+  syncEngine.attachStore(store);
+  syncScheduler.start(store);
+
   netInfoService.addConnectivityListener((isConnected) => {
+    store.dispatch(setOnlineStatus(isConnected));
     if (isConnected) {
       // Connection restored, sync offline data
       store.dispatch(syncOfflineData());
@@ -0,0 +1,129 @@
+import { isQueuedOffline } from './createOfflineThunk';
+
+// Status of a thunk's requests, tracked per operation and, for operations on
+// a single entity, per entity, so a screen only reflects its own requests
+// (e.g. requesting one shift does not spin or fail the whole schedule).
+
+export type RequestStatus = 'idle' | 'pending' | 'succeeded' | 'failed';
+
+export interface RequestState {
+  status: RequestStatus;
+  error: string | null;
+  updatedAt: number | null; // When the status last changed
+  requestId?: string; // Latest request, older responses are stale
+}
+
+// Request states keyed by thunk type prefix and entity ID
+export type RequestStates = Record<string, RequestState>;
+
+export const IDLE_REQUEST: RequestState = {
+  status: 'idle',
+  error: null,
+  updatedAt: null,
+};
+
+// Any async thunk
+export interface RequestThunk {
+  typePrefix: string;
+}
+
+interface RequestAction {
+  type: string;
+  payload?: unknown;
+  error?: { message?: string };
+  meta: {
+    requestId: string;
+    aborted?: boolean;
+  };
+}
+
+const getRequestKey = (typePrefix: string, entityId?: string): string =>
+  entityId ? `${typePrefix}:${entityId}` : typePrefix;
+
+// 'visits/clockIn/pending' -> 'visits/clockIn'
+const getActionRequestKey = (action: RequestAction, entityId?: string): string =>
+  getRequestKey(action.type.slice(0, action.type.lastIndexOf('/')), entityId);
+
+const isLatestRequest = (requests: RequestStates, key: string, action: RequestAction): boolean =>
+  requests[key]?.requestId === action.meta.requestId;
+
+/**
+ * Record a request as started, superseding earlier ones with the same key
+ * Should be called from the thunk's pending reducer
+ * @param requests Request states of the slice
+ * @param action Pending action
+ * @param entityId Entity the request is for
+ */
+export const requestStarted = (requests: RequestStates, action: RequestAction, entityId?: string): void => {
+  requests[getActionRequestKey(action, entityId)] = {
+    status: 'pending',
+    error: null,
+    updatedAt: Date.now(),
+    requestId: action.meta.requestId,
+  };
+};
+
+/**
+ * Record a request as succeeded
+ * Should be called from the thunk's fulfilled reducer
+ * @param requests Request states of the slice
+ * @param action Fulfilled action
+ * @param entityId Entity the request is for
+ * @returns False when a newer request with the same key was made since, a
+ * fetch must then leave the state unchanged
+ */
+export const requestSucceeded = (requests: RequestStates, action: RequestAction, entityId?: string): boolean => {
+  const key = getActionRequestKey(action, entityId);
+  if (!isLatestRequest(requests, key, action)) {
+    return false;
+  }
+
+  requests[key] = {
+    status: 'succeeded',
+    error: null,
+    updatedAt: Date.now(),
+    requestId: action.meta.requestId,
+  };
+  return true;
+};
+
+/**
+ * Record a request as failed
+ * Aborted requests and mutations queued offline are not failures and go back
+ * to idle.
+ * Should be called from the thunk's rejected reducer
+ * @param requests Request states of the slice
+ * @param action Rejected action
+ * @param entityId Entity the request is for
+ * @returns False when a newer request with the same key was made since
+ */
+export const requestFailed = (requests: RequestStates, action: RequestAction, entityId?: string): boolean => {
+  const key = getActionRequestKey(action, entityId);
+  if (!isLatestRequest(requests, key, action)) {
+    return false;
+  }
+
+  const isFailure = !action.meta.aborted && !isQueuedOffline(action);
+  requests[key] = {
+    status: isFailure ? 'failed' : 'idle',
+    error: isFailure
+      ? (typeof action.payload === 'string' ? action.payload : action.error?.message) || 'Request failed'
+      : null,
+    updatedAt: Date.now(),
+    requestId: action.meta.requestId,
+  };
+  return true;
+};
+
+/**
+ * Get the state of a thunk's latest request
+ * @param requests Request states of the slice
+ * @param thunk Async thunk
+ * @param entityId Entity the request is for
+ * @returns The request state, idle if the thunk was never dispatched
+ */
+export const getRequestState = (
+  requests: RequestStates,
+  thunk: RequestThunk,
+  entityId?: string
+): RequestState => requests[getRequestKey(thunk.typePrefix, entityId)] ?? IDLE_REQUEST;
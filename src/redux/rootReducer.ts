@@ -1,4 +1,6 @@
 import { combineReducers } from '@reduxjs/toolkit';
+import { persistReducer } from 'redux-persist';
+import { encryptedPersistStorage } from '../services/storageService';
 import authReducer from './slices/authSlice';
 import visitReducer from './slices/visitSlice';
 import scheduleReducer from './slices/scheduleSlice';
@@ -6,13 +8,41 @@ import patientReducer from './slices/patientSlice';
 import messageReducer from './slices/messageSlice';
 import offlineReducer from './slices/offlineSlice';
 import settingsReducer from './slices/settingsSlice';
+import uploadReducer from './slices/uploadSlice';
+import environmentReducer from './slices/environmentSlice';
+import appLockReducer from './slices/appLockSlice';
+import draftReducer from './slices/draftSlice';
+import { baseApi } from './api/baseApi';
+
+// Cached records contain PHI, so they are persisted separately in encrypted storage
+const cachePersistConfig = (key: string, whitelist: string[]) => ({
+  key,
+  storage: encryptedPersistStorage,
+  whitelist,
+});
 
 export const rootReducer = combineReducers({
   auth: authReducer,
-  visits: visitReducer,
-  schedules: scheduleReducer,
-  patients: patientReducer,
+  visits: persistReducer(cachePersistConfig('visits', ['entities', 'lastFetchedAt', 'syncCursor']), visitReducer),
+  schedules: persistReducer(cachePersistConfig('schedules', ['schedules', 'lastFetchedAt', 'syncCursor']), scheduleReducer),
+  patients: persistReducer(cachePersistConfig('patients', ['entities', 'lastFetchedAt', 'syncCursor']), patientReducer),
   messages: messageReducer,
-  offline: offlineReducer,
+  offline: persistReducer(
+    cachePersistConfig('offline', [
+      'pendingActions',
+      'deadLetters',
+      'conflicts',
+      'recentlySynced',
+      'lastSyncTimestamp',
+      'heldForUserId',
+    ]),
+    offlineReducer
+  ),
   settings: settingsReducer,
+  uploads: uploadReducer,
+  environment: environmentReducer,
+  appLock: appLockReducer,
+  drafts: persistReducer(cachePersistConfig('drafts', ['documentation']), draftReducer),
+  // Query cache, not persisted: offline, queries fall back to the slices' cached copies
+  [baseApi.reducerPath]: baseApi.reducer,
 });
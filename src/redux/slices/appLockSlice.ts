@@ -0,0 +1,81 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { APP_LOCK } from '../../constants/appConstants';
+import { RootState } from '../store';
+import { clearCredentials, logout } from './authSlice';
+
+// The PIN hash itself is kept in encrypted storage by appLockService
+interface AppLockState {
+  isEnabled: boolean; // A PIN is set
+  biometricsEnabled: boolean; // Device biometrics are offered before the PIN
+  isLocked: boolean;
+  failedAttempts: number; // Wrong PINs since the last unlock or lockout
+  totalFailedAttempts: number; // Wrong PINs since the last unlock, across lockouts
+  lockedOutUntil: number | null; // PIN entry is blocked until then
+}
+
+const initialState: AppLockState = {
+  isEnabled: false,
+  biometricsEnabled: false,
+  isLocked: false,
+  failedAttempts: 0,
+  totalFailedAttempts: 0,
+  lockedOutUntil: null,
+};
+
+const appLockSlice = createSlice({
+  name: 'appLock',
+  initialState,
+  reducers: {
+    appLockEnabled: (state, action: PayloadAction<{ biometricsEnabled: boolean }>) => {
+      state.isEnabled = true;
+      state.biometricsEnabled = action.payload.biometricsEnabled;
+      state.failedAttempts = 0;
+      state.totalFailedAttempts = 0;
+      state.lockedOutUntil = null;
+    },
+    appLockDisabled: () => initialState,
+    setBiometricsEnabled: (state, action: PayloadAction<boolean>) => {
+      state.biometricsEnabled = action.payload;
+    },
+    appLocked: (state) => {
+      if (state.isEnabled) {
+        state.isLocked = true;
+      }
+    },
+    appUnlocked: (state) => {
+      state.isLocked = false;
+      state.failedAttempts = 0;
+      state.totalFailedAttempts = 0;
+      state.lockedOutUntil = null;
+    },
+    // Payload is the time of the attempt
+    unlockFailed: (state, action: PayloadAction<number>) => {
+      state.failedAttempts += 1;
+      state.totalFailedAttempts += 1;
+      if (state.failedAttempts >= APP_LOCK.MAX_FAILED_ATTEMPTS) {
+        state.failedAttempts = 0;
+        state.lockedOutUntil = action.payload + APP_LOCK.LOCKOUT_DURATION;
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    // The PIN belongs to the signed-in user, the next one sets their own
+    builder.addCase(logout.fulfilled, () => initialState);
+    builder.addCase(clearCredentials, () => initialState);
+  },
+});
+
+// Selectors
+export const selectIsAppLocked = (state: RootState) =>
+  state.auth.isAuthenticated && state.appLock.isEnabled && state.appLock.isLocked;
+
+export const {
+  appLockEnabled,
+  appLockDisabled,
+  setBiometricsEnabled,
+  appLocked,
+  appUnlocked,
+  unlockFailed,
+} = appLockSlice.actions;
+
+export default appLockSlice.reducer;
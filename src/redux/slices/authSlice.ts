@@ -1,11 +1,14 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../../services/apiService';
-import { ENDPOINTS } from '../../constants/apiConstants';
-import { storageService } from '../../services/storageService';
-import { STORAGE_KEYS } from '../../constants/appConstants';
+import { apiClient } from '../../services/apiClient';
+import { credentialManager } from '../../services/credentialManager';
+import { LoginCredentials, getAuthErrorMessage, getAuthProvider } from '../../services/authProviders';
+import { baseApi } from '../api/baseApi';
+import { MFA } from '../../constants/appConstants';
+import { selectEnvironment } from './environmentSlice';
+import { RootState } from '../store';
 
 // Types
-interface User {
+export interface User {
   id: string;
   username: string;
   email: string;
@@ -15,10 +18,34 @@ interface User {
   profileImage?: string;
 }
 
-interface AuthState {
+export interface RegistrationData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  username: string;
+  password: string;
+}
+
+// Authenticator app code, or a one-time code sent by text message
+export type MfaMethod = 'totp' | 'sms';
+
+export interface MfaChallenge {
+  challengeId: string;
+  methods: MfaMethod[];
+  phoneNumberHint?: string; // Last digits of the number text message codes go to
+}
+
+// Why the session ended, documentation drafts are kept when it expired
+export type LogoutReason = 'user' | 'session_expired';
+
+// Tokens are not part of the state, credentialManager keeps them encrypted
+export interface AuthState {
   user: User | null;
-  token: string | null;
-  refreshToken: string | null;
+  credentialsUpdatedAt: number | null; // When the tokens were last issued or refreshed
+  lastActiveAt: number | null; // Last user interaction, saved by sessionManager
+  sessionExpired: boolean; // The last session was ended by sessionManager
+  mfaChallenge: MfaChallenge | null; // Password accepted, waiting for the second factor
+  mfaCodeSentAt: number | null; // Last text message code, resends are throttled
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -27,67 +54,136 @@ interface AuthState {
 // Initial state
 const initialState: AuthState = {
   user: null,
-  token: null,
-  refreshToken: null,
+  credentialsUpdatedAt: null,
+  lastActiveAt: null,
+  sessionExpired: false,
+  mfaChallenge: null,
+  mfaCodeSentAt: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
 };
 
+// The selected environment decides whether caregivers sign in with our API or Firebase
+const authProviderOf = (getState: () => unknown) =>
+  getAuthProvider(selectEnvironment(getState() as RootState).authProvider);
+
 // Thunks
 export const login = createAsyncThunk(
   'auth/login',
-  async ({ username, password }: { username: string; password: string }, { rejectWithValue }) => {
+  async (credentials: LoginCredentials, { getState, rejectWithValue }) => {
+    try {
+      const result = await authProviderOf(getState).login(credentials);
+      if ('mfaRequired' in result) {
+        return { challenge: result.challenge };
+      }
+
+      const { user, token, refreshToken } = result;
+      await credentialManager.saveTokens({ token, refreshToken });
+
+      return { user };
+    } catch (error: any) {
+      return rejectWithValue(getAuthErrorMessage(error, 'Login failed'));
+    }
+  }
+);
+
+export const verifyMfa = createAsyncThunk(
+  'auth/verifyMfa',
+  async (
+    { method, code, rememberDevice }: { method: MfaMethod; code: string; rememberDevice: boolean },
+    { getState, rejectWithValue }
+  ) => {
+    const { mfaChallenge } = (getState() as RootState).auth;
+    if (!mfaChallenge) {
+      return rejectWithValue('Sign-in expired, please log in again');
+    }
+
     try {
-      const response = await apiService.post(
-        ENDPOINTS.AUTH.LOGIN,
-        { username, password }
-      );
-      
-      const { user, token, refreshToken } = response.data;
-      
-      // Store tokens securely
-      await storageService.setItem(STORAGE_KEYS.AUTH_TOKEN, token, true);
-      await storageService.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken, true);
-      
-      return { user, token, refreshToken };
+      const { user, token, refreshToken, deviceToken } = await apiClient.auth.verifyMfa({
+        body: { challengeId: mfaChallenge.challengeId, method, code, rememberDevice },
+      });
+
+      await credentialManager.saveTokens({ token, refreshToken });
+      if (deviceToken) {
+        await credentialManager.saveDeviceToken(deviceToken);
+      }
+
+      return { user };
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Login failed');
+      return rejectWithValue(getAuthErrorMessage(error, 'Verification failed'));
     }
   }
 );
 
+export const sendMfaCode = createAsyncThunk(
+  'auth/sendMfaCode',
+  async (_, { getState, rejectWithValue }) => {
+    const { mfaChallenge } = (getState() as RootState).auth;
+    if (!mfaChallenge) {
+      return rejectWithValue('Sign-in expired, please log in again');
+    }
+
+    try {
+      await apiClient.auth.sendMfaCode({ body: { challengeId: mfaChallenge.challengeId } });
+      return true;
+    } catch (error: any) {
+      return rejectWithValue(getAuthErrorMessage(error, 'Failed to send code'));
+    }
+  },
+  {
+    // Only one text message per MFA.RESEND_INTERVAL
+    condition: (_, { getState }) => {
+      const { mfaChallenge, mfaCodeSentAt } = (getState() as RootState).auth;
+      return !!mfaChallenge && (!mfaCodeSentAt || Date.now() - mfaCodeSentAt >= MFA.RESEND_INTERVAL);
+    },
+  }
+);
+
 export const register = createAsyncThunk(
   'auth/register',
-  async (userData: any, { rejectWithValue }) => {
+  async (userData: RegistrationData, { getState, rejectWithValue }) => {
     try {
-      const response = await apiService.post(
-        ENDPOINTS.AUTH.REGISTER,
-        userData
-      );
-      
-      return response.data;
+      return await authProviderOf(getState).register(userData);
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Registration failed');
+      return rejectWithValue(getAuthErrorMessage(error, 'Registration failed'));
     }
   }
 );
 
 export const logout = createAsyncThunk(
   'auth/logout',
-  async (_, { rejectWithValue }) => {
+  async (_reason: LogoutReason | undefined, { dispatch, getState, rejectWithValue }) => {
     try {
-      // Clear stored tokens
-      await storageService.removeItem(STORAGE_KEYS.AUTH_TOKEN, true);
-      await storageService.removeItem(STORAGE_KEYS.REFRESH_TOKEN, true);
-      
-      return true;
+      await authProviderOf(getState).logout();
+    } catch (error) {
+      // Signed out of the app all the same, the provider session is replaced on the next sign-in
+      console.error('Error signing out of the auth provider:', error);
+    }
+
+    try {
+      await credentialManager.clear();
+      // Mutations queued by this user are kept when the session expired, see offlineSlice
+      return (getState() as RootState).auth.user?.id ?? null;
     } catch (error: any) {
       return rejectWithValue('Logout failed');
+    } finally {
+      // Cached query results contain PHI
+      dispatch(baseApi.util.resetApiState());
     }
   }
 );
 
+// Signed in, by password alone or after MFA
+const signIn = (state: AuthState, user: User) => {
+  state.isAuthenticated = true;
+  state.user = user;
+  state.credentialsUpdatedAt = Date.now();
+  state.lastActiveAt = Date.now();
+  state.mfaChallenge = null;
+  state.mfaCodeSentAt = null;
+};
+
 // Slice
 const authSlice = createSlice({
   name: 'auth',
@@ -96,41 +192,74 @@ const authSlice = createSlice({
     resetAuthState: (state) => {
       state.error = null;
     },
-    setCredentials: (state, action: PayloadAction<{
-      user: User,
-      token: string,
-      refreshToken: string
-    }>) => {
-      state.user = action.payload.user;
-      state.token = action.payload.token;
-      state.refreshToken = action.payload.refreshToken;
+    // Dispatched by credentialManager once new tokens are stored
+    setCredentials: (state, action: PayloadAction<{ user?: User; updatedAt: number }>) => {
+      if (action.payload.user) {
+        state.user = action.payload.user;
+      }
+      state.credentialsUpdatedAt = action.payload.updatedAt;
       state.isAuthenticated = true;
     },
+    sessionActivityRecorded: (state, action: PayloadAction<number>) => {
+      state.lastActiveAt = action.payload;
+    },
     clearCredentials: (state) => {
       state.user = null;
-      state.token = null;
-      state.refreshToken = null;
+      state.credentialsUpdatedAt = null;
       state.isAuthenticated = false;
-    }
+    },
+    // Back to the login form without finishing MFA
+    cancelMfa: (state) => {
+      state.mfaChallenge = null;
+      state.mfaCodeSentAt = null;
+      state.error = null;
+    },
   },
   extraReducers: (builder) => {
     // Login
     builder.addCase(login.pending, (state) => {
       state.isLoading = true;
       state.error = null;
+      state.sessionExpired = false;
+      state.mfaChallenge = null;
+      state.mfaCodeSentAt = null;
     });
     builder.addCase(login.fulfilled, (state, action) => {
       state.isLoading = false;
-      state.isAuthenticated = true;
-      state.user = action.payload.user;
-      state.token = action.payload.token;
-      state.refreshToken = action.payload.refreshToken;
+      if (action.payload.challenge) {
+        state.mfaChallenge = action.payload.challenge;
+      } else if (action.payload.user) {
+        signIn(state, action.payload.user);
+      }
     });
     builder.addCase(login.rejected, (state, action) => {
       state.isLoading = false;
       state.error = action.payload as string;
     });
     
+    // MFA
+    builder.addCase(verifyMfa.pending, (state) => {
+      state.isLoading = true;
+      state.error = null;
+    });
+    builder.addCase(verifyMfa.fulfilled, (state, action) => {
+      state.isLoading = false;
+      signIn(state, action.payload.user);
+    });
+    builder.addCase(verifyMfa.rejected, (state, action) => {
+      state.isLoading = false;
+      state.error = action.payload as string;
+    });
+    builder.addCase(sendMfaCode.pending, (state) => {
+      state.mfaCodeSentAt = Date.now();
+      state.error = null;
+    });
+    builder.addCase(sendMfaCode.rejected, (state, action) => {
+      // A failed send can be retried right away
+      state.mfaCodeSentAt = null;
+      state.error = action.payload as string;
+    });
+
     // Register
     builder.addCase(register.pending, (state) => {
       state.isLoading = true;
@@ -145,15 +274,22 @@ const authSlice = createSlice({
     });
     
     // Logout
-    builder.addCase(logout.fulfilled, (state) => {
+    builder.addCase(logout.fulfilled, (state, action) => {
       state.user = null;
-      state.token = null;
-      state.refreshToken = null;
+      state.credentialsUpdatedAt = null;
+      state.lastActiveAt = null;
+      state.sessionExpired = action.meta.arg === 'session_expired';
       state.isAuthenticated = false;
     });
   },
 });
 
-export const { resetAuthState, setCredentials, clearCredentials } = authSlice.actions;
+export const {
+  resetAuthState,
+  setCredentials,
+  sessionActivityRecorded,
+  clearCredentials,
+  cancelMfa,
+} = authSlice.actions;
 
 export default authSlice.reducer;
@@ -0,0 +1,59 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { RootState } from '../store';
+import { logout } from './authSlice';
+
+// Template and answers of an unfinished form
+export interface FormDraft {
+  templateId: string;
+  answers: Record<string, string | string[]>;
+}
+
+// Unsubmitted documentation, keyed by visitId
+export interface DocumentationDraft {
+  visitId: string;
+  userId: string; // Only shown back to the caregiver who wrote it
+  type: string; // DOCUMENTATION_TYPES.TEXT or DOCUMENTATION_TYPES.FORM
+  text?: string;
+  form?: FormDraft;
+  updatedAt: number;
+}
+
+interface DraftState {
+  documentation: Record<string, DocumentationDraft>;
+}
+
+const initialState: DraftState = {
+  documentation: {},
+};
+
+const draftSlice = createSlice({
+  name: 'drafts',
+  initialState,
+  reducers: {
+    documentationDraftSaved: (state, action: PayloadAction<Omit<DocumentationDraft, 'updatedAt'>>) => {
+      state.documentation[action.payload.visitId] = { ...action.payload, updatedAt: Date.now() };
+    },
+    documentationDraftDiscarded: (state, action: PayloadAction<string>) => {
+      delete state.documentation[action.payload];
+    },
+  },
+  extraReducers: (builder) => {
+    // An expired session keeps drafts for when the caregiver signs back in
+    builder.addCase(logout.fulfilled, (state, action) =>
+      action.meta.arg === 'session_expired' ? state : initialState
+    );
+  },
+});
+
+// Selectors
+export const selectDocumentationDraft = (state: RootState, visitId: string) => {
+  const draft = state.drafts.documentation[visitId];
+  return draft && draft.userId === state.auth.user?.id ? draft : undefined;
+};
+
+export const {
+  documentationDraftSaved,
+  documentationDraftDiscarded,
+} = draftSlice.actions;
+
+export default draftSlice.reducer;
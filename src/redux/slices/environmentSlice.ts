@@ -0,0 +1,50 @@
+import { createSlice, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { RootState } from '../store';
+import {
+  BUILD_ENVIRONMENT,
+  BUILD_TENANT,
+  EnvironmentName,
+  IS_PRODUCTION_BUILD,
+  resolveEnvironment,
+} from '../../constants/environments';
+
+interface EnvironmentState {
+  name: EnvironmentName;
+  tenant: string;
+}
+
+// Starts on the environment the app was built for
+const initialState: EnvironmentState = {
+  name: BUILD_ENVIRONMENT,
+  tenant: BUILD_TENANT,
+};
+
+const environmentSlice = createSlice({
+  name: 'environment',
+  initialState,
+  reducers: {
+    // Selected from the developer menu
+    setEnvironment: (state, action: PayloadAction<{ name: EnvironmentName; tenant?: string }>) => {
+      state.name = action.payload.name;
+      if (action.payload.tenant) {
+        state.tenant = action.payload.tenant;
+      }
+    },
+    resetEnvironment: () => initialState,
+  },
+});
+
+// Selectors
+export const selectEnvironment = createSelector(
+  (state: RootState) => state.environment,
+  ({ name, tenant }) => IS_PRODUCTION_BUILD
+    // A persisted developer selection never applies to a production build
+    ? resolveEnvironment(BUILD_ENVIRONMENT, BUILD_TENANT)
+    : resolveEnvironment(name, tenant)
+);
+
+export const selectFeatureFlags = (state: RootState) => selectEnvironment(state).features;
+
+export const { setEnvironment, resetEnvironment } = environmentSlice.actions;
+
+export default environmentSlice.reducer;
@@ -1,7 +1,19 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../../services/apiService';
-import { ENDPOINTS } from '../../constants/apiConstants';
+import { apiClient } from '../../services/apiClient';
 import { MESSAGE_PRIORITY } from '../../constants/appConstants';
+import { withOfflineReplay, OfflineReplayArg } from '../../services/syncEngine';
+import { createOfflineThunk } from '../createOfflineThunk';
+import {
+  RequestStates,
+  RequestThunk,
+  getRequestState,
+  requestFailed,
+  requestStarted,
+  requestSucceeded,
+} from '../requestStatus';
+import { ChangesReceived, applyChanges } from '../deltaSync';
+import { RootState } from '../store';
+import { logout } from './authSlice';
 
 // Types
 export interface Message {
@@ -29,8 +41,8 @@ interface MessageState {
   messages: Record<string, Message>;
   conversations: Record<string, Conversation>;
   activeConversation: string | null;
-  loading: boolean;
-  error: string | null;
+  syncCursor: string | null; // Cursor of the last delta sync, null before the first one
+  requests: RequestStates;
 }
 
 // Initial state
@@ -38,50 +50,27 @@ const initialState: MessageState = {
   messages: {},
   conversations: {},
   activeConversation: null,
-  loading: false,
-  error: null,
+  syncCursor: null,
+  requests: {},
 };
 
 // Thunks
-export const fetchMessages = createAsyncThunk(
-  'messages/fetchMessages',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.MESSAGES.GET_ALL);
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch messages');
-    }
-  }
-);
-
-export const fetchConversations = createAsyncThunk(
-  'messages/fetchConversations',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get('/conversations');
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch conversations');
-    }
-  }
-);
-
-export const sendMessage = createAsyncThunk(
+// This action can be processed offline
+export const sendMessage = createOfflineThunk(
   'messages/sendMessage',
-  async (message: Omit<Message, 'id' | 'timestamp' | 'readStatus'>, { rejectWithValue }) => {
+  async (
+    arg: Omit<Message, 'id' | 'timestamp' | 'readStatus'> & OfflineReplayArg,
+    { rejectWithValue, requestId }
+  ) => {
+    const { idempotencyKey, ...message } = arg;
     try {
-      const response = await apiService.post(ENDPOINTS.MESSAGES.CREATE, message);
-      return response.data;
+      return await apiClient.messages.send({
+        body: message,
+        config: withOfflineReplay('messages/sendMessage', arg, requestId),
+      });
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to send message');
     }
-  },
-  {
-    // This action can be processed offline
-    meta: {
-      processOffline: true,
-    },
   }
 );
 
@@ -89,8 +78,7 @@ export const markMessageAsRead = createAsyncThunk(
   'messages/markMessageAsRead',
   async (messageId: string, { rejectWithValue }) => {
     try {
-      const response = await apiService.post(ENDPOINTS.MESSAGES.MARK_READ.replace(':id', messageId));
-      return response.data;
+      return await apiClient.messages.markRead({ params: { id: messageId } });
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to mark message as read');
     }
@@ -122,54 +110,47 @@ const messageSlice = createSlice({
       state.messages = {};
       state.conversations = {};
       state.activeConversation = null;
+      state.syncCursor = null;
     },
-  },
-  extraReducers: (builder) => {
-    // Fetch all messages
-    builder.addCase(fetchMessages.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchMessages.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const messages = action.payload.reduce((acc: Record<string, Message>, message: Message) => {
-        acc[message.id] = message;
-        return acc;
-      }, {});
-      state.messages = messages;
-    });
-    builder.addCase(fetchMessages.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
+    // Changes since the last sync, fetched by messageApi
+    messageChangesReceived: (state, action: PayloadAction<ChangesReceived<Message>>) => {
+      state.syncCursor = applyChanges(state.messages, action.payload);
+    },
+    // New message pushed by realtimeService
+    messageReceived: (state, action: PayloadAction<Message>) => {
+      const message = action.payload;
+      const isNew = !state.messages[message.id];
+      state.messages[message.id] = message;
 
-    // Fetch conversations
-    builder.addCase(fetchConversations.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchConversations.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const conversations = action.payload.reduce((acc: Record<string, Conversation>, conv: Conversation) => {
+      const conversation = state.conversations[message.senderId];
+      if (isNew && conversation) {
+        conversation.lastMessage = message;
+        if (!message.readStatus) {
+          conversation.unreadCount += 1;
+        }
+      }
+    },
+    // Read receipt of a sent message, pushed by realtimeService
+    messageReadByReceiver: (state, action: PayloadAction<string>) => {
+      if (state.messages[action.payload]) {
+        state.messages[action.payload].readStatus = true;
+      }
+    },
+    // Fresh copies fetched by messageApi
+    conversationsReceived: (state, action: PayloadAction<Conversation[]>) => {
+      state.conversations = action.payload.reduce((acc: Record<string, Conversation>, conv: Conversation) => {
         acc[conv.id] = conv;
         return acc;
       }, {});
-      state.conversations = conversations;
-    });
-    builder.addCase(fetchConversations.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
+    },
+  },
+  extraReducers: (builder) => {
     // Send message
-    builder.addCase(sendMessage.pending, (state) => {
-      state.loading = true;
-      state.error = null;
+    builder.addCase(sendMessage.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg.receiverId);
     });
     builder.addCase(sendMessage.fulfilled, (state, action) => {
-      state.loading = false;
+      requestSucceeded(state.requests, action, action.meta.arg.receiverId);
       const message = action.payload;
       state.messages[message.id] = message;
       
@@ -179,12 +160,16 @@ const messageSlice = createSlice({
       }
     });
     builder.addCase(sendMessage.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
+      // Queued offline is not a failure, the sync engine will replay it
+      requestFailed(state.requests, action, action.meta.arg.receiverId);
     });
 
     // Mark message as read
+    builder.addCase(markMessageAsRead.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg);
+    });
     builder.addCase(markMessageAsRead.fulfilled, (state, action) => {
+      requestSucceeded(state.requests, action, action.meta.arg);
       const messageId = action.payload.id;
       if (state.messages[messageId]) {
         state.messages[messageId].readStatus = true;
@@ -197,14 +182,29 @@ const messageSlice = createSlice({
         }
       }
     });
+    builder.addCase(markMessageAsRead.rejected, (state, action) => {
+      requestFailed(state.requests, action, action.meta.arg);
+    });
+
+    // Messages may contain PHI and are dropped on logout
+    builder.addCase(logout.fulfilled, () => initialState);
   },
 });
 
+// Selectors
+// Latest request of a thunk, per message or receiver ID for thunks taking one
+export const selectMessageRequest = (state: RootState, thunk: RequestThunk, entityId?: string) =>
+  getRequestState(state.messages.requests, thunk, entityId);
+
 export const {
   setActiveConversation,
   clearActiveConversation,
   addLocalMessage,
   clearMessages,
+  messageChangesReceived,
+  messageReceived,
+  messageReadByReceiver,
+  conversationsReceived,
 } = messageSlice.actions;
 
 export default messageSlice.reducer;
@@ -1,44 +1,114 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, createSelector, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
 import { RootState } from '../store';
+import { syncEngine } from '../../services/syncEngine';
+import { login, logout, verifyMfa } from './authSlice';
+import { SYNC } from '../../constants/appConstants';
+import { RequestErrorType } from '../../utils/requestErrorUtils';
 
-interface OfflineAction {
-  action: any;
+// Serializable subset of an axios config that survives persistence
+export interface QueuedRequestConfig {
+  method: string;
+  url: string;
+  data?: any;
+  params?: any;
+  headers: Record<string, string>;
+}
+
+/**
+ * A mutation waiting to reach the server
+ * - request: a raw apiService call, replayed as-is
+ * - thunk: an offline-capable thunk, re-dispatched with its original argument
+ */
+export interface PendingMutation {
+  id: string;
+  kind: 'request' | 'thunk';
+  type: string;
+  arg?: any;
+  config?: QueuedRequestConfig;
+  requestId?: string;
+  idempotencyKey: string;
+  // Set for mutations queued at most once per resource, e.g. clocking in to a visit
+  dedupKey?: string;
+  timestamp: number;
+  attempts: number;
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+// A mutation that failed permanently and waits for the user to retry or discard it
+export interface QuarantinedMutation extends PendingMutation {
+  quarantinedAt: number;
+  errorType: RequestErrorType;
+  status?: number;
+}
+
+// A mutation that reached the server, kept for the Sync Center history
+// Only IDs are kept so no PHI is left behind once a mutation has synced
+export interface SyncedMutation {
+  id: string;
+  kind: PendingMutation['kind'];
+  type: string;
+  entityId?: string;
   timestamp: number;
-  attempts?: number;
+  syncedAt: number;
 }
 
+// Why background sync is currently not running, or on metered connections only in part
+export type SyncPauseReason = 'low_battery' | 'metered';
+
+export type ConflictResolution = 'mine' | 'server' | 'merge';
+
+// A replayed mutation the server rejected because the record changed since it was queued
+export interface SyncConflict {
+  id: string;
+  mutation: PendingMutation;
+  entityType: 'visit';
+  entityId: string;
+  localCopy: any;
+  serverCopy: any;
+  detectedAt: number;
+}
+
+// Queued mutations and conflict copies contain PHI, see rootReducer for how they are persisted
 interface OfflineState {
   isOnline: boolean;
-  pendingActions: OfflineAction[];
+  isSyncing: boolean;
+  pendingActions: PendingMutation[];
+  deadLetters: QuarantinedMutation[];
+  conflicts: SyncConflict[];
+  activeMutationId: string | null;
+  recentlySynced: SyncedMutation[];
+  syncPausedReason: SyncPauseReason | null;
   lastSyncTimestamp: number | null;
+  heldForUserId: string | null; // Kept from an expired session, sent only once this user signs back in
 }
 
 const initialState: OfflineState = {
   isOnline: true,
+  isSyncing: false,
   pendingActions: [],
+  deadLetters: [],
+  conflicts: [],
+  activeMutationId: null,
+  recentlySynced: [],
+  syncPausedReason: null,
   lastSyncTimestamp: null,
+  heldForUserId: null,
 };
 
+// Queued mutations are replayed with the signed-in user's token, so never
+// for someone else
+const signedOutState = (state: OfflineState): OfflineState => ({
+  ...initialState,
+  isOnline: state.isOnline,
+  syncPausedReason: state.syncPausedReason,
+});
+
 // Thunk to sync offline data when back online
 export const syncOfflineData = createAsyncThunk(
   'offline/syncData',
-  async (_, { getState, dispatch }) => {
-    const state = getState() as RootState;
-    const { pendingActions } = state.offline;
-    
-    // Process each pending action
-    const results = [];
-    for (const pendingAction of pendingActions) {
-      try {
-        // Dispatch the original action
-        const result = await dispatch(pendingAction.action).unwrap();
-        results.push({ success: true, action: pendingAction.action, result });
-      } catch (error) {
-        results.push({ success: false, action: pendingAction.action, error });
-      }
-    }
-    
-    return results;
+  async (options: { isManual?: boolean } | undefined) => {
+    await syncEngine.processQueue(options);
   },
   {
     condition: (_, { getState }) => {
@@ -55,15 +125,148 @@ const offlineSlice = createSlice({
     setOnlineStatus: (state, action: PayloadAction<boolean>) => {
       state.isOnline = action.payload;
     },
-    markOfflineAction: (state, action: PayloadAction<OfflineAction>) => {
-      state.pendingActions.push({
-        ...action.payload,
-        attempts: 0,
-      });
+    setSyncing: (state, action: PayloadAction<boolean>) => {
+      state.isSyncing = action.payload;
+      if (!action.payload) {
+        state.activeMutationId = null;
+      }
+    },
+    setSyncPaused: (state, action: PayloadAction<SyncPauseReason | null>) => {
+      state.syncPausedReason = action.payload;
     },
-    removePendingAction: (state, action: PayloadAction<{ id: number }>) => {
+    syncCompleted: (state, action: PayloadAction<number>) => {
+      state.lastSyncTimestamp = action.payload;
+      state.syncPausedReason = null;
+    },
+    enqueueMutation: (state, action: PayloadAction<PendingMutation>) => {
+      const mutation = action.payload;
+      // The same mutation, or one with the same dedup key, is only queued once
+      const isDuplicate = [...state.pendingActions, ...state.deadLetters].some(
+        pending =>
+          pending.idempotencyKey === mutation.idempotencyKey ||
+          (mutation.dedupKey !== undefined && pending.dedupKey === mutation.dedupKey)
+      );
+      if (!isDuplicate) {
+        state.pendingActions.push(mutation);
+      }
+    },
+    mutationStarted: (state, action: PayloadAction<{ id: string }>) => {
+      const mutation = state.pendingActions.find(pending => pending.id === action.payload.id);
+      if (mutation) {
+        mutation.attempts += 1;
+        state.activeMutationId = mutation.id;
+      }
+    },
+    mutationSucceeded: (state, action: PayloadAction<{ id: string }>) => {
+      const mutation = state.pendingActions.find(pending => pending.id === action.payload.id);
       state.pendingActions = state.pendingActions.filter(
-        (_, index) => index !== action.payload.id
+        pending => pending.id !== action.payload.id
+      );
+      state.activeMutationId = null;
+      if (mutation) {
+        state.recentlySynced = [
+          {
+            id: mutation.id,
+            kind: mutation.kind,
+            type: mutation.type,
+            entityId: mutation.arg?.visitId,
+            timestamp: mutation.timestamp,
+            syncedAt: Date.now(),
+          },
+          ...state.recentlySynced,
+        ].slice(0, SYNC.HISTORY_SIZE);
+      }
+    },
+    mutationFailed: (state, action: PayloadAction<{
+      id: string;
+      error: string;
+      nextRetryAt: number;
+    }>) => {
+      const { id, error, nextRetryAt } = action.payload;
+      const mutation = state.pendingActions.find(pending => pending.id === id);
+      state.activeMutationId = null;
+      if (mutation) {
+        mutation.lastError = error;
+        mutation.nextRetryAt = nextRetryAt;
+      }
+    },
+    mutationQuarantined: (state, action: PayloadAction<{
+      id: string;
+      error: string;
+      errorType: RequestErrorType;
+      status?: number;
+    }>) => {
+      const { id, error, errorType, status } = action.payload;
+      const mutation = state.pendingActions.find(pending => pending.id === id);
+      state.activeMutationId = null;
+      if (mutation) {
+        state.pendingActions = state.pendingActions.filter(pending => pending.id !== id);
+        state.deadLetters.push({
+          ...mutation,
+          lastError: error,
+          nextRetryAt: null,
+          quarantinedAt: Date.now(),
+          errorType,
+          status,
+        });
+      }
+    },
+    requeueDeadLetter: (state, action: PayloadAction<{ id: string }>) => {
+      const deadLetter = state.deadLetters.find(pending => pending.id === action.payload.id);
+      if (deadLetter) {
+        const { quarantinedAt, errorType, status, ...mutation } = deadLetter;
+        state.deadLetters = state.deadLetters.filter(pending => pending.id !== action.payload.id);
+        state.pendingActions.push({ ...mutation, attempts: 0, nextRetryAt: null });
+      }
+    },
+    // Carries the whole mutation so slices can roll back its optimistic changes
+    discardDeadLetter: (state, action: PayloadAction<QuarantinedMutation>) => {
+      state.deadLetters = state.deadLetters.filter(
+        pending => pending.id !== action.payload.id
+      );
+    },
+    // Same as discardDeadLetter, for a mutation still waiting in the queue
+    discardPendingMutation: (state, action: PayloadAction<PendingMutation>) => {
+      state.pendingActions = state.pendingActions.filter(
+        pending => pending.id !== action.payload.id
+      );
+    },
+    retryPendingMutation: (state, action: PayloadAction<{ id: string }>) => {
+      const mutation = state.pendingActions.find(pending => pending.id === action.payload.id);
+      if (mutation) {
+        mutation.nextRetryAt = null;
+      }
+    },
+    conflictDetected: (state, action: PayloadAction<SyncConflict>) => {
+      const conflict = action.payload;
+      state.pendingActions = state.pendingActions.filter(
+        pending => pending.id !== conflict.mutation.id
+      );
+      state.activeMutationId = null;
+      state.conflicts.push(conflict);
+    },
+    // Carries the resolved copy so slices can replace their local record
+    conflictResolved: (state, action: PayloadAction<{
+      conflict: SyncConflict;
+      resolution: ConflictResolution;
+      resolvedCopy?: any;
+    }>) => {
+      state.conflicts = state.conflicts.filter(
+        conflict => conflict.id !== action.payload.conflict.id
+      );
+    },
+    // Queue that older versions persisted in the plain root state, see store.ts migration 8
+    legacyStateRestored: (state, action: PayloadAction<Partial<OfflineState>>) => {
+      const { pendingActions, deadLetters, conflicts, recentlySynced, lastSyncTimestamp } = action.payload;
+      state.pendingActions = pendingActions ?? [];
+      state.deadLetters = deadLetters ?? [];
+      state.conflicts = conflicts ?? [];
+      state.recentlySynced = recentlySynced ?? [];
+      state.lastSyncTimestamp = lastSyncTimestamp ?? null;
+    },
+    removePendingAction: (state, action: PayloadAction<{ id: string }>) => {
+      state.pendingActions = state.pendingActions.filter(
+        pending => pending.id !== action.payload.id
       );
     },
     clearPendingActions: (state) => {
@@ -71,29 +274,67 @@ const offlineSlice = createSlice({
     },
   },
   extraReducers: (builder) => {
-    builder.addCase(syncOfflineData.fulfilled, (state, action) => {
-      // Remove successful actions from pending list
-      const successfulActionIndexes = action.payload
-        .filter(result => result.success)
-        .map(result => {
-          return state.pendingActions.findIndex(
-            pa => pa.action.type === result.action.type
-          );
-        })
-        .filter(index => index !== -1);
-      
-      state.pendingActions = state.pendingActions.filter(
-        (_, index) => !successfulActionIndexes.includes(index)
-      );
-      
+    builder.addCase(syncOfflineData.fulfilled, (state) => {
       state.lastSyncTimestamp = Date.now();
     });
+    // Like drafts, mutations survive an expired session, for the same user only
+    builder.addCase(logout.fulfilled, (state, action) => {
+      const hasUnsyncedWork =
+        state.pendingActions.length > 0 || state.deadLetters.length > 0 || state.conflicts.length > 0;
+      if (action.meta.arg !== 'session_expired' || !action.payload || !hasUnsyncedWork) {
+        return signedOutState(state);
+      }
+      state.heldForUserId = action.payload;
+      state.activeMutationId = null;
+    });
+    builder.addMatcher(isAnyOf(login.fulfilled, verifyMfa.fulfilled), (state, action) => {
+      const userId = action.payload.user?.id;
+      if (!userId || !state.heldForUserId) return;
+      if (userId !== state.heldForUserId) {
+        return signedOutState(state);
+      }
+      state.heldForUserId = null;
+    });
   },
 });
 
+// Selectors
+export const selectPendingMutations = (state: RootState) => state.offline.pendingActions;
+export const selectDeadLetters = (state: RootState) => state.offline.deadLetters;
+export const selectConflicts = (state: RootState) => state.offline.conflicts;
+export const selectRecentlySynced = (state: RootState) => state.offline.recentlySynced;
+export const selectIsRequestQueued = (state: RootState, requestId: string) =>
+  state.offline.pendingActions.some(mutation => mutation.requestId === requestId);
+export const selectSyncStatus = createSelector(
+  [(state: RootState) => state.offline],
+  (offline) => ({
+    isOnline: offline.isOnline,
+    isSyncing: offline.isSyncing,
+    pendingCount: offline.pendingActions.length,
+    failedCount: offline.deadLetters.length,
+    conflictCount: offline.conflicts.length,
+    pausedReason: offline.syncPausedReason,
+    lastSyncTimestamp: offline.lastSyncTimestamp,
+  })
+);
+
 export const {
   setOnlineStatus,
-  markOfflineAction,
+  setSyncing,
+  setSyncPaused,
+  syncCompleted,
+  enqueueMutation,
+  mutationStarted,
+  mutationSucceeded,
+  mutationFailed,
+  mutationQuarantined,
+  requeueDeadLetter,
+  discardDeadLetter,
+  discardPendingMutation,
+  retryPendingMutation,
+  conflictDetected,
+  conflictResolved,
+  legacyStateRestored,
   removePendingAction,
   clearPendingActions,
 } = offlineSlice.actions;
@@ -1,6 +1,9 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../../services/apiService';
-import { ENDPOINTS } from '../../constants/apiConstants';
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { OFFLINE_CACHE } from '../../constants/appConstants';
+import { evictCachedEntities } from '../../utils/cacheUtils';
+import { ChangesReceived, applyChanges } from '../deltaSync';
+import { RootState } from '../store';
+import { logout } from './authSlice';
 
 // Types
 export interface MedicalCondition {
@@ -74,44 +77,19 @@ export interface Patient {
 
 interface PatientState {
   entities: Record<string, Patient>;
+  lastFetchedAt: Record<string, number>;
   selectedPatient: string | null;
-  loading: boolean;
-  error: string | null;
+  syncCursor: string | null; // Cursor of the last delta sync, null before the first one
 }
 
 // Initial state
 const initialState: PatientState = {
   entities: {},
+  lastFetchedAt: {},
   selectedPatient: null,
-  loading: false,
-  error: null,
+  syncCursor: null,
 };
 
-// Thunks
-export const fetchPatients = createAsyncThunk(
-  'patients/fetchPatients',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.PATIENTS.GET_ALL);
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch patients');
-    }
-  }
-);
-
-export const fetchPatientById = createAsyncThunk(
-  'patients/fetchPatientById',
-  async (patientId: string, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.PATIENTS.GET_BY_ID.replace(':id', patientId));
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch patient');
-    }
-  }
-);
-
 // Slice
 const patientSlice = createSlice({
   name: 'patients',
@@ -129,48 +107,36 @@ const patientSlice = createSlice({
         state.entities[patientId].notes = notes;
       }
     },
+    // Changes since the last sync, fetched by patientApi
+    patientChangesReceived: (state, action: PayloadAction<ChangesReceived<Patient>>) => {
+      state.syncCursor = applyChanges(state.entities, action.payload, {
+        lastFetchedAt: state.lastFetchedAt,
+        maxEntries: OFFLINE_CACHE.MAX_PATIENTS,
+      });
+    },
+    // Fresh copy fetched by patientApi
+    patientReceived: (state, action: PayloadAction<Patient>) => {
+      state.entities[action.payload.id] = action.payload;
+      state.lastFetchedAt[action.payload.id] = Date.now();
+      evictCachedEntities(state.entities, state.lastFetchedAt, OFFLINE_CACHE.MAX_PATIENTS);
+    },
   },
   extraReducers: (builder) => {
-    // Fetch all patients
-    builder.addCase(fetchPatients.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchPatients.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const patients = action.payload.reduce((acc: Record<string, Patient>, patient: Patient) => {
-        acc[patient.id] = patient;
-        return acc;
-      }, {});
-      state.entities = patients;
-    });
-    builder.addCase(fetchPatients.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
-    // Fetch patient by ID
-    builder.addCase(fetchPatientById.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchPatientById.fulfilled, (state, action) => {
-      state.loading = false;
-      state.entities[action.payload.id] = action.payload;
-      state.selectedPatient = action.payload.id;
-    });
-    builder.addCase(fetchPatientById.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
+    // Cached patients contain PHI and are dropped on logout
+    builder.addCase(logout.fulfilled, () => initialState);
   },
 });
 
+// Selectors
+export const selectCachedPatients = (state: RootState): Patient[] =>
+  Object.values(state.patients.entities);
+
 export const {
   setSelectedPatient,
   clearSelectedPatient,
   updatePatientNotes,
+  patientChangesReceived,
+  patientReceived,
 } = patientSlice.actions;
 
 export default patientSlice.reducer;
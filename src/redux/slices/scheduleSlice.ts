@@ -1,7 +1,19 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../../services/apiService';
-import { ENDPOINTS } from '../../constants/apiConstants';
-import { SHIFT_REQUEST_STATUS } from '../../constants/appConstants';
+import { apiClient } from '../../services/apiClient';
+import { OFFLINE_CACHE, SHIFT_REQUEST_STATUS } from '../../constants/appConstants';
+import { formatApiDate, isTodayOrLater } from '../../utils/dateUtils';
+import { byDistanceFromNow, evictCachedEntities } from '../../utils/cacheUtils';
+import {
+  RequestStates,
+  RequestThunk,
+  getRequestState,
+  requestFailed,
+  requestStarted,
+  requestSucceeded,
+} from '../requestStatus';
+import { ChangesReceived, applyChanges } from '../deltaSync';
+import { RootState } from '../store';
+import { logout } from './authSlice';
 
 // Types
 export interface Schedule {
@@ -49,52 +61,29 @@ export interface ShiftRequest {
 
 interface ScheduleState {
   schedules: Record<string, Schedule>;
+  lastFetchedAt: Record<string, number>;
+  syncCursor: string | null; // Cursor of the last delta sync, null before the first one
   availableShifts: Record<string, AvailableShift>;
   shiftRequests: Record<string, ShiftRequest>;
-  loading: boolean;
-  error: string | null;
+  requests: RequestStates;
 }
 
 // Initial state
 const initialState: ScheduleState = {
   schedules: {},
+  lastFetchedAt: {},
+  syncCursor: null,
   availableShifts: {},
   shiftRequests: {},
-  loading: false,
-  error: null,
+  requests: {},
 };
 
 // Thunks
-export const fetchSchedules = createAsyncThunk(
-  'schedules/fetchSchedules',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.SCHEDULES.GET_ALL);
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch schedules');
-    }
-  }
-);
-
-export const fetchAvailableShifts = createAsyncThunk(
-  'schedules/fetchAvailableShifts',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.SCHEDULES.AVAILABLE_SHIFTS);
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch available shifts');
-    }
-  }
-);
-
 export const requestShift = createAsyncThunk(
   'schedules/requestShift',
   async (shiftId: string, { rejectWithValue }) => {
     try {
-      const response = await apiService.post(ENDPOINTS.SCHEDULES.REQUEST_SHIFT, { shiftId });
-      return response.data;
+      return await apiClient.schedules.requestShift({ body: { shiftId } });
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to request shift');
     }
@@ -105,14 +94,18 @@ export const cancelShiftRequest = createAsyncThunk(
   'schedules/cancelShiftRequest',
   async (requestId: string, { rejectWithValue }) => {
     try {
-      const response = await apiService.post(`${ENDPOINTS.SCHEDULES.REQUEST_SHIFT}/${requestId}/cancel`);
-      return response.data;
+      return await apiClient.schedules.cancelShiftRequest({ params: { id: requestId } });
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to cancel shift request');
     }
   }
 );
 
+// Today's and upcoming schedules are never evicted from the cache, the
+// others go furthest from today first
+const isCurrentSchedule = (schedule: Schedule) => isTodayOrLater(schedule.endTime);
+const scheduleEvictionOrder = byDistanceFromNow((schedule: Schedule) => schedule.startTime);
+
 // Slice
 const scheduleSlice = createSlice({
   name: 'schedules',
@@ -126,88 +119,105 @@ const scheduleSlice = createSlice({
     },
     clearSchedules: (state) => {
       state.schedules = {};
+      state.lastFetchedAt = {};
+      state.syncCursor = null;
     },
     clearAvailableShifts: (state) => {
       state.availableShifts = {};
     },
-  },
-  extraReducers: (builder) => {
-    // Fetch all schedules
-    builder.addCase(fetchSchedules.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchSchedules.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const schedules = action.payload.reduce((acc: Record<string, Schedule>, schedule: Schedule) => {
-        acc[schedule.id] = schedule;
-        return acc;
-      }, {});
-      state.schedules = schedules;
-    });
-    builder.addCase(fetchSchedules.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
-    // Fetch available shifts
-    builder.addCase(fetchAvailableShifts.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchAvailableShifts.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const shifts = action.payload.reduce((acc: Record<string, AvailableShift>, shift: AvailableShift) => {
+    // Changes since the last sync, fetched by scheduleApi
+    scheduleChangesReceived: (state, action: PayloadAction<ChangesReceived<Schedule>>) => {
+      state.syncCursor = applyChanges(state.schedules, action.payload, {
+        lastFetchedAt: state.lastFetchedAt,
+        maxEntries: OFFLINE_CACHE.MAX_SCHEDULES,
+        keepCached: isCurrentSchedule,
+        evictionOrder: scheduleEvictionOrder,
+      });
+    },
+    // Fresh copies fetched by scheduleApi for a single day or pushed by
+    // realtimeService, other days stay cached
+    schedulesReceived: (state, action: PayloadAction<Schedule[]>) => {
+      const fetchedAt = Date.now();
+      action.payload.forEach(schedule => {
+        state.schedules[schedule.id] = schedule;
+        state.lastFetchedAt[schedule.id] = fetchedAt;
+      });
+      evictCachedEntities(
+        state.schedules,
+        state.lastFetchedAt,
+        OFFLINE_CACHE.MAX_SCHEDULES,
+        isCurrentSchedule,
+        scheduleEvictionOrder
+      );
+    },
+    // Approved or rejected by the agency, pushed by realtimeService
+    shiftRequestUpdated: (state, action: PayloadAction<ShiftRequest>) => {
+      const request = action.payload;
+      state.shiftRequests[request.id] = request;
+      if (request.status === SHIFT_REQUEST_STATUS.APPROVED) {
+        delete state.availableShifts[request.shiftId];
+      }
+    },
+    availableShiftsReceived: (state, action: PayloadAction<AvailableShift[]>) => {
+      state.availableShifts = action.payload.reduce((acc: Record<string, AvailableShift>, shift: AvailableShift) => {
         acc[shift.id] = shift;
         return acc;
       }, {});
-      state.availableShifts = shifts;
-    });
-    builder.addCase(fetchAvailableShifts.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
+    },
+  },
+  extraReducers: (builder) => {
     // Request shift
-    builder.addCase(requestShift.pending, (state) => {
-      state.loading = true;
-      state.error = null;
+    builder.addCase(requestShift.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg);
     });
     builder.addCase(requestShift.fulfilled, (state, action) => {
-      state.loading = false;
+      requestSucceeded(state.requests, action, action.meta.arg);
       const request = action.payload;
       state.shiftRequests[request.id] = request;
     });
     builder.addCase(requestShift.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
+      requestFailed(state.requests, action, action.meta.arg);
     });
 
     // Cancel shift request
-    builder.addCase(cancelShiftRequest.pending, (state) => {
-      state.loading = true;
-      state.error = null;
+    builder.addCase(cancelShiftRequest.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg);
     });
     builder.addCase(cancelShiftRequest.fulfilled, (state, action) => {
-      state.loading = false;
+      requestSucceeded(state.requests, action, action.meta.arg);
       const request = action.payload;
       if (state.shiftRequests[request.id]) {
         state.shiftRequests[request.id].status = SHIFT_REQUEST_STATUS.CANCELLED;
       }
     });
     builder.addCase(cancelShiftRequest.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
+      requestFailed(state.requests, action, action.meta.arg);
     });
+
+    // Cached schedules contain PHI and are dropped on logout
+    builder.addCase(logout.fulfilled, () => initialState);
   },
 });
 
+// Selectors
+// Latest request of a thunk, per shift or shift request ID
+export const selectScheduleRequest = (state: RootState, thunk: RequestThunk, entityId?: string) =>
+  getRequestState(state.schedules.requests, thunk, entityId);
+
+// Cached schedules, optionally limited to a single day (YYYY-MM-DD)
+export const selectCachedSchedules = (state: RootState, date?: string): Schedule[] =>
+  Object.values(state.schedules.schedules).filter(schedule =>
+    !date || formatApiDate(new Date(schedule.startTime)) === date
+  );
+
 export const {
   updateScheduleNotes,
   clearSchedules,
   clearAvailableShifts,
+  schedulesReceived,
+  scheduleChangesReceived,
+  availableShiftsReceived,
+  shiftRequestUpdated,
 } = scheduleSlice.actions;
 
 export default scheduleSlice.reducer;
@@ -0,0 +1,69 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { RootState } from '../store';
+import { UploadProgress } from '../../services/uploadService';
+import { PendingMutation, discardDeadLetter, discardPendingMutation } from './offlineSlice';
+import { logout } from './authSlice';
+
+// Upload of a document's media, keyed by the document's clientId
+export interface UploadSession extends UploadProgress {
+  clientId: string;
+  visitId: string;
+  updatedAt: number;
+}
+
+interface UploadState {
+  sessions: Record<string, UploadSession>;
+}
+
+const initialState: UploadState = {
+  sessions: {},
+};
+
+// Drop the upload of a document whose queued mutation was discarded
+const removeSessionOf = (state: UploadState, mutation: PendingMutation) => {
+  const clientId = mutation.arg?.document?.clientId;
+  if (clientId) {
+    delete state.sessions[clientId];
+  }
+};
+
+const uploadSlice = createSlice({
+  name: 'uploads',
+  initialState,
+  reducers: {
+    uploadStarted: (state, action: PayloadAction<Omit<UploadSession, 'updatedAt'>>) => {
+      state.sessions[action.payload.clientId] = { ...action.payload, updatedAt: Date.now() };
+    },
+    uploadProgressed: (state, action: PayloadAction<{ clientId: string; offset: number }>) => {
+      const session = state.sessions[action.payload.clientId];
+      if (session) {
+        session.offset = action.payload.offset;
+        session.updatedAt = Date.now();
+      }
+    },
+    uploadFinished: (state, action: PayloadAction<{ clientId: string }>) => {
+      delete state.sessions[action.payload.clientId];
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(discardDeadLetter, (state, action) => {
+      removeSessionOf(state, action.payload);
+    });
+    builder.addCase(discardPendingMutation, (state, action) => {
+      removeSessionOf(state, action.payload);
+    });
+    builder.addCase(logout.fulfilled, () => initialState);
+  },
+});
+
+// Selectors
+export const selectUploadSession = (state: RootState, clientId: string) =>
+  state.uploads.sessions[clientId];
+
+export const {
+  uploadStarted,
+  uploadProgressed,
+  uploadFinished,
+} = uploadSlice.actions;
+
+export default uploadSlice.reducer;
@@ -1,7 +1,36 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService } from '../../services/apiService';
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { apiClient } from '../../services/apiClient';
 import { ENDPOINTS } from '../../constants/apiConstants';
-import { VISIT_STATUS } from '../../constants/appConstants';
+import {
+  DOCUMENTATION_TYPES,
+  OFFLINE_CACHE,
+  UPLOAD,
+  VISIT_STATUS,
+} from '../../constants/appConstants';
+import { formatApiDate, isTodayOrLater } from '../../utils/dateUtils';
+import { byDistanceFromNow, evictCachedEntities } from '../../utils/cacheUtils';
+import { withOfflineReplay, OfflineReplayArg } from '../../services/syncEngine';
+import { uploadService } from '../../services/uploadService';
+import { createOfflineThunk, isQueuedOffline } from '../createOfflineThunk';
+import { ChangesReceived, applyChanges } from '../deltaSync';
+import {
+  RequestStates,
+  RequestThunk,
+  getRequestState,
+  requestFailed,
+  requestStarted,
+  requestSucceeded,
+} from '../requestStatus';
+import { RootState } from '../store';
+import {
+  PendingMutation,
+  conflictResolved,
+  discardDeadLetter,
+  discardPendingMutation,
+  selectIsRequestQueued,
+} from './offlineSlice';
+import { uploadFinished, uploadProgressed, uploadStarted } from './uploadSlice';
+import { logout } from './authSlice';
 
 // Types
 export interface VisitLocation {
@@ -16,6 +45,8 @@ export interface VisitDocument {
   type: string; // text, image, audio, form, signature
   content: string;
   createdAt: number;
+  clientId?: string; // Generated on the device so an offline document can be reconciled
+  isPending?: boolean; // Added offline and not yet accepted by the server
 }
 
 export interface Visit {
@@ -33,119 +64,268 @@ export interface Visit {
   clockOutLocation?: VisitLocation;
   documents: VisitDocument[];
   isOffline?: boolean;
+  version?: string; // Server revision (ETag) used to detect conflicting offline edits
 }
 
 interface VisitState {
   entities: Record<string, Visit>;
+  lastFetchedAt: Record<string, number>;
   activeVisit: string | null;
-  loading: boolean;
-  error: string | null;
+  syncCursor: string | null; // Cursor of the last delta sync, null before the first one
+  requests: RequestStates;
 }
 
 // Initial state
 const initialState: VisitState = {
   entities: {},
+  lastFetchedAt: {},
   activeVisit: null,
-  loading: false,
-  error: null,
+  syncCursor: null,
+  requests: {},
 };
 
 // Thunks
-export const fetchVisits = createAsyncThunk(
-  'visits/fetchVisits',
-  async (_, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.VISITS.GET_ALL);
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch visits');
-    }
-  },
-  {
-    // This action can be processed offline
-    condition: (_, { getState }) => {
-      // Only fetch if we have a network connection
-      const { offline } = getState() as { offline: { isOnline: boolean } };
-      return offline.isOnline;
-    },
-  }
-);
-
-export const fetchVisitById = createAsyncThunk(
-  'visits/fetchVisitById',
-  async (visitId: string, { rejectWithValue }) => {
-    try {
-      const response = await apiService.get(ENDPOINTS.VISITS.GET_BY_ID.replace(':id', visitId));
-      return response.data;
-    } catch (error: any) {
-      return rejectWithValue(error.response?.data?.message || 'Failed to fetch visit');
-    }
-  }
-);
-
-export const clockIn = createAsyncThunk(
+export const clockIn = createOfflineThunk(
   'visits/clockIn',
-  async ({ visitId, location }: { visitId: string; location: VisitLocation }, { rejectWithValue }) => {
+  async (
+    arg: { visitId: string; location: VisitLocation } & OfflineReplayArg,
+    { getState, rejectWithValue, requestId }
+  ) => {
+    const { visitId, location } = arg;
     try {
-      const response = await apiService.post(
-        ENDPOINTS.VISITS.CLOCK_IN.replace(':id', visitId),
-        { location }
-      );
-      return { visitId, data: response.data };
+      const data = await apiClient.visits.clockIn({
+        params: { id: visitId },
+        body: { location },
+        config: withOfflineReplay('visits/clockIn', arg, requestId),
+      });
+      const hasQueuedChanges = hasQueuedMutations(getState() as RootState, visitId, arg.idempotencyKey);
+      return { visitId, data, hasQueuedChanges };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Clock in failed');
     }
   },
   {
     // This action can be processed offline
-    meta: {
-      processOffline: true,
-    },
+    dedupKey: ({ visitId }) => `POST ${ENDPOINTS.VISITS.CLOCK_IN.replace(':id', visitId)}`,
+    baseVersion: ({ visitId }, state) => state.visits.entities[visitId]?.version,
   }
 );
 
-export const clockOut = createAsyncThunk(
+export const clockOut = createOfflineThunk(
   'visits/clockOut',
-  async ({ visitId, location }: { visitId: string; location: VisitLocation }, { rejectWithValue }) => {
+  async (
+    arg: { visitId: string; location: VisitLocation; notes?: string } & OfflineReplayArg,
+    { getState, rejectWithValue, requestId }
+  ) => {
+    const { visitId, location, notes } = arg;
     try {
-      const response = await apiService.post(
-        ENDPOINTS.VISITS.CLOCK_OUT.replace(':id', visitId),
-        { location }
-      );
-      return { visitId, data: response.data };
+      const data = await apiClient.visits.clockOut({
+        params: { id: visitId },
+        body: { location, notes },
+        config: withOfflineReplay('visits/clockOut', arg, requestId),
+      });
+      const hasQueuedChanges = hasQueuedMutations(getState() as RootState, visitId, arg.idempotencyKey);
+      return { visitId, data, hasQueuedChanges };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Clock out failed');
     }
   },
   {
     // This action can be processed offline
-    meta: {
-      processOffline: true,
-    },
+    dedupKey: ({ visitId }) => `POST ${ENDPOINTS.VISITS.CLOCK_OUT.replace(':id', visitId)}`,
+    baseVersion: ({ visitId }, state) => state.visits.entities[visitId]?.version,
   }
 );
 
-export const addVisitDocument = createAsyncThunk(
+// This action can be processed offline
+// Image and audio files are uploaded in chunks before the document is
+// created, and an interrupted upload resumes where it stopped on replay
+export const addVisitDocument = createOfflineThunk(
   'visits/addVisitDocument',
-  async ({ visitId, document }: { visitId: string; document: Omit<VisitDocument, 'id'> }, { rejectWithValue }) => {
+  async (
+    arg: { visitId: string; document: Omit<VisitDocument, 'id'> } & OfflineReplayArg,
+    { dispatch, getState, rejectWithValue, requestId }
+  ) => {
+    const { visitId, document } = arg;
+    const replayConfig = withOfflineReplay('visits/addVisitDocument', arg, requestId);
+    const clientId = document.clientId;
+    const media = clientId ? getLocalMedia(document) : null;
+
     try {
-      const response = await apiService.post(
-        `${ENDPOINTS.VISITS.GET_BY_ID.replace(':id', visitId)}/documents`,
-        document
-      );
-      return { visitId, document: response.data };
+      let content = document.content;
+      if (clientId && media) {
+        const { uri, ...details } = media;
+        const fileUrl = await uploadService.upload(
+          { uri, mimeType: details.mimeType || UPLOAD.DEFAULT_MIME_TYPES[document.type] },
+          (getState() as RootState).uploads.sessions[clientId] || null,
+          {
+            onSession: (session) => dispatch(uploadStarted({ ...session, clientId, visitId })),
+            onProgress: (offset) => dispatch(uploadProgressed({ clientId, offset })),
+            // A replay is retried as a whole by the sync engine, so only the
+            // first run lets a dropped chunk queue the thunk
+            config: arg.idempotencyKey ? undefined : { offlineAction: replayConfig.offlineAction },
+          }
+        );
+        content = JSON.stringify({ ...details, fileUrl });
+      }
+
+      const savedDocument = await apiClient.visits.addDocument({
+        params: { id: visitId },
+        body: { ...document, content },
+        config: replayConfig,
+      });
+      if (clientId && media) {
+        dispatch(uploadFinished({ clientId }));
+      }
+      const hasQueuedChanges = hasQueuedMutations(getState() as RootState, visitId, arg.idempotencyKey);
+      return { visitId, document: savedDocument, hasQueuedChanges };
     } catch (error: any) {
+      // Keep the upload session only if the document will be sent again
+      const willRetry = !!arg.idempotencyKey || selectIsRequestQueued(getState() as RootState, requestId);
+      if (clientId && media && !willRetry) {
+        dispatch(uploadFinished({ clientId }));
+      }
       return rejectWithValue(error.response?.data?.message || 'Failed to add document');
     }
   },
   {
-    // This action can be processed offline
-    meta: {
-      processOffline: true,
-    },
+    baseVersion: ({ visitId }, state) => state.visits.entities[visitId]?.version,
+    hasUpload: ({ document }) => !!document.clientId && !!getLocalMedia(document),
   }
 );
 
+/**
+ * Get the local media file of an image or audio document
+ * @param document Document to be added
+ * @returns Parsed document content, or null if there is no file on the device to upload
+ */
+const getLocalMedia = (
+  document: Omit<VisitDocument, 'id'>
+): ({ uri: string; mimeType?: string } & Record<string, any>) | null => {
+  if (document.type !== DOCUMENTATION_TYPES.IMAGE && document.type !== DOCUMENTATION_TYPES.AUDIO) {
+    return null;
+  }
+
+  try {
+    const details = JSON.parse(document.content);
+    return uploadService.isLocalFile(details?.uri) ? details : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Optimistic update helpers
+const applyClockIn = (visit: Visit, location: VisitLocation) => {
+  visit.status = VISIT_STATUS.IN_PROGRESS;
+  visit.actualStartTime = new Date(location.timestamp).toISOString();
+  visit.clockInLocation = location;
+};
+
+const rollbackClockIn = (visit: Visit) => {
+  visit.status = VISIT_STATUS.SCHEDULED;
+  delete visit.actualStartTime;
+  delete visit.clockInLocation;
+};
+
+const applyClockOut = (visit: Visit, location: VisitLocation, notes?: string) => {
+  visit.status = VISIT_STATUS.COMPLETED;
+  visit.actualEndTime = new Date(location.timestamp).toISOString();
+  visit.clockOutLocation = location;
+  if (notes !== undefined) {
+    visit.notes = notes;
+  }
+};
+
+const rollbackClockOut = (visit: Visit) => {
+  visit.status = VISIT_STATUS.IN_PROGRESS;
+  delete visit.actualEndTime;
+  delete visit.clockOutLocation;
+};
+
+const removeDocument = (visit: Visit, clientId: string) => {
+  visit.documents = visit.documents.filter(doc => doc.clientId !== clientId);
+};
+
+const hasPendingDocuments = (visit: Visit) => visit.documents.some(doc => doc.isPending);
+
+/**
+ * Check whether mutations of a visit are still queued, or quarantined with
+ * their optimistic changes applied
+ * @param state Redux state
+ * @param visitId Visit ID
+ * @param idempotencyKey Key of the mutation being replayed, which is not counted
+ */
+const hasQueuedMutations = (state: RootState, visitId: string, idempotencyKey?: string): boolean =>
+  [...state.offline.pendingActions, ...state.offline.deadLetters].some(mutation =>
+    mutation.arg?.visitId === visitId && mutation.idempotencyKey !== idempotencyKey
+  );
+
+// Visits with unsynced changes or in progress are never evicted from the cache
+const isPinnedVisit = (visit: Visit) =>
+  !!visit.isOffline || visit.status === VISIT_STATUS.IN_PROGRESS;
+
+// Neither are today's and upcoming visits, the others go furthest from today first
+const isCurrentVisit = (visit: Visit) => isTodayOrLater(visit.scheduledEndTime);
+const visitEvictionOrder = byDistanceFromNow((visit: Visit) => visit.scheduledStartTime);
+
+/**
+ * Undo the optimistic changes of a queued mutation that was discarded
+ */
+const rollbackMutation = (state: VisitState, mutation: PendingMutation) => {
+  const { type, arg } = mutation;
+  const visit = arg?.visitId ? state.entities[arg.visitId] : undefined;
+  if (!visit) return;
+
+  if (type === clockIn.typePrefix) {
+    rollbackClockIn(visit);
+  } else if (type === clockOut.typePrefix) {
+    rollbackClockOut(visit);
+  } else if (type === addVisitDocument.typePrefix && arg.document?.clientId) {
+    removeDocument(visit, arg.document.clientId);
+  }
+};
+
+/**
+ * Keep local changes that have not reached the server yet when a fresh
+ * copy of a visit arrives
+ */
+const mergeLocalChanges = (serverVisit: Visit, localVisit?: Visit): Visit => {
+  if (!localVisit?.isOffline) {
+    return serverVisit;
+  }
+
+  return {
+    ...serverVisit,
+    status: localVisit.status,
+    actualStartTime: localVisit.actualStartTime,
+    actualEndTime: localVisit.actualEndTime,
+    clockInLocation: localVisit.clockInLocation,
+    clockOutLocation: localVisit.clockOutLocation,
+    documents: [
+      ...(serverVisit.documents || []),
+      ...localVisit.documents.filter(doc => doc.isPending),
+    ],
+    isOffline: true,
+  };
+};
+
+/**
+ * Store the copy of a visit returned for a clock in or out
+ * Changes of later mutations still in the queue stay applied, e.g. the clock
+ * out of a visit clocked in and out offline while its clock in is replayed
+ */
+const applyServerCopy = (
+  state: VisitState,
+  visitId: string,
+  serverVisit: Visit,
+  hasQueuedChanges: boolean
+) => {
+  const localVisit = state.entities[visitId];
+  state.entities[visitId] = hasQueuedChanges && localVisit
+    ? mergeLocalChanges(serverVisit, { ...localVisit, isOffline: true })
+    : { ...serverVisit, isOffline: hasPendingDocuments(serverVisit) };
+};
+
 // Slice
 const visitSlice = createSlice({
   name: 'visits',
@@ -167,98 +347,218 @@ const visitSlice = createSlice({
         state.entities[id].isOffline = isOffline;
       }
     },
+    // Changes since the last sync, fetched by visitApi
+    visitChangesReceived: (state, action: PayloadAction<ChangesReceived<Visit>>) => {
+      state.syncCursor = applyChanges(state.entities, action.payload, {
+        merge: mergeLocalChanges,
+        isPinned: isPinnedVisit,
+        lastFetchedAt: state.lastFetchedAt,
+        maxEntries: OFFLINE_CACHE.MAX_VISITS,
+        keepCached: isCurrentVisit,
+        evictionOrder: visitEvictionOrder,
+      });
+    },
+    // Fresh copies fetched by visitApi or pushed by realtimeService
+    visitsReceived: (state, action: PayloadAction<Visit[]>) => {
+      const fetchedAt = Date.now();
+      action.payload.forEach(visit => {
+        state.entities[visit.id] = mergeLocalChanges(visit, state.entities[visit.id]);
+        state.lastFetchedAt[visit.id] = fetchedAt;
+      });
+      evictCachedEntities(
+        state.entities,
+        state.lastFetchedAt,
+        OFFLINE_CACHE.MAX_VISITS,
+        visit => isPinnedVisit(visit) || isCurrentVisit(visit),
+        visitEvictionOrder
+      );
+    },
+    // Given to another caregiver, pushed by realtimeService. A visit with
+    // unsynced changes is kept until they are replayed or discarded.
+    visitReassigned: (state, action: PayloadAction<string>) => {
+      const visitId = action.payload;
+      if (state.entities[visitId]?.isOffline) return;
+      delete state.entities[visitId];
+      delete state.lastFetchedAt[visitId];
+      if (state.activeVisit === visitId) {
+        state.activeVisit = null;
+      }
+    },
+    // Pushed by realtimeService, unsynced changes win as they do over fetched copies
+    visitCancelled: (state, action: PayloadAction<string>) => {
+      const visit = state.entities[action.payload];
+      if (visit && !visit.isOffline) {
+        visit.status = VISIT_STATUS.CANCELLED;
+      }
+    },
   },
   extraReducers: (builder) => {
-    // Fetch all visits
-    builder.addCase(fetchVisits.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchVisits.fulfilled, (state, action) => {
-      state.loading = false;
-      // Convert array to object with ID as key
-      const visits = action.payload.reduce((acc: Record<string, Visit>, visit: Visit) => {
-        acc[visit.id] = visit;
-        return acc;
-      }, {});
-      state.entities = { ...state.entities, ...visits };
-    });
-    builder.addCase(fetchVisits.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
-    // Fetch visit by ID
-    builder.addCase(fetchVisitById.pending, (state) => {
-      state.loading = true;
-      state.error = null;
-    });
-    builder.addCase(fetchVisitById.fulfilled, (state, action) => {
-      state.loading = false;
-      state.entities[action.payload.id] = action.payload;
-    });
-    builder.addCase(fetchVisitById.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
-    });
-
     // Clock in
-    builder.addCase(clockIn.pending, (state) => {
-      state.loading = true;
-      state.error = null;
+    builder.addCase(clockIn.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg.visitId);
+      // Optimistically start the visit, a replay was applied when it was queued
+      const { visitId, location, idempotencyKey } = action.meta.arg;
+      if (state.entities[visitId] && !idempotencyKey) {
+        applyClockIn(state.entities[visitId], location);
+      }
     });
     builder.addCase(clockIn.fulfilled, (state, action) => {
-      state.loading = false;
-      const { visitId, data } = action.payload;
-      state.entities[visitId] = {
+      requestSucceeded(state.requests, action, action.meta.arg.visitId);
+      const { visitId, data, hasQueuedChanges } = action.payload;
+      applyServerCopy(state, visitId, {
         ...state.entities[visitId],
         ...data,
         status: VISIT_STATUS.IN_PROGRESS,
-      };
+      }, hasQueuedChanges);
     });
     builder.addCase(clockIn.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
+      requestFailed(state.requests, action, action.meta.arg.visitId);
+      const visit = state.entities[action.meta.arg.visitId];
+      // Queued offline is not a failure, the sync engine will replay it
+      if (isQueuedOffline(action)) {
+        if (visit) {
+          visit.isOffline = true;
+        }
+        return;
+      }
+      // A failed replay stays applied until the user discards it
+      if (visit && !action.meta.arg.idempotencyKey) {
+        rollbackClockIn(visit);
+      }
     });
 
     // Clock out
-    builder.addCase(clockOut.pending, (state) => {
-      state.loading = true;
-      state.error = null;
+    builder.addCase(clockOut.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg.visitId);
+      // Optimistically complete the visit, a replay was applied when it was queued
+      const { visitId, location, notes, idempotencyKey } = action.meta.arg;
+      if (state.entities[visitId] && !idempotencyKey) {
+        applyClockOut(state.entities[visitId], location, notes);
+      }
     });
     builder.addCase(clockOut.fulfilled, (state, action) => {
-      state.loading = false;
-      const { visitId, data } = action.payload;
-      state.entities[visitId] = {
+      requestSucceeded(state.requests, action, action.meta.arg.visitId);
+      const { visitId, data, hasQueuedChanges } = action.payload;
+      applyServerCopy(state, visitId, {
         ...state.entities[visitId],
         ...data,
         status: VISIT_STATUS.COMPLETED,
-      };
+      }, hasQueuedChanges);
       // Clear active visit if it's the one we just completed
       if (state.activeVisit === visitId) {
         state.activeVisit = null;
       }
     });
     builder.addCase(clockOut.rejected, (state, action) => {
-      state.loading = false;
-      state.error = action.payload as string;
+      requestFailed(state.requests, action, action.meta.arg.visitId);
+      const visit = state.entities[action.meta.arg.visitId];
+      // Queued offline is not a failure, the sync engine will replay it
+      if (isQueuedOffline(action)) {
+        if (visit) {
+          visit.isOffline = true;
+        }
+        return;
+      }
+      // A failed replay stays applied until the user discards it
+      if (visit && !action.meta.arg.idempotencyKey) {
+        rollbackClockOut(visit);
+      }
     });
 
     // Add visit document
+    builder.addCase(addVisitDocument.pending, (state, action) => {
+      requestStarted(state.requests, action, action.meta.arg.visitId);
+      // Optimistically show the document with a pending badge
+      const { visitId, document } = action.meta.arg;
+      const visit = state.entities[visitId];
+      const clientId = document.clientId || action.meta.requestId;
+      if (visit && !visit.documents.some(doc => doc.clientId === clientId)) {
+        visit.documents.push({ ...document, id: clientId, clientId, isPending: true });
+      }
+    });
     builder.addCase(addVisitDocument.fulfilled, (state, action) => {
-      const { visitId, document } = action.payload;
-      if (state.entities[visitId]) {
-        state.entities[visitId].documents.push(document);
+      requestSucceeded(state.requests, action, action.meta.arg.visitId);
+      const { visitId, document, hasQueuedChanges } = action.payload;
+      const visit = state.entities[visitId];
+      if (visit) {
+        const clientId = action.meta.arg.document.clientId || action.meta.requestId;
+        const syncedDocument = { ...document, clientId, isPending: false };
+        const index = visit.documents.findIndex(doc => doc.clientId === clientId);
+        if (index === -1) {
+          visit.documents.push(syncedDocument);
+        } else {
+          visit.documents[index] = syncedDocument;
+        }
+        visit.isOffline = hasQueuedChanges || hasPendingDocuments(visit);
+      }
+    });
+    builder.addCase(addVisitDocument.rejected, (state, action) => {
+      requestFailed(state.requests, action, action.meta.arg.visitId);
+      const visit = state.entities[action.meta.arg.visitId];
+      if (!visit) return;
+      if (isQueuedOffline(action)) {
+        visit.isOffline = true;
+      } else if (!action.meta.arg.idempotencyKey) {
+        removeDocument(visit, action.meta.arg.document.clientId || action.meta.requestId);
       }
     });
+
+    // Roll back optimistic changes of mutations the user gave up on
+    builder.addCase(discardDeadLetter, (state, action) => {
+      rollbackMutation(state, action.payload);
+    });
+    builder.addCase(discardPendingMutation, (state, action) => {
+      rollbackMutation(state, action.payload);
+    });
+
+    // Replace the local copy with the version the user chose
+    builder.addCase(conflictResolved, (state, action) => {
+      const { conflict, resolution, resolvedCopy } = action.payload;
+      if (conflict.entityType !== 'visit' || !resolvedCopy) return;
+
+      // Documents of other mutations still waiting in the queue are kept
+      const discardedClientId = resolution === 'server'
+        ? conflict.mutation.arg?.document?.clientId
+        : undefined;
+      const localVisit = state.entities[conflict.entityId];
+      const pendingDocuments = (localVisit?.documents || []).filter(doc =>
+        doc.isPending &&
+        doc.clientId !== discardedClientId &&
+        !resolvedCopy.documents?.some((resolved: VisitDocument) => resolved.clientId === doc.clientId)
+      );
+
+      state.entities[conflict.entityId] = {
+        ...resolvedCopy,
+        documents: [...(resolvedCopy.documents || []), ...pendingDocuments],
+        isOffline: resolution === 'merge' || pendingDocuments.length > 0,
+      };
+    });
+
+    // Cached visits contain PHI and are dropped on logout
+    builder.addCase(logout.fulfilled, () => initialState);
   },
 });
 
+// Selectors
+// Latest request of a thunk, per visit ID for thunks taking one
+export const selectVisitRequest = (state: RootState, thunk: RequestThunk, visitId?: string) =>
+  getRequestState(state.visits.requests, thunk, visitId);
+
+// Cached visits, optionally limited to a single day (YYYY-MM-DD)
+export const selectCachedVisits = (state: RootState, date?: string): Visit[] =>
+  Object.values(state.visits.entities).filter(visit =>
+    !date || formatApiDate(new Date(visit.scheduledStartTime)) === date
+  );
+
 export const {
   setActiveVisit,
   clearActiveVisit,
   addOfflineVisit,
   updateVisitOfflineStatus,
+  visitsReceived,
+  visitChangesReceived,
+  visitReassigned,
+  visitCancelled,
 } = visitSlice.actions;
 
 export default visitSlice.reducer;
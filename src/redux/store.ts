@@ -1,17 +1,115 @@
 import { configureStore } from '@reduxjs/toolkit';
-import { persistStore, persistReducer } from 'redux-persist';
+import { persistStore, persistReducer, createMigrate, createTransform } from 'redux-persist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { setupListeners } from '@reduxjs/toolkit/query';
 import { offlineMiddleware } from './middleware/offlineMiddleware';
 import { rootReducer } from './rootReducer';
+import { baseApi, setupApiListeners } from './api/baseApi';
+import { apiService } from '../services/apiService';
+import { credentialManager } from '../services/credentialManager';
+import { legacyStateRestored } from './slices/offlineSlice';
+import { AuthState } from './slices/authSlice';
+
+const migrations = {
+  // Pending actions moved to the sync engine's mutation format
+  1: (state: any) => state?.offline
+    ? {
+      ...state,
+      offline: {
+        ...state.offline,
+        pendingActions: [],
+        deadLetters: [],
+      },
+    }
+    : state,
+  // Sync conflicts are kept alongside the queue
+  2: (state: any) => state?.offline
+    ? {
+      ...state,
+      offline: {
+        ...state.offline,
+        conflicts: [],
+      },
+    }
+    : state,
+  // Background sync can be paused
+  3: (state: any) => state?.offline
+    ? {
+      ...state,
+      offline: {
+        ...state.offline,
+        syncPausedReason: null,
+      },
+    }
+    : state,
+  // Sync Center tracks the running mutation and recent history
+  4: (state: any) => state?.offline
+    ? {
+      ...state,
+      offline: {
+        ...state.offline,
+        activeMutationId: null,
+        recentlySynced: [],
+      },
+    }
+    : state,
+  // Tokens moved out of the persisted auth state into credentialManager
+  5: (state: any) => {
+    if (!state?.auth) return state;
+    const { token, refreshToken, ...auth } = state.auth;
+    credentialManager.importLegacyTokens(token, refreshToken);
+    return { ...state, auth: { ...auth, credentialsUpdatedAt: null } };
+  },
+  // Idle sessions expire, see sessionManager
+  6: (state: any) => state?.auth
+    ? {
+      ...state,
+      auth: {
+        ...state.auth,
+        lastActiveAt: null,
+        sessionExpired: false,
+      },
+    }
+    : state,
+  // Supervisors and admins sign in with MFA, an unfinished sign-in is never
+  // written to disk (see authTransform)
+  7: (state: any) => state?.auth
+    ? {
+      ...state,
+      auth: {
+        ...state.auth,
+        mfaChallenge: null,
+        mfaCodeSentAt: null,
+      },
+    }
+    : state,
+  // The offline queue moved to its own encrypted persist, the plain copy is
+  // dropped here and handed over to it
+  8: (state: any) => {
+    if (!state?.offline) return state;
+    const { offline, ...rest } = state;
+    store.dispatch(legacyStateRestored(offline));
+    return rest;
+  },
+};
+
+// The MFA challenge (challenge ID and phone number hint) only lives in memory
+const authTransform = createTransform<AuthState, AuthState>(
+  (authState) => ({ ...authState, mfaChallenge: null, mfaCodeSentAt: null }),
+  (authState) => authState,
+  { whitelist: ['auth'] }
+);
 
 const persistConfig = {
   key: 'root',
+  version: 8,
   storage: AsyncStorage,
-  whitelist: ['auth', 'offline', 'settings'], // Only persist these reducers
+  // Only persist these reducers, slices holding PHI persist themselves encrypted (rootReducer)
+  whitelist: ['auth', 'settings', 'uploads', 'environment', 'appLock'],
+  transforms: [authTransform],
+  migrate: createMigrate(migrations),
 };
 
-const persistedReducer = persistReducer(persistConfig, rootReducer);
+const persistedReducer = persistReducer<ReturnType<typeof rootReducer>>(persistConfig, rootReducer);
 
 export const store = configureStore({
   reducer: persistedReducer,
@@ -23,13 +121,19 @@ export const store = configureStore({
         ignoredActionPaths: ['payload.timestamp', 'meta.timestamp'],
         ignoredPaths: ['visits.entities.timestamp'],
       },
-    }).concat(offlineMiddleware),
+    }).concat(offlineMiddleware, baseApi.middleware),
 });
 
 export const persistor = persistStore(store);
 
+// Lets apiService clear the session when a token refresh fails
+apiService.attachStore(store);
+// Lets credentialManager report refreshed tokens
+credentialManager.attachStore(store);
+
 // Enable refetchOnFocus/refetchOnReconnect behaviors
-setupListeners(store.dispatch);
+setupApiListeners(store.dispatch);
 
+export type AppStore = typeof store;
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
@@ -9,8 +9,9 @@ import {
   TouchableOpacity,
   Alert,
 } from 'react-native';
-import { apiService } from '../../services/apiService';
-import { ENDPOINTS } from '../../constants/apiConstants';
+import { useSelector } from 'react-redux';
+import { selectEnvironment } from '../../redux/slices/environmentSlice';
+import { getAuthErrorMessage, getAuthProvider } from '../../services/authProviders';
 import TextField from '../../components/TextField';
 import Button from '../../components/Button';
 import { ROUTES } from '../../constants/appConstants';
@@ -19,18 +20,39 @@ interface ForgotPasswordScreenProps {
   navigation: any;
 }
 
+// A password reset link, or a sign-in link for providers that support it
+type EmailLink = 'reset' | 'signIn';
+
+const LINK_MESSAGES: Record<EmailLink, { title: string; message: string; sent: string; failed: string }> = {
+  reset: {
+    title: 'Reset Link Sent',
+    message: 'Please check your email for instructions to reset your password.',
+    sent: 'Reset link sent to your email address. Please check your inbox.',
+    failed: 'Failed to send reset link. Please try again.',
+  },
+  signIn: {
+    title: 'Sign-in Link Sent',
+    message: 'Open the link in the email on this device to sign in.',
+    sent: 'Sign-in link sent to your email address. Open it on this device to sign in.',
+    failed: 'Failed to send sign-in link. Please try again.',
+  },
+};
+
 const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation }) => {
+  const environment = useSelector(selectEnvironment);
+  const authProvider = getAuthProvider(environment.authProvider);
+
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isResetSent, setIsResetSent] = useState(false);
+  const [sentLink, setSentLink] = useState<EmailLink | null>(null);
 
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
   };
 
-  const handleResetPassword = async () => {
+  const sendLink = async (link: EmailLink) => {
     if (!email.trim()) {
       setError('Email is required');
       return;
@@ -45,19 +67,16 @@ const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation
     setIsLoading(true);
 
     try {
-      await apiService.post(ENDPOINTS.AUTH.PASSWORD_RESET, { email });
-      setIsResetSent(true);
-      Alert.alert(
-        'Reset Link Sent',
-        'Please check your email for instructions to reset your password.',
-        [{ text: 'OK' }]
-      );
+      if (link === 'reset') {
+        await authProvider.requestPasswordReset(email);
+      } else {
+        await authProvider.sendSignInLink(email);
+      }
+      setSentLink(link);
+      Alert.alert(LINK_MESSAGES[link].title, LINK_MESSAGES[link].message, [{ text: 'OK' }]);
     } catch (error: any) {
-      console.error('Password reset failed:', error);
-      setError(
-        error.response?.data?.message ||
-          'Failed to send reset link. Please try again.'
-      );
+      console.error('Sending email link failed:', error);
+      setError(getAuthErrorMessage(error, LINK_MESSAGES[link].failed));
     } finally {
       setIsLoading(false);
     }
@@ -87,11 +106,9 @@ const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation
         <View style={styles.formContainer}>
           {error && <Text style={styles.errorText}>{error}</Text>}
 
-          {isResetSent ? (
+          {sentLink ? (
             <View style={styles.successContainer}>
-              <Text style={styles.successText}>
-                Reset link sent to your email address. Please check your inbox.
-              </Text>
+              <Text style={styles.successText}>{LINK_MESSAGES[sentLink].sent}</Text>
               <Button
                 title="Back to Login"
                 onPress={navigateToLogin}
@@ -120,7 +137,7 @@ const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation
 
               <Button
                 title="Send Reset Link"
-                onPress={handleResetPassword}
+                onPress={() => sendLink('reset')}
                 variant="primary"
                 size="large"
                 isLoading={isLoading}
@@ -128,6 +145,18 @@ const ForgotPasswordScreen: React.FC<ForgotPasswordScreenProps> = ({ navigation
                 fullWidth
                 style={styles.resetButton}
               />
+
+              {authProvider.supportsEmailLink && (
+                <Button
+                  title="Email Me a Sign-in Link"
+                  onPress={() => sendLink('signIn')}
+                  variant="outline"
+                  size="large"
+                  disabled={isLoading}
+                  fullWidth
+                  style={styles.signInLinkButton}
+                />
+              )}
             </>
           )}
 
@@ -173,6 +202,9 @@ const styles = StyleSheet.create({
   resetButton: {
     marginTop: 20,
   },
+  signInLinkButton: {
+    marginTop: 12,
+  },
   backLinkContainer: {
     marginTop: 24,
     alignItems: 'center',
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -9,13 +9,22 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Linking,
 } from 'react-native';
-import { useDispatch } from 'react-redux';
+import { useDispatch, useSelector } from 'react-redux';
 import { login } from '../../redux/slices/authSlice';
+import { selectEnvironment } from '../../redux/slices/environmentSlice';
+import { getAuthProvider } from '../../services/authProviders';
 import TextField from '../../components/TextField';
 import Button from '../../components/Button';
-import { AppDispatch } from '../../redux/store';
+import DeveloperMenu from '../../components/DeveloperMenu';
+import { AppDispatch, RootState } from '../../redux/store';
 import { ROUTES } from '../../constants/appConstants';
+import { IS_PRODUCTION_BUILD } from '../../constants/environments';
+import { MOCK_CREDENTIALS } from '../../mocks/fixtures';
+
+// The link that launched the app is only used to sign in once
+let isInitialLinkHandled = false;
 
 interface LoginScreenProps {
   navigation: any;
@@ -23,7 +32,13 @@ interface LoginScreenProps {
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const dispatch = useDispatch<AppDispatch>();
+  const environment = useSelector(selectEnvironment);
+  const sessionExpired = useSelector((state: RootState) => state.auth.sessionExpired);
+  const authProvider = getAuthProvider(environment.authProvider);
+  // Firebase accounts sign in with their email address
+  const usesEmail = environment.authProvider === 'firebase';
 
+  const [isDeveloperMenuVisible, setIsDeveloperMenuVisible] = useState(false);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -40,7 +55,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     } = {};
 
     if (!username.trim()) {
-      newErrors.username = 'Username is required';
+      newErrors.username = usesEmail ? 'Email is required' : 'Username is required';
     }
 
     if (!password) {
@@ -53,6 +68,33 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     return Object.keys(newErrors).length === 0;
   };
 
+  // Finish an email-link sign-in when the link from the caregiver's inbox opens the app
+  useEffect(() => {
+    const handleLink = async (link: string | null) => {
+      if (!link || !authProvider.isSignInLink(link)) return;
+
+      setIsLoading(true);
+      try {
+        const result = await dispatch(login({ emailLink: link })).unwrap();
+        if (result.challenge) {
+          navigation.navigate(ROUTES.AUTH.MFA_CHALLENGE);
+        }
+      } catch (error: any) {
+        console.error('Email-link sign-in failed:', error);
+        Alert.alert('Sign-in Failed', typeof error === 'string' ? error : 'Please request a new sign-in link.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (!isInitialLinkHandled) {
+      isInitialLinkHandled = true;
+      Linking.getInitialURL().then(handleLink);
+    }
+    const subscription = Linking.addEventListener('url', ({ url }) => handleLink(url));
+    return () => subscription.remove();
+  }, [authProvider]);
+
   const handleLogin = async () => {
     if (!validateForm()) return;
 
@@ -60,15 +102,22 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
     try {
       const result = await dispatch(login({ username, password })).unwrap();
       // If login was successful, unwrap won't throw and we'll continue here
+      if (result.challenge) {
+        // Supervisors and admins confirm a second factor before they are signed in
+        navigation.navigate(ROUTES.AUTH.MFA_CHALLENGE);
+        return;
+      }
       console.log('Login successful:', result);
       // Navigation will be handled by a listener in App.tsx that responds to auth state
     } catch (error: any) {
       console.error('Login failed:', error);
+      // Rejected with the provider's message
+      const message = typeof error === 'string' ? error : error.message;
       setErrors({
         ...errors,
-        general: error.message || 'Login failed. Please check your credentials.',
+        general: message || 'Login failed. Please check your credentials.',
       });
-      Alert.alert('Login Failed', error.message || 'Please check your credentials and try again.');
+      Alert.alert('Login Failed', message || 'Please check your credentials and try again.');
     } finally {
       setIsLoading(false);
     }
@@ -93,25 +142,49 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
         keyboardShouldPersistTaps="handled"
       >
         <View style={styles.logoContainer}>
-          <Image
-            source={require('../../assets/logo-placeholder.png')}
-            style={styles.logo}
-            resizeMode="contain"
-          />
+          {/* Long press on the logo opens the developer menu in non-production builds */}
+          <TouchableOpacity
+            activeOpacity={1}
+            disabled={IS_PRODUCTION_BUILD}
+            onLongPress={() => setIsDeveloperMenuVisible(true)}
+          >
+            <Image
+              source={require('../../assets/logo-placeholder.png')}
+              style={styles.logo}
+              resizeMode="contain"
+            />
+          </TouchableOpacity>
           <Text style={styles.appName}>Caro</Text>
           <Text style={styles.appTagline}>Home Care Management</Text>
+          {!IS_PRODUCTION_BUILD && (
+            <Text style={styles.environmentText}>
+              {environment.label} · {environment.apiBaseUrl}
+            </Text>
+          )}
+          {environment.mockApi && (
+            <Text style={styles.environmentText}>
+              Sign in as {MOCK_CREDENTIALS.username} / {MOCK_CREDENTIALS.password}
+            </Text>
+          )}
         </View>
 
         <View style={styles.formContainer}>
+          {sessionExpired && (
+            <Text style={styles.sessionNotice}>
+              You were signed out after a period of inactivity. Unsubmitted documentation was kept.
+            </Text>
+          )}
+
           {errors.general && (
             <Text style={styles.generalError}>{errors.general}</Text>
           )}
 
           <TextField
-            label="Username"
+            label={usesEmail ? 'Email' : 'Username'}
             value={username}
             onChangeText={setUsername}
-            placeholder="Enter your username"
+            placeholder={usesEmail ? 'Enter your email address' : 'Enter your username'}
+            keyboardType={usesEmail ? 'email-address' : 'default'}
             autoCapitalize="none"
             error={errors.username}
             fullWidth
@@ -155,6 +228,13 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
           </View>
         </View>
       </ScrollView>
+
+      {!IS_PRODUCTION_BUILD && (
+        <DeveloperMenu
+          visible={isDeveloperMenuVisible}
+          onClose={() => setIsDeveloperMenuVisible(false)}
+        />
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -188,6 +268,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  environmentText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 8,
+  },
   formContainer: {
     width: '100%',
   },
@@ -196,6 +281,11 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     textAlign: 'center',
   },
+  sessionNotice: {
+    color: '#666',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
   forgotPasswordContainer: {
     alignSelf: 'flex-end',
     marginBottom: 24,
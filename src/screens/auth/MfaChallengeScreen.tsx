@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../redux/store';
+import { MfaMethod, cancelMfa, sendMfaCode, verifyMfa } from '../../redux/slices/authSlice';
+import TextField from '../../components/TextField';
+import Button from '../../components/Button';
+import { MFA } from '../../constants/appConstants';
+
+interface MfaChallengeScreenProps {
+  navigation: any;
+}
+
+const METHOD_LABELS: Record<MfaMethod, string> = {
+  totp: 'Authenticator app',
+  sms: 'Text message',
+};
+
+const MfaChallengeScreen: React.FC<MfaChallengeScreenProps> = ({ navigation }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { mfaChallenge, mfaCodeSentAt, isLoading, error } = useSelector((state: RootState) => state.auth);
+
+  const [method, setMethod] = useState<MfaMethod>(mfaChallenge?.methods[0] || 'totp');
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const resendAvailableAt = mfaCodeSentAt ? mfaCodeSentAt + MFA.RESEND_INTERVAL : 0;
+  const resendSeconds = Math.ceil((resendAvailableAt - now) / 1000);
+
+  // Count down until another text message code can be sent
+  useEffect(() => {
+    setNow(Date.now());
+    if (!mfaCodeSentAt) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= mfaCodeSentAt + MFA.RESEND_INTERVAL) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [mfaCodeSentAt]);
+
+  const handleSelectMethod = (nextMethod: MfaMethod) => {
+    setMethod(nextMethod);
+    setCode('');
+    // The first text message is sent when the caregiver picks it
+    if (nextMethod === 'sms' && !mfaCodeSentAt) {
+      dispatch(sendMfaCode());
+    }
+  };
+
+  const handleVerify = () => {
+    // Signed in on success, AppNavigator then swaps to the main screens
+    dispatch(verifyMfa({ method, code, rememberDevice }));
+  };
+
+  const handleCancel = () => {
+    dispatch(cancelMfa());
+    navigation.goBack();
+  };
+
+  if (!mfaChallenge) {
+    return (
+      <View style={styles.expiredContainer}>
+        <Text style={styles.errorText}>Your sign-in has expired. Please log in again.</Text>
+        <Button title="Back to Login" onPress={handleCancel} variant="primary" fullWidth />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.headerContainer}>
+          <Text style={styles.headerTitle}>Verify it's you</Text>
+          <Text style={styles.headerSubtitle}>
+            {method === 'totp'
+              ? 'Enter the code from your authenticator app'
+              : `Enter the code we texted to ${mfaChallenge.phoneNumberHint
+                ? `the number ending in ${mfaChallenge.phoneNumberHint}`
+                : 'your phone'}`}
+          </Text>
+        </View>
+
+        <View style={styles.formContainer}>
+          {mfaChallenge.methods.length > 1 && (
+            <View style={styles.methodTabs}>
+              {mfaChallenge.methods.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.methodTab, method === option && styles.selectedMethodTab]}
+                  onPress={() => handleSelectMethod(option)}
+                >
+                  <Text style={[styles.methodText, method === option && styles.selectedMethodText]}>
+                    {METHOD_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <TextField
+            label="Verification code"
+            value={code}
+            onChangeText={(value) => setCode(value.replace(/\D/g, ''))}
+            placeholder={'0'.repeat(MFA.CODE_LENGTH)}
+            keyboardType="number-pad"
+            maxLength={MFA.CODE_LENGTH}
+            error={error || undefined}
+            onSubmitEditing={handleVerify}
+            fullWidth
+            required
+          />
+
+          {method === 'sms' && (
+            <TouchableOpacity
+              onPress={() => dispatch(sendMfaCode())}
+              disabled={resendSeconds > 0}
+              style={styles.resendContainer}
+            >
+              <Text style={[styles.resendText, resendSeconds > 0 && styles.resendTextDisabled]}>
+                {!mfaCodeSentAt
+                  ? 'Send code'
+                  : resendSeconds > 0 ? `Resend code in ${resendSeconds}s` : 'Resend code'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Remember this device</Text>
+            <Switch value={rememberDevice} onValueChange={setRememberDevice} />
+          </View>
+
+          <Button
+            title="Verify"
+            onPress={handleVerify}
+            variant="primary"
+            size="large"
+            isLoading={isLoading}
+            disabled={isLoading || code.length !== MFA.CODE_LENGTH}
+            fullWidth
+            style={styles.verifyButton}
+          />
+
+          <TouchableOpacity onPress={handleCancel} style={styles.backLinkContainer}>
+            <Text style={styles.backLink}>Back to Login</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 20,
+    justifyContent: 'center',
+  },
+  expiredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+  },
+  headerContainer: {
+    marginBottom: 30,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    color: '#666',
+  },
+  formContainer: {
+    width: '100%',
+  },
+  errorText: {
+    color: '#F44336',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  methodTabs: {
+    flexDirection: 'row',
+    marginBottom: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3F51B5',
+    overflow: 'hidden',
+  },
+  methodTab: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  selectedMethodTab: {
+    backgroundColor: '#3F51B5',
+  },
+  methodText: {
+    color: '#3F51B5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  selectedMethodText: {
+    color: '#FFFFFF',
+  },
+  resendContainer: {
+    alignSelf: 'flex-end',
+    marginBottom: 16,
+  },
+  resendText: {
+    color: '#3F51B5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  resendTextDisabled: {
+    color: '#999',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  verifyButton: {
+    marginTop: 20,
+  },
+  backLinkContainer: {
+    marginTop: 24,
+    alignItems: 'center',
+  },
+  backLink: {
+    color: '#3F51B5',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default MfaChallengeScreen;
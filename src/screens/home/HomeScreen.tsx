@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,55 +8,72 @@ import {
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchVisits } from '../../redux/slices/visitSlice';
-import { fetchSchedules } from '../../redux/slices/scheduleSlice';
-import { fetchMessages } from '../../redux/slices/messageSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { useGetVisitsQuery, visitApi } from '../../redux/api/visitApi';
+import { useGetSchedulesQuery, scheduleApi } from '../../redux/api/scheduleApi';
+import { useGetMessagesQuery, messageApi } from '../../redux/api/messageApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
+import { selectSyncStatus } from '../../redux/slices/offlineSlice';
+import { syncScheduler } from '../../services/syncScheduler';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
 import { ROUTES, VISIT_STATUS } from '../../constants/appConstants';
 import { formatDate, formatTime } from '../../utils/dateUtils';
+import { formatSyncTime } from '../../utils/syncUtils';
 
 interface HomeScreenProps {
   navigation: any;
 }
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
-  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
   const { entities: visits, activeVisit } = useSelector((state: RootState) => state.visits);
   const { schedules } = useSelector((state: RootState) => state.schedules);
   const { conversations } = useSelector((state: RootState) => state.messages);
+  const { isOnline, isSyncing, lastSyncTimestamp, pausedReason } = useSelector(selectSyncStatus);
   
-  const [refreshing, setRefreshing] = useState(false);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const visitsQuery = useGetVisitsQuery();
+  const schedulesQuery = useGetSchedulesQuery();
+  const messagesQuery = useGetMessagesQuery();
+  useAbortOnUnmount(() => visitApi.util.getRunningQueryThunk('getVisits', undefined), []);
+  useAbortOnUnmount(() => scheduleApi.util.getRunningQueryThunk('getSchedules', undefined), []);
+  useAbortOnUnmount(() => messageApi.util.getRunningQueryThunk('getMessages', undefined), []);
+  // Only the first load blocks the dashboard
+  const loading = visitsQuery.isLoading || schedulesQuery.isLoading || messagesQuery.isLoading;
 
-  const loadData = async () => {
-    setLoading(true);
-    try {
-      await Promise.all([
-        dispatch(fetchVisits()),
-        dispatch(fetchSchedules()),
-        dispatch(fetchMessages()),
-      ]);
-    } catch (error) {
-      console.error('Error loading home data:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [refreshing, setRefreshing] = useState(false);
+  const [syncing, setSyncing] = useState(false);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadData();
+    await Promise.all([
+      visitsQuery.refetch(),
+      schedulesQuery.refetch(),
+      messagesQuery.refetch(),
+    ]);
     setRefreshing(false);
   };
 
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    await syncScheduler.syncNow();
+    setSyncing(false);
+  };
+
+  const getSyncStatusText = () => {
+    if (pausedReason === 'low_battery') {
+      return 'Auto sync paused: low battery';
+    }
+    if (pausedReason === 'metered') {
+      return 'Uploads and refresh paused: metered connection';
+    }
+    if (!lastSyncTimestamp) {
+      return 'Not synced yet';
+    }
+    return `Last synced ${formatSyncTime(lastSyncTimestamp)}`;
+  };
+
   // Get today's date for filtering
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -125,6 +142,22 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
           Hello, {user?.firstName || 'Caregiver'}!
         </Text>
         <Text style={styles.dateText}>{formatDate(new Date())}</Text>
+        <View style={styles.syncRow}>
+          <TouchableOpacity onPress={() => navigation.navigate(ROUTES.SYNC.CENTER)}>
+            <Text style={styles.syncText}>{getSyncStatusText()}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSyncNow}
+            disabled={!isOnline || syncing || isSyncing}
+          >
+            <Text style={[styles.syncNowText, (!isOnline || syncing || isSyncing) && styles.syncNowDisabled]}>
+              {syncing || isSyncing ? 'Syncing...' : 'Sync now'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity onPress={() => navigation.navigate(ROUTES.SETTINGS.SECURITY)}>
+          <Text style={styles.securityText}>App lock settings</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Active Visit Card */}
@@ -313,6 +346,29 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  syncRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  syncText: {
+    fontSize: 12,
+    color: '#757575',
+  },
+  syncNowText: {
+    fontSize: 14,
+    color: '#3F51B5',
+    fontWeight: '600',
+  },
+  syncNowDisabled: {
+    color: '#9E9E9E',
+  },
+  securityText: {
+    fontSize: 14,
+    color: '#3F51B5',
+    marginTop: 8,
+  },
   activeVisitCard: {
     backgroundColor: '#E8EAF6',
     marginBottom: 20,
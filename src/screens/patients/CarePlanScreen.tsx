@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,11 +7,14 @@ import {
   ActivityIndicator,
   TouchableOpacity,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchPatientById } from '../../redux/slices/patientSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { useGetPatientQuery, patientApi } from '../../redux/api/patientApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import PhiScreenMask from '../../components/PhiScreenMask';
 import { formatDate } from '../../utils/dateUtils';
 
 interface CarePlanScreenProps {
@@ -25,28 +28,18 @@ interface CarePlanScreenProps {
 
 const CarePlanScreen: React.FC<CarePlanScreenProps> = ({ navigation, route }) => {
   const { patientId } = route.params;
-  const dispatch = useDispatch<AppDispatch>();
 
   const patient = useSelector(
     (state: RootState) => state.patients.entities[patientId]
   );
-  const loading = useSelector((state: RootState) => state.patients.loading);
-  const error = useSelector((state: RootState) => state.patients.error);
+  const { isFetching: loading, error, refetch } = useGetPatientQuery(patientId);
+  useAbortOnUnmount(() => patientApi.util.getRunningQueryThunk('getPatient', patientId), [patientId]);
+  const fetchedAt = useSelector(
+    (state: RootState) => state.patients.lastFetchedAt[patientId]
+  );
 
   const [expandedSection, setExpandedSection] = useState<string | null>(null);
 
-  useEffect(() => {
-    loadPatientData();
-  }, [patientId]);
-
-  const loadPatientData = async () => {
-    try {
-      await dispatch(fetchPatientById(patientId));
-    } catch (error) {
-      console.error('Error loading patient data:', error);
-    }
-  };
-
   const toggleSection = (section: string) => {
     if (expandedSection === section) {
       setExpandedSection(null);
@@ -64,13 +57,14 @@ const CarePlanScreen: React.FC<CarePlanScreenProps> = ({ navigation, route }) =>
     );
   }
 
-  if (error) {
+  // A cached copy is still shown when refreshing it fails
+  if (error && !patient) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
+        <Text style={styles.errorText}>{error.message}</Text>
         <Button
           title="Retry"
-          onPress={loadPatientData}
+          onPress={refetch}
           variant="primary"
           style={styles.retryButton}
         />
@@ -95,212 +89,215 @@ const CarePlanScreen: React.FC<CarePlanScreenProps> = ({ navigation, route }) =>
   const { carePlan } = patient;
 
   return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
-      <View style={styles.headerContainer}>
-        <Text style={styles.patientName}>
-          {patient.firstName} {patient.lastName}
-        </Text>
-        <Text style={styles.planUpdated}>
-          Care Plan Last Updated: {formatDate(new Date(carePlan.lastUpdated))}
-        </Text>
-      </View>
-
-      <Card variant="outlined" style={styles.carePlanCard}>
-        <TouchableOpacity
-          style={styles.sectionHeader}
-          onPress={() => toggleSection('goals')}
-        >
-          <Text style={styles.sectionTitle}>Care Goals</Text>
-          <Text style={styles.expandIcon}>
-            {expandedSection === 'goals' ? '▼' : '▶'}
+    <PhiScreenMask>
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <StaleDataBanner fetchedAt={fetchedAt} />
+        <View style={styles.headerContainer}>
+          <Text style={styles.patientName}>
+            {patient.firstName} {patient.lastName}
           </Text>
-        </TouchableOpacity>
-
-        {expandedSection === 'goals' && (
-          <View style={styles.sectionContent}>
-            {carePlan.goals.map((goal, index) => (
-              <View key={index} style={styles.goalItem}>
-                <Text style={styles.goalNumber}>{index + 1}</Text>
-                <Text style={styles.goalText}>{goal}</Text>
-              </View>
-            ))}
-          </View>
-        )}
-      </Card>
-
-      <Card variant="outlined" style={styles.carePlanCard}>
-        <TouchableOpacity
-          style={styles.sectionHeader}
-          onPress={() => toggleSection('instructions')}
-        >
-          <Text style={styles.sectionTitle}>Care Instructions</Text>
-          <Text style={styles.expandIcon}>
-            {expandedSection === 'instructions' ? '▼' : '▶'}
+          <Text style={styles.planUpdated}>
+            Care Plan Last Updated: {formatDate(new Date(carePlan.lastUpdated))}
           </Text>
-        </TouchableOpacity>
+        </View>
 
-        {expandedSection === 'instructions' && (
-          <View style={styles.sectionContent}>
-            <Text style={styles.instructionsText}>{carePlan.instructions}</Text>
-          </View>
-        )}
-      </Card>
+        <Card variant="outlined" style={styles.carePlanCard}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('goals')}
+          >
+            <Text style={styles.sectionTitle}>Care Goals</Text>
+            <Text style={styles.expandIcon}>
+              {expandedSection === 'goals' ? '▼' : '▶'}
+            </Text>
+          </TouchableOpacity>
+
+          {expandedSection === 'goals' && (
+            <View style={styles.sectionContent}>
+              {carePlan.goals.map((goal, index) => (
+                <View key={index} style={styles.goalItem}>
+                  <Text style={styles.goalNumber}>{index + 1}</Text>
+                  <Text style={styles.goalText}>{goal}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </Card>
 
-      {carePlan.specialNotes && (
         <Card variant="outlined" style={styles.carePlanCard}>
           <TouchableOpacity
             style={styles.sectionHeader}
-            onPress={() => toggleSection('notes')}
+            onPress={() => toggleSection('instructions')}
           >
-            <Text style={styles.sectionTitle}>Special Notes</Text>
+            <Text style={styles.sectionTitle}>Care Instructions</Text>
             <Text style={styles.expandIcon}>
-              {expandedSection === 'notes' ? '▼' : '▶'}
+              {expandedSection === 'instructions' ? '▼' : '▶'}
             </Text>
           </TouchableOpacity>
 
-          {expandedSection === 'notes' && (
+          {expandedSection === 'instructions' && (
             <View style={styles.sectionContent}>
-              <Text style={styles.specialNotesText}>{carePlan.specialNotes}</Text>
+              <Text style={styles.instructionsText}>{carePlan.instructions}</Text>
             </View>
           )}
         </Card>
-      )}
 
-      <Card variant="outlined" style={styles.carePlanCard}>
-        <TouchableOpacity
-          style={styles.sectionHeader}
-          onPress={() => toggleSection('medications')}
-        >
-          <Text style={styles.sectionTitle}>Medications</Text>
-          <Text style={styles.expandIcon}>
-            {expandedSection === 'medications' ? '▼' : '▶'}
-          </Text>
-        </TouchableOpacity>
+        {carePlan.specialNotes && (
+          <Card variant="outlined" style={styles.carePlanCard}>
+            <TouchableOpacity
+              style={styles.sectionHeader}
+              onPress={() => toggleSection('notes')}
+            >
+              <Text style={styles.sectionTitle}>Special Notes</Text>
+              <Text style={styles.expandIcon}>
+                {expandedSection === 'notes' ? '▼' : '▶'}
+              </Text>
+            </TouchableOpacity>
 
-        {expandedSection === 'medications' && (
-          <View style={styles.sectionContent}>
-            {patient.medications && patient.medications.length > 0 ? (
-              patient.medications.map((medication) => (
-                <View key={medication.id} style={styles.medicationItem}>
-                  <Text style={styles.medicationName}>{medication.name}</Text>
-                  <Text style={styles.medicationDetails}>
-                    {medication.dosage} - {medication.frequency}
-                  </Text>
-                  {medication.instructions && (
-                    <Text style={styles.medicationInstructions}>
-                      {medication.instructions}
-                    </Text>
-                  )}
-                </View>
-              ))
-            ) : (
-              <Text style={styles.emptyStateText}>No medications listed</Text>
+            {expandedSection === 'notes' && (
+              <View style={styles.sectionContent}>
+                <Text style={styles.specialNotesText}>{carePlan.specialNotes}</Text>
+              </View>
             )}
-          </View>
+          </Card>
         )}
-      </Card>
 
-      <Card variant="outlined" style={styles.carePlanCard}>
-        <TouchableOpacity
-          style={styles.sectionHeader}
-          onPress={() => toggleSection('allergies')}
-        >
-          <Text style={styles.sectionTitle}>Allergies</Text>
-          <Text style={styles.expandIcon}>
-            {expandedSection === 'allergies' ? '▼' : '▶'}
-          </Text>
-        </TouchableOpacity>
+        <Card variant="outlined" style={styles.carePlanCard}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('medications')}
+          >
+            <Text style={styles.sectionTitle}>Medications</Text>
+            <Text style={styles.expandIcon}>
+              {expandedSection === 'medications' ? '▼' : '▶'}
+            </Text>
+          </TouchableOpacity>
 
-        {expandedSection === 'allergies' && (
-          <View style={styles.sectionContent}>
-            {patient.allergies && patient.allergies.length > 0 ? (
-              patient.allergies.map((allergy) => (
-                <View key={allergy.id} style={styles.allergyItem}>
-                  <View style={styles.allergyHeader}>
-                    <Text style={styles.allergyName}>{allergy.name}</Text>
-                    <View
-                      style={[
-                        styles.severityBadge,
-                        allergy.severity === 'severe'
-                          ? styles.severeSeverity
-                          : allergy.severity === 'moderate'
-                          ? styles.moderateSeverity
-                          : styles.mildSeverity,
-                      ]}
-                    >
-                      <Text style={styles.severityText}>{allergy.severity}</Text>
+          {expandedSection === 'medications' && (
+            <View style={styles.sectionContent}>
+              {patient.medications && patient.medications.length > 0 ? (
+                patient.medications.map((medication) => (
+                  <View key={medication.id} style={styles.medicationItem}>
+                    <Text style={styles.medicationName}>{medication.name}</Text>
+                    <Text style={styles.medicationDetails}>
+                      {medication.dosage} - {medication.frequency}
+                    </Text>
+                    {medication.instructions && (
+                      <Text style={styles.medicationInstructions}>
+                        {medication.instructions}
+                      </Text>
+                    )}
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyStateText}>No medications listed</Text>
+              )}
+            </View>
+          )}
+        </Card>
+
+        <Card variant="outlined" style={styles.carePlanCard}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('allergies')}
+          >
+            <Text style={styles.sectionTitle}>Allergies</Text>
+            <Text style={styles.expandIcon}>
+              {expandedSection === 'allergies' ? '▼' : '▶'}
+            </Text>
+          </TouchableOpacity>
+
+          {expandedSection === 'allergies' && (
+            <View style={styles.sectionContent}>
+              {patient.allergies && patient.allergies.length > 0 ? (
+                patient.allergies.map((allergy) => (
+                  <View key={allergy.id} style={styles.allergyItem}>
+                    <View style={styles.allergyHeader}>
+                      <Text style={styles.allergyName}>{allergy.name}</Text>
+                      <View
+                        style={[
+                          styles.severityBadge,
+                          allergy.severity === 'severe'
+                            ? styles.severeSeverity
+                            : allergy.severity === 'moderate'
+                            ? styles.moderateSeverity
+                            : styles.mildSeverity,
+                        ]}
+                      >
+                        <Text style={styles.severityText}>{allergy.severity}</Text>
+                      </View>
                     </View>
+                    {allergy.reaction && (
+                      <Text style={styles.allergyReaction}>
+                        Reaction: {allergy.reaction}
+                      </Text>
+                    )}
                   </View>
-                  {allergy.reaction && (
-                    <Text style={styles.allergyReaction}>
-                      Reaction: {allergy.reaction}
-                    </Text>
-                  )}
-                </View>
-              ))
-            ) : (
-              <Text style={styles.emptyStateText}>No allergies listed</Text>
-            )}
-          </View>
-        )}
-      </Card>
+                ))
+              ) : (
+                <Text style={styles.emptyStateText}>No allergies listed</Text>
+              )}
+            </View>
+          )}
+        </Card>
 
-      <Card variant="outlined" style={styles.carePlanCard}>
-        <TouchableOpacity
-          style={styles.sectionHeader}
-          onPress={() => toggleSection('conditions')}
-        >
-          <Text style={styles.sectionTitle}>Medical Conditions</Text>
-          <Text style={styles.expandIcon}>
-            {expandedSection === 'conditions' ? '▼' : '▶'}
-          </Text>
-        </TouchableOpacity>
+        <Card variant="outlined" style={styles.carePlanCard}>
+          <TouchableOpacity
+            style={styles.sectionHeader}
+            onPress={() => toggleSection('conditions')}
+          >
+            <Text style={styles.sectionTitle}>Medical Conditions</Text>
+            <Text style={styles.expandIcon}>
+              {expandedSection === 'conditions' ? '▼' : '▶'}
+            </Text>
+          </TouchableOpacity>
 
-        {expandedSection === 'conditions' && (
-          <View style={styles.sectionContent}>
-            {patient.medicalConditions && patient.medicalConditions.length > 0 ? (
-              patient.medicalConditions.map((condition) => (
-                <View key={condition.id} style={styles.conditionItem}>
-                  <Text style={styles.conditionName}>{condition.name}</Text>
-                  {condition.diagnosisDate && (
-                    <Text style={styles.conditionDate}>
-                      Diagnosed: {formatDate(new Date(condition.diagnosisDate))}
-                    </Text>
-                  )}
-                  {condition.description && (
-                    <Text style={styles.conditionDescription}>
-                      {condition.description}
-                    </Text>
-                  )}
-                </View>
-              ))
-            ) : (
-              <Text style={styles.emptyStateText}>No medical conditions listed</Text>
-            )}
-          </View>
-        )}
-      </Card>
+          {expandedSection === 'conditions' && (
+            <View style={styles.sectionContent}>
+              {patient.medicalConditions && patient.medicalConditions.length > 0 ? (
+                patient.medicalConditions.map((condition) => (
+                  <View key={condition.id} style={styles.conditionItem}>
+                    <Text style={styles.conditionName}>{condition.name}</Text>
+                    {condition.diagnosisDate && (
+                      <Text style={styles.conditionDate}>
+                        Diagnosed: {formatDate(new Date(condition.diagnosisDate))}
+                      </Text>
+                    )}
+                    {condition.description && (
+                      <Text style={styles.conditionDescription}>
+                        {condition.description}
+                      </Text>
+                    )}
+                  </View>
+                ))
+              ) : (
+                <Text style={styles.emptyStateText}>No medical conditions listed</Text>
+              )}
+            </View>
+          )}
+        </Card>
 
-      <View style={styles.buttonContainer}>
-        <Button
-          title="Print Care Plan"
-          onPress={() => {
-            // Implement print functionality
-            alert('Print functionality will be implemented soon');
-          }}
-          variant="outline"
-          size="medium"
-          style={styles.actionButton}
-        />
-        <Button
-          title="Back to Patient"
-          onPress={() => navigation.goBack()}
-          variant="primary"
-          size="medium"
-          style={styles.actionButton}
-        />
-      </View>
-    </ScrollView>
+        <View style={styles.buttonContainer}>
+          <Button
+            title="Print Care Plan"
+            onPress={() => {
+              // Implement print functionality
+              alert('Print functionality will be implemented soon');
+            }}
+            variant="outline"
+            size="medium"
+            style={styles.actionButton}
+          />
+          <Button
+            title="Back to Patient"
+            onPress={() => navigation.goBack()}
+            variant="primary"
+            size="medium"
+            style={styles.actionButton}
+          />
+        </View>
+      </ScrollView>
+    </PhiScreenMask>
   );
 };
 
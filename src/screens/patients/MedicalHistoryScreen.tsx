@@ -7,11 +7,14 @@ import {
   ActivityIndicator,
   TouchableOpacity,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchPatientById, MedicalCondition } from '../../redux/slices/patientSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { MedicalCondition } from '../../redux/slices/patientSlice';
+import { useGetPatientQuery, patientApi } from '../../redux/api/patientApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
+import PhiScreenMask from '../../components/PhiScreenMask';
 import { formatDate } from '../../utils/dateUtils';
 
 interface MedicalHistoryScreenProps {
@@ -28,35 +31,22 @@ const MedicalHistoryScreen: React.FC<MedicalHistoryScreenProps> = ({
   route,
 }) => {
   const { patientId } = route.params;
-  const dispatch = useDispatch<AppDispatch>();
 
   const patient = useSelector(
     (state: RootState) => state.patients.entities[patientId]
   );
-  const loading = useSelector((state: RootState) => state.patients.loading);
-  const error = useSelector((state: RootState) => state.patients.error);
+  const { isFetching: loading, error, refetch } = useGetPatientQuery(patientId);
+  useAbortOnUnmount(() => patientApi.util.getRunningQueryThunk('getPatient', patientId), [patientId]);
 
   const [sortedConditions, setSortedConditions] = useState<MedicalCondition[]>([]);
   const [sortOrder, setSortOrder] = useState<'alphabetical' | 'chronological'>('chronological');
 
-  useEffect(() => {
-    loadPatientData();
-  }, [patientId]);
-
   useEffect(() => {
     if (patient && patient.medicalConditions) {
       sortConditions();
     }
   }, [patient, sortOrder]);
 
-  const loadPatientData = async () => {
-    try {
-      await dispatch(fetchPatientById(patientId));
-    } catch (error) {
-      console.error('Error loading patient data:', error);
-    }
-  };
-
   const sortConditions = () => {
     if (!patient || !patient.medicalConditions) return;
 
@@ -94,10 +84,10 @@ const MedicalHistoryScreen: React.FC<MedicalHistoryScreenProps> = ({
   if (error) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
+        <Text style={styles.errorText}>{error.message}</Text>
         <Button
           title="Retry"
-          onPress={loadPatientData}
+          onPress={refetch}
           variant="primary"
           style={styles.retryButton}
         />
@@ -120,88 +110,90 @@ const MedicalHistoryScreen: React.FC<MedicalHistoryScreenProps> = ({
   }
 
   return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
-      <View style={styles.headerContainer}>
-        <Text style={styles.patientName}>
-          {patient.firstName} {patient.lastName}
-        </Text>
-        <Text style={styles.screenTitle}>Medical History</Text>
-      </View>
-
-      <View style={styles.sortContainer}>
-        <Text style={styles.sortLabel}>Sort by:</Text>
-        <TouchableOpacity onPress={toggleSortOrder} style={styles.sortButton}>
-          <Text style={styles.sortButtonText}>
-            {sortOrder === 'alphabetical' ? 'Name' : 'Date'} ↓
+    <PhiScreenMask>
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.headerContainer}>
+          <Text style={styles.patientName}>
+            {patient.firstName} {patient.lastName}
           </Text>
-        </TouchableOpacity>
-      </View>
+          <Text style={styles.screenTitle}>Medical History</Text>
+        </View>
 
-      {sortedConditions.length === 0 ? (
-        <Card variant="outlined" style={styles.emptyCard}>
-          <Text style={styles.emptyText}>No medical conditions recorded</Text>
-        </Card>
-      ) : (
-        sortedConditions.map((condition) => (
-          <Card key={condition.id} variant="outlined" style={styles.conditionCard}>
-            <View style={styles.conditionHeader}>
-              <Text style={styles.conditionName}>{condition.name}</Text>
-              {condition.diagnosisDate && (
-                <Text style={styles.diagnosisDate}>
-                  Diagnosed: {formatDate(new Date(condition.diagnosisDate))}
-                </Text>
-              )}
-            </View>
+        <View style={styles.sortContainer}>
+          <Text style={styles.sortLabel}>Sort by:</Text>
+          <TouchableOpacity onPress={toggleSortOrder} style={styles.sortButton}>
+            <Text style={styles.sortButtonText}>
+              {sortOrder === 'alphabetical' ? 'Name' : 'Date'} ↓
+            </Text>
+          </TouchableOpacity>
+        </View>
 
-            {condition.description && (
-              <Text style={styles.conditionDescription}>{condition.description}</Text>
-            )}
+        {sortedConditions.length === 0 ? (
+          <Card variant="outlined" style={styles.emptyCard}>
+            <Text style={styles.emptyText}>No medical conditions recorded</Text>
           </Card>
-        ))
-      )}
+        ) : (
+          sortedConditions.map((condition) => (
+            <Card key={condition.id} variant="outlined" style={styles.conditionCard}>
+              <View style={styles.conditionHeader}>
+                <Text style={styles.conditionName}>{condition.name}</Text>
+                {condition.diagnosisDate && (
+                  <Text style={styles.diagnosisDate}>
+                    Diagnosed: {formatDate(new Date(condition.diagnosisDate))}
+                  </Text>
+                )}
+              </View>
 
-      <Card variant="outlined" style={styles.relatedInfoCard}>
-        <Text style={styles.relatedInfoTitle}>Related Information</Text>
+              {condition.description && (
+                <Text style={styles.conditionDescription}>{condition.description}</Text>
+              )}
+            </Card>
+          ))
+        )}
 
-        <TouchableOpacity
-          style={styles.relatedInfoItem}
-          onPress={() => navigation.navigate('MedicationList', { patientId })}
-        >
-          <Text style={styles.relatedInfoText}>Medications</Text>
-          <Text style={styles.relatedInfoCount}>
-            {patient.medications?.length || 0}
-          </Text>
-        </TouchableOpacity>
+        <Card variant="outlined" style={styles.relatedInfoCard}>
+          <Text style={styles.relatedInfoTitle}>Related Information</Text>
 
-        <TouchableOpacity
-          style={styles.relatedInfoItem}
-          onPress={() => navigation.navigate('AllergyList', { patientId })}
-        >
-          <Text style={styles.relatedInfoText}>Allergies</Text>
-          <Text style={styles.relatedInfoCount}>
-            {patient.allergies?.length || 0}
-          </Text>
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.relatedInfoItem}
+            onPress={() => navigation.navigate('MedicationList', { patientId })}
+          >
+            <Text style={styles.relatedInfoText}>Medications</Text>
+            <Text style={styles.relatedInfoCount}>
+              {patient.medications?.length || 0}
+            </Text>
+          </TouchableOpacity>
 
-        <TouchableOpacity
-          style={styles.relatedInfoItem}
-          onPress={() => navigation.navigate('CarePlan', { patientId })}
-        >
-          <Text style={styles.relatedInfoText}>Care Plan</Text>
-          <Text style={styles.relatedInfoArrow}>→</Text>
-        </TouchableOpacity>
-      </Card>
+          <TouchableOpacity
+            style={styles.relatedInfoItem}
+            onPress={() => navigation.navigate('AllergyList', { patientId })}
+          >
+            <Text style={styles.relatedInfoText}>Allergies</Text>
+            <Text style={styles.relatedInfoCount}>
+              {patient.allergies?.length || 0}
+            </Text>
+          </TouchableOpacity>
 
-      <View style={styles.actionButtons}>
-        <Button
-          title="Back to Patient"
-          onPress={() => navigation.goBack()}
-          variant="primary"
-          size="medium"
-          style={styles.actionButton}
-        />
-      </View>
-    </ScrollView>
+          <TouchableOpacity
+            style={styles.relatedInfoItem}
+            onPress={() => navigation.navigate('CarePlan', { patientId })}
+          >
+            <Text style={styles.relatedInfoText}>Care Plan</Text>
+            <Text style={styles.relatedInfoArrow}>→</Text>
+          </TouchableOpacity>
+        </Card>
+
+        <View style={styles.actionButtons}>
+          <Button
+            title="Back to Patient"
+            onPress={() => navigation.goBack()}
+            variant="primary"
+            size="medium"
+            style={styles.actionButton}
+          />
+        </View>
+      </ScrollView>
+    </PhiScreenMask>
   );
 };
 
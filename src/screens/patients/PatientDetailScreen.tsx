@@ -9,11 +9,15 @@ import {
   Linking,
   Alert,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchPatientById } from '../../redux/slices/patientSlice';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../redux/store';
+import { setSelectedPatient } from '../../redux/slices/patientSlice';
+import { useGetPatientQuery, patientApi } from '../../redux/api/patientApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import PhiScreenMask from '../../components/PhiScreenMask';
 import { ROUTES } from '../../constants/appConstants';
 import { formatDate } from '../../utils/dateUtils';
 
@@ -36,23 +40,18 @@ const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({
   const patient = useSelector(
     (state: RootState) => state.patients.entities[patientId]
   );
-  const loading = useSelector((state: RootState) => state.patients.loading);
-  const error = useSelector((state: RootState) => state.patients.error);
+  const { isFetching: loading, error, refetch } = useGetPatientQuery(patientId);
+  useAbortOnUnmount(() => patientApi.util.getRunningQueryThunk('getPatient', patientId), [patientId]);
+  const fetchedAt = useSelector(
+    (state: RootState) => state.patients.lastFetchedAt[patientId]
+  );
 
   const [activeTab, setActiveTab] = useState('info');
 
   useEffect(() => {
-    loadPatientData();
+    dispatch(setSelectedPatient(patientId));
   }, [patientId]);
 
-  const loadPatientData = async () => {
-    try {
-      await dispatch(fetchPatientById(patientId));
-    } catch (error) {
-      console.error('Error loading patient details:', error);
-    }
-  };
-
   const calculateAge = (dateOfBirth: string): number => {
     const today = new Date();
     const birthDate = new Date(dateOfBirth);
@@ -370,13 +369,14 @@ const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({
     );
   }
 
-  if (error) {
+  // A cached copy is still shown when refreshing it fails
+  if (error && !patient) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
+        <Text style={styles.errorText}>{error.message}</Text>
         <Button
           title="Retry"
-          onPress={loadPatientData}
+          onPress={refetch}
           variant="primary"
           style={styles.retryButton}
         />
@@ -399,62 +399,65 @@ const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({
   }
 
   return (
-    <View style={styles.container}>
-      <ScrollView contentContainerStyle={styles.scrollContent}>
-        <View style={styles.patientHeader}>
-          <Text style={styles.patientName}>
-            {patient.firstName} {patient.lastName}
-          </Text>
-          <Text style={styles.patientAge}>
-            {calculateAge(patient.dateOfBirth)} years old • {patient.gender}
-          </Text>
-        </View>
-
-        <View style={styles.tabsContainer}>
-          <TouchableOpacity
-            style={[styles.tab, activeTab === 'info' && styles.activeTab]}
-            onPress={() => setActiveTab('info')}
-          >
-            <Text
-              style={[
-                styles.tabText,
-                activeTab === 'info' && styles.activeTabText,
-              ]}
-            >
-              Info
+    <PhiScreenMask>
+      <View style={styles.container}>
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <StaleDataBanner fetchedAt={fetchedAt} />
+          <View style={styles.patientHeader}>
+            <Text style={styles.patientName}>
+              {patient.firstName} {patient.lastName}
             </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.tab, activeTab === 'medical' && styles.activeTab]}
-            onPress={() => setActiveTab('medical')}
-          >
-            <Text
-              style={[
-                styles.tabText,
-                activeTab === 'medical' && styles.activeTabText,
-              ]}
-            >
-              Medical
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.tab, activeTab === 'care' && styles.activeTab]}
-            onPress={() => setActiveTab('care')}
-          >
-            <Text
-              style={[
-                styles.tabText,
-                activeTab === 'care' && styles.activeTabText,
-              ]}
-            >
-              Care Plan
+            <Text style={styles.patientAge}>
+              {calculateAge(patient.dateOfBirth)} years old • {patient.gender}
             </Text>
-          </TouchableOpacity>
-        </View>
+          </View>
 
-        {renderTabContent()}
-      </ScrollView>
-    </View>
+          <View style={styles.tabsContainer}>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'info' && styles.activeTab]}
+              onPress={() => setActiveTab('info')}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  activeTab === 'info' && styles.activeTabText,
+                ]}
+              >
+                Info
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'medical' && styles.activeTab]}
+              onPress={() => setActiveTab('medical')}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  activeTab === 'medical' && styles.activeTabText,
+                ]}
+              >
+                Medical
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.tab, activeTab === 'care' && styles.activeTab]}
+              onPress={() => setActiveTab('care')}
+            >
+              <Text
+                style={[
+                  styles.tabText,
+                  activeTab === 'care' && styles.activeTabText,
+                ]}
+              >
+                Care Plan
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {renderTabContent()}
+        </ScrollView>
+      </View>
+    </PhiScreenMask>
   );
 };
 
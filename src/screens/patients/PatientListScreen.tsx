@@ -9,9 +9,11 @@ import {
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchPatients, Patient } from '../../redux/slices/patientSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { Patient } from '../../redux/slices/patientSlice';
+import { useGetPatientsQuery, patientApi } from '../../redux/api/patientApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
 import { ROUTES } from '../../constants/appConstants';
 
@@ -20,34 +22,22 @@ interface PatientListScreenProps {
 }
 
 const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation }) => {
-  const dispatch = useDispatch<AppDispatch>();
-  const { entities: patients, loading, error } = useSelector(
-    (state: RootState) => state.patients
-  );
+  const patients = useSelector((state: RootState) => state.patients.entities);
+  // Records come from the slice, which keeps them for offline use
+  const { isFetching: loading, error, refetch } = useGetPatientsQuery();
+  useAbortOnUnmount(() => patientApi.util.getRunningQueryThunk('getPatients', undefined), []);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [filteredPatients, setFilteredPatients] = useState<Patient[]>([]);
 
-  useEffect(() => {
-    loadPatients();
-  }, []);
-
   useEffect(() => {
     filterPatients();
   }, [patients, searchQuery]);
 
-  const loadPatients = async () => {
-    try {
-      await dispatch(fetchPatients());
-    } catch (error) {
-      console.error('Error loading patients:', error);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadPatients();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -160,8 +150,8 @@ const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation }) =>
 
       {error ? (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadPatients}>
+          <Text style={styles.errorText}>{error.message}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={refetch}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -7,11 +7,15 @@ import {
   ActivityIndicator,
   SafeAreaView,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchSchedules } from '../../redux/slices/scheduleSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { useGetSchedulesQuery, scheduleApi } from '../../redux/api/scheduleApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
+import { selectFeatureFlags } from '../../redux/slices/environmentSlice';
 import { ROUTES } from '../../constants/appConstants';
 import Button from '../../components/Button';
+import StaleDataBanner from '../../components/StaleDataBanner';
+import { getLatestFetchTime } from '../../utils/cacheUtils';
 import CalendarView from './components/CalendarView';
 import UpcomingShifts from './components/UpcomingShifts';
 
@@ -22,30 +26,18 @@ interface ScheduleScreenProps {
 type ScheduleTab = 'calendar' | 'upcomingShifts' | 'marketplace';
 
 const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
-  const dispatch = useDispatch<AppDispatch>();
-  const { schedules, loading, error } = useSelector(
-    (state: RootState) => state.schedules
-  );
+  const { schedules, lastFetchedAt } = useSelector((state: RootState) => state.schedules);
+  const { isFetching: loading, error, refetch } = useGetSchedulesQuery();
+  useAbortOnUnmount(() => scheduleApi.util.getRunningQueryThunk('getSchedules', undefined), []);
+  const { shiftMarketplace } = useSelector(selectFeatureFlags);
   
   const [activeTab, setActiveTab] = useState<ScheduleTab>('calendar');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadScheduleData();
-  }, []);
-
-  const loadScheduleData = async () => {
-    try {
-      await dispatch(fetchSchedules());
-    } catch (error) {
-      console.error('Error loading schedule data:', error);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadScheduleData();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -71,13 +63,14 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
       );
     }
 
-    if (error) {
+    // Cached schedules are still shown when refreshing them fails
+    if (error && Object.keys(schedules).length === 0) {
       return (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{error.message}</Text>
           <Button
             title="Retry"
-            onPress={loadScheduleData}
+            onPress={refetch}
             variant="primary"
             style={styles.retryButton}
           />
@@ -169,25 +162,28 @@ const ScheduleScreen: React.FC<ScheduleScreenProps> = ({ navigation }) => {
           </Text>
         </TouchableOpacity>
 
-        <TouchableOpacity
-          style={[
-            styles.tab,
-            activeTab === 'marketplace' && styles.activeTab,
-          ]}
-          onPress={() => setActiveTab('marketplace')}
-        >
-          <Text
+        {shiftMarketplace && (
+          <TouchableOpacity
             style={[
-              styles.tabText,
-              activeTab === 'marketplace' && styles.activeTabText,
+              styles.tab,
+              activeTab === 'marketplace' && styles.activeTab,
             ]}
+            onPress={() => setActiveTab('marketplace')}
           >
-            Marketplace
-          </Text>
-        </TouchableOpacity>
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === 'marketplace' && styles.activeTabText,
+              ]}
+            >
+              Marketplace
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       <View style={styles.content}>
+        <StaleDataBanner fetchedAt={getLatestFetchTime(lastFetchedAt)} style={styles.staleBanner} />
         {renderTabContent()}
       </View>
     </SafeAreaView>
@@ -285,6 +281,11 @@ const styles = StyleSheet.create({
   redirectButton: {
     width: '100%',
   },
+  staleBanner: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 0,
+  },
 });
 
 export default ScheduleScreen;
\ No newline at end of file
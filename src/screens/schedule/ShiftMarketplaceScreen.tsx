@@ -9,9 +9,13 @@ import {
   RefreshControl,
   Alert,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchAvailableShifts, requestShift, AvailableShift } from '../../redux/slices/scheduleSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { requestShift, AvailableShift } from '../../redux/slices/scheduleSlice';
+import { getRequestState } from '../../redux/requestStatus';
+import { useGetAvailableShiftsQuery, useRequestShiftMutation, scheduleApi } from '../../redux/api/scheduleApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
+import { QUERY_CACHE } from '../../constants/appConstants';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
 import TextField from '../../components/TextField';
@@ -25,10 +29,14 @@ type SortOption = 'nearest' | 'soonest' | 'longest' | 'shortest';
 type FilterOption = 'all' | 'urgent' | 'nearby';
 
 const ShiftMarketplaceScreen: React.FC<ShiftMarketplaceScreenProps> = ({ navigation }) => {
-  const dispatch = useDispatch<AppDispatch>();
-  const { availableShifts, loading, error } = useSelector(
-    (state: RootState) => state.schedules
-  );
+  const availableShifts = useSelector((state: RootState) => state.schedules.availableShifts);
+  // Open shifts are claimed quickly, so the list is polled while the screen is open
+  const { isFetching: loading, error, refetch } = useGetAvailableShiftsQuery(undefined, {
+    pollingInterval: QUERY_CACHE.SHIFTS_POLLING_INTERVAL,
+  });
+  useAbortOnUnmount(() => scheduleApi.util.getRunningQueryThunk('getAvailableShifts', undefined), []);
+  const [submitShiftRequest] = useRequestShiftMutation();
+  const requests = useSelector((state: RootState) => state.schedules.requests);
   
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -36,25 +44,13 @@ const ShiftMarketplaceScreen: React.FC<ShiftMarketplaceScreenProps> = ({ navigat
   const [selectedFilter, setSelectedFilter] = useState<FilterOption>('all');
   const [displayedShifts, setDisplayedShifts] = useState<AvailableShift[]>([]);
 
-  useEffect(() => {
-    loadAvailableShifts();
-  }, []);
-
   useEffect(() => {
     filterAndSortShifts();
   }, [availableShifts, searchQuery, selectedSort, selectedFilter]);
 
-  const loadAvailableShifts = async () => {
-    try {
-      await dispatch(fetchAvailableShifts());
-    } catch (error) {
-      console.error('Error loading available shifts:', error);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadAvailableShifts();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -131,7 +127,7 @@ const ShiftMarketplaceScreen: React.FC<ShiftMarketplaceScreenProps> = ({ navigat
 
   const handleRequestShift = async (shiftId: string) => {
     try {
-      await dispatch(requestShift(shiftId)).unwrap();
+      await submitShiftRequest(shiftId).unwrap();
       Alert.alert(
         'Success',
         'Your shift request has been submitted. You will be notified when it is approved.',
@@ -227,6 +223,7 @@ const ShiftMarketplaceScreen: React.FC<ShiftMarketplaceScreenProps> = ({ navigat
             onPress={() => handleRequestShift(item.id)}
             variant="primary"
             size="medium"
+            isLoading={getRequestState(requests, requestShift, item.id).status === 'pending'}
             style={styles.requestButton}
           />
           <Button
@@ -292,10 +289,10 @@ const ShiftMarketplaceScreen: React.FC<ShiftMarketplaceScreenProps> = ({ navigat
       
       {error ? (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
+          <Text style={styles.errorText}>{error.message}</Text>
           <Button
             title="Retry"
-            onPress={loadAvailableShifts}
+            onPress={refetch}
             variant="primary"
             style={styles.retryButton}
           />
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useDispatch, useSelector } from 'react-redux';
+import { BiometryType } from 'react-native-biometrics';
+import { AppDispatch, RootState } from '../../redux/store';
+import { setBiometricsEnabled } from '../../redux/slices/appLockSlice';
+import { appLockService, isValidPin } from '../../services/appLockService';
+import { APP_LOCK, TIMEOUTS } from '../../constants/appConstants';
+import Card from '../../components/Card';
+import TextField from '../../components/TextField';
+import Button from '../../components/Button';
+
+const BIOMETRY_LABELS: Record<BiometryType, string> = {
+  TouchID: 'Touch ID',
+  FaceID: 'Face ID',
+  Biometrics: 'Fingerprint or face unlock',
+};
+
+const SecuritySettingsScreen: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { isEnabled, biometricsEnabled } = useSelector((state: RootState) => state.appLock);
+
+  const [biometryType, setBiometryType] = useState<BiometryType | null>(null);
+  // The PIN form is shown to enable the lock or change the PIN
+  const [isEditingPin, setIsEditingPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [useBiometrics, setUseBiometrics] = useState(true);
+  const [errors, setErrors] = useState<{ pin?: string; confirmPin?: string }>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    appLockService.getBiometryType().then(setBiometryType);
+  }, []);
+
+  const resetPinForm = () => {
+    setIsEditingPin(false);
+    setPin('');
+    setConfirmPin('');
+    setErrors({});
+  };
+
+  const validatePin = () => {
+    const newErrors: { pin?: string; confirmPin?: string } = {};
+
+    if (!isValidPin(pin)) {
+      newErrors.pin = `Enter ${APP_LOCK.PIN_MIN_LENGTH} to ${APP_LOCK.PIN_MAX_LENGTH} digits`;
+    } else if (pin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSavePin = async () => {
+    if (!validatePin()) return;
+
+    setIsSaving(true);
+    try {
+      // Changing the PIN keeps the current biometrics choice
+      await appLockService.setPin(pin, isEnabled ? biometricsEnabled : useBiometrics && !!biometryType);
+      resetPinForm();
+    } catch (error: any) {
+      Alert.alert('Could not save PIN', error.message || 'Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = () => {
+    Alert.alert(
+      'Turn off app lock?',
+      'Anyone with your phone will be able to open the app while you are signed in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn off',
+          style: 'destructive',
+          onPress: async () => {
+            await appLockService.disable();
+            resetPinForm();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderPinForm = () => (
+    <>
+      <TextField
+        label={isEnabled ? 'New PIN' : 'PIN'}
+        value={pin}
+        onChangeText={(value) => setPin(value.replace(/\D/g, ''))}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={APP_LOCK.PIN_MAX_LENGTH}
+        error={errors.pin}
+        fullWidth
+      />
+      <TextField
+        label="Confirm PIN"
+        value={confirmPin}
+        onChangeText={(value) => setConfirmPin(value.replace(/\D/g, ''))}
+        keyboardType="number-pad"
+        secureTextEntry
+        maxLength={APP_LOCK.PIN_MAX_LENGTH}
+        error={errors.confirmPin}
+        fullWidth
+      />
+      {!isEnabled && biometryType && (
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Unlock with {BIOMETRY_LABELS[biometryType]}</Text>
+          <Switch value={useBiometrics} onValueChange={setUseBiometrics} />
+        </View>
+      )}
+      <Button
+        title={isEnabled ? 'Change PIN' : 'Turn on app lock'}
+        onPress={handleSavePin}
+        isLoading={isSaving}
+        disabled={isSaving}
+        fullWidth
+        style={styles.formButton}
+      />
+      {isEnabled && (
+        <Button title="Cancel" onPress={resetPinForm} variant="text" fullWidth />
+      )}
+    </>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Card style={styles.card}>
+        <Text style={styles.sectionTitle}>App lock</Text>
+        <Text style={styles.description}>
+          Lock the app after {Math.round(TIMEOUTS.INACTIVITY / 60000)} minutes without use and
+          unlock it with {biometryType ? `${BIOMETRY_LABELS[biometryType]} or ` : ''}a PIN instead
+          of your password. After {APP_LOCK.MAX_FAILED_ATTEMPTS} incorrect PINs, the PIN is blocked
+          for {Math.round(APP_LOCK.LOCKOUT_DURATION / 60000)} minutes.
+        </Text>
+
+        {!isEnabled || isEditingPin ? renderPinForm() : (
+          <>
+            {biometryType && (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Unlock with {BIOMETRY_LABELS[biometryType]}</Text>
+                <Switch
+                  value={biometricsEnabled}
+                  onValueChange={(value) => {
+                    dispatch(setBiometricsEnabled(value));
+                  }}
+                />
+              </View>
+            )}
+            <Button
+              title="Change PIN"
+              onPress={() => setIsEditingPin(true)}
+              variant="outline"
+              fullWidth
+              style={styles.formButton}
+            />
+            <Button
+              title="Turn off app lock"
+              onPress={handleDisable}
+              variant="danger"
+              fullWidth
+              style={styles.formButton}
+            />
+          </>
+        )}
+      </Card>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  formButton: {
+    marginTop: 12,
+  },
+});
+
+export default SecuritySettingsScreen;
@@ -0,0 +1,220 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+import { StackScreenProps } from '@react-navigation/stack';
+import { RootState } from '../../redux/store';
+import { selectConflicts, SyncConflict, ConflictResolution } from '../../redux/slices/offlineSlice';
+import { VisitDocument } from '../../redux/slices/visitSlice';
+import { syncEngine } from '../../services/syncEngine';
+import Card from '../../components/Card';
+import Button from '../../components/Button';
+import { formatDate, formatTime } from '../../utils/dateUtils';
+import { getMutationLabel } from '../../utils/syncUtils';
+import { ROUTES } from '../../constants/appConstants';
+import { RootStackParamList } from '../../navigation/types';
+
+type ConflictResolutionScreenProps = StackScreenProps<RootStackParamList, typeof ROUTES.SYNC.CONFLICTS>;
+
+const ConflictResolutionScreen: React.FC<ConflictResolutionScreenProps> = ({ navigation, route }) => {
+  const visitId = route.params?.visitId;
+
+  const conflicts = useSelector((state: RootState) =>
+    selectConflicts(state).filter(conflict => !visitId || conflict.entityId === visitId)
+  );
+
+  const handleResolve = (conflict: SyncConflict, resolution: ConflictResolution) => {
+    syncEngine.resolveConflict(conflict.id, resolution);
+    if (conflicts.length === 1) {
+      navigation.goBack();
+    }
+  };
+
+  const renderDocuments = (documents: VisitDocument[] = []) => {
+    if (documents.length === 0) {
+      return <Text style={styles.emptyText}>No documentation</Text>;
+    }
+
+    return documents.map((doc, index) => (
+      <Text key={doc.clientId || doc.id || index} style={styles.valueText}>
+        {doc.type} - {formatDate(new Date(doc.createdAt))}
+        {doc.isPending ? ' (pending)' : ''}
+      </Text>
+    ));
+  };
+
+  const renderVersion = (title: string, visit: any) => (
+    <View style={styles.versionColumn}>
+      <Text style={styles.versionTitle}>{title}</Text>
+
+      <Text style={styles.fieldLabel}>Status</Text>
+      <Text style={styles.valueText}>{visit?.status || '-'}</Text>
+
+      <Text style={styles.fieldLabel}>Notes</Text>
+      {visit?.notes ? (
+        <Text style={styles.valueText}>{visit.notes}</Text>
+      ) : (
+        <Text style={styles.emptyText}>No notes</Text>
+      )}
+
+      <Text style={styles.fieldLabel}>Documentation</Text>
+      {renderDocuments(visit?.documents)}
+    </View>
+  );
+
+  if (conflicts.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyTitle}>No conflicts</Text>
+        <Text style={styles.emptyText}>All your offline changes are in sync with the server.</Text>
+        <Button
+          title="Go Back"
+          onPress={() => navigation.goBack()}
+          variant="primary"
+          style={styles.backButton}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <Text style={styles.introText}>
+        These changes were made offline while the visit was also updated by someone else.
+        Choose which version to keep.
+      </Text>
+
+      {conflicts.map(conflict => (
+        <Card key={conflict.id} variant="outlined" style={styles.conflictCard}>
+          <Text style={styles.conflictTitle}>
+            {getMutationLabel(conflict.mutation.type)}
+          </Text>
+          <Text style={styles.conflictDate}>
+            Changed offline on {formatDate(new Date(conflict.mutation.timestamp))} at{' '}
+            {formatTime(new Date(conflict.mutation.timestamp))}
+          </Text>
+
+          <View style={styles.versionsRow}>
+            {renderVersion('My version', conflict.localCopy)}
+            {renderVersion('Server version', conflict.serverCopy)}
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              title="Keep Mine"
+              onPress={() => handleResolve(conflict, 'mine')}
+              variant="primary"
+              size="small"
+              style={styles.actionButton}
+            />
+            <Button
+              title="Take Server"
+              onPress={() => handleResolve(conflict, 'server')}
+              variant="outline"
+              size="small"
+              style={styles.actionButton}
+            />
+            <Button
+              title="Merge"
+              onPress={() => handleResolve(conflict, 'merge')}
+              variant="secondary"
+              size="small"
+              style={styles.actionButton}
+            />
+          </View>
+        </Card>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+  },
+  conflictCard: {
+    marginBottom: 16,
+  },
+  conflictTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  conflictDate: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  versionsRow: {
+    flexDirection: 'row',
+  },
+  versionColumn: {
+    flex: 1,
+    paddingRight: 8,
+  },
+  versionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#3F51B5',
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#757575',
+    marginTop: 8,
+    marginBottom: 2,
+  },
+  valueText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9E9E9E',
+    fontStyle: 'italic',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#F5F7FA',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  backButton: {
+    width: 200,
+    marginTop: 16,
+  },
+});
+
+export default ConflictResolutionScreen;
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import {
+  PendingMutation,
+  QuarantinedMutation,
+  SyncConflict,
+  SyncedMutation,
+  selectConflicts,
+  selectDeadLetters,
+  selectPendingMutations,
+  selectRecentlySynced,
+  selectSyncStatus,
+} from '../../redux/slices/offlineSlice';
+import { syncEngine } from '../../services/syncEngine';
+import { syncScheduler } from '../../services/syncScheduler';
+import { ROUTES } from '../../constants/appConstants';
+import Button from '../../components/Button';
+import { describeMutation, formatSyncTime } from '../../utils/syncUtils';
+
+interface SyncCenterScreenProps {
+  navigation: any;
+}
+
+type SyncItem =
+  | { status: 'sending' | 'pending'; mutation: PendingMutation }
+  | { status: 'failed'; mutation: QuarantinedMutation }
+  | { status: 'conflict'; mutation: PendingMutation; conflict: SyncConflict }
+  | { status: 'synced'; mutation: SyncedMutation };
+
+const SyncCenterScreen: React.FC<SyncCenterScreenProps> = ({ navigation }) => {
+  const pendingMutations = useSelector(selectPendingMutations);
+  const deadLetters = useSelector(selectDeadLetters);
+  const conflicts = useSelector(selectConflicts);
+  const recentlySynced = useSelector(selectRecentlySynced);
+  const { isOnline, isSyncing, lastSyncTimestamp } = useSelector(selectSyncStatus);
+  const activeMutationId = useSelector((state: RootState) => state.offline.activeMutationId);
+  const visits = useSelector((state: RootState) => state.visits.entities);
+  const patients = useSelector((state: RootState) => state.patients.entities);
+
+  const [syncing, setSyncing] = useState(false);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    await syncScheduler.syncNow();
+    setSyncing(false);
+  };
+
+  const confirmDiscard = (description: string, onDiscard: () => void) => {
+    Alert.alert(
+      'Discard Change',
+      `"${description}" will not be sent and will be removed from this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onDiscard },
+      ]
+    );
+  };
+
+  const handleDiscardPending = (mutation: PendingMutation, description: string) => {
+    confirmDiscard(description, () => {
+      if (!syncEngine.discardPending(mutation.id)) {
+        Alert.alert('Sending', 'This change is being sent right now and can no longer be discarded.');
+      }
+    });
+  };
+
+  const sections = [
+    {
+      title: 'Sending',
+      data: pendingMutations
+        .filter(mutation => mutation.id === activeMutationId)
+        .map((mutation): SyncItem => ({ status: 'sending', mutation })),
+    },
+    {
+      title: 'Waiting to sync',
+      data: pendingMutations
+        .filter(mutation => mutation.id !== activeMutationId)
+        .map((mutation): SyncItem => ({ status: 'pending', mutation })),
+    },
+    {
+      title: 'Failed',
+      data: deadLetters.map((mutation): SyncItem => ({ status: 'failed', mutation })),
+    },
+    {
+      title: 'Needs review',
+      data: conflicts.map((conflict): SyncItem => ({
+        status: 'conflict',
+        mutation: conflict.mutation,
+        conflict,
+      })),
+    },
+    {
+      title: 'Recently synced',
+      data: recentlySynced.map((mutation): SyncItem => ({ status: 'synced', mutation })),
+    },
+  ].filter(section => section.data.length > 0);
+
+  const renderActions = (item: SyncItem, description: string) => {
+    switch (item.status) {
+      case 'pending':
+        return (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              disabled={!isOnline}
+              onPress={() => syncEngine.retryPendingNow(item.mutation.id)}
+            >
+              <Text style={[styles.actionText, !isOnline && styles.actionDisabled]}>Retry now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDiscardPending(item.mutation, description)}
+            >
+              <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'failed':
+        return (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => syncEngine.retryDeadLetter(item.mutation.id)}
+            >
+              <Text style={styles.actionText}>Retry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => confirmDiscard(description, () => syncEngine.discardDeadLetter(item.mutation.id))}
+            >
+              <Text style={[styles.actionText, styles.discardText]}>Discard</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'conflict':
+        return (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => navigation.navigate(ROUTES.SYNC.CONFLICTS, { visitId: item.conflict.entityId })}
+          >
+            <Text style={styles.actionText}>Resolve</Text>
+          </TouchableOpacity>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderDetails = (item: SyncItem) => {
+    switch (item.status) {
+      case 'sending':
+        return <Text style={styles.detailText}>Sending now...</Text>;
+      case 'pending':
+        return (
+          <>
+            {item.mutation.lastError && (
+              <Text style={styles.errorText}>
+                Attempt {item.mutation.attempts} failed: {item.mutation.lastError}
+              </Text>
+            )}
+            {item.mutation.nextRetryAt && (
+              <Text style={styles.detailText}>
+                Next attempt {formatSyncTime(item.mutation.nextRetryAt)}
+              </Text>
+            )}
+          </>
+        );
+      case 'failed':
+        return (
+          <Text style={styles.errorText}>
+            {item.mutation.status ? `${item.mutation.status}: ` : ''}{item.mutation.lastError}
+          </Text>
+        );
+      case 'conflict':
+        return (
+          <Text style={styles.errorText}>
+            Changed on the server {formatSyncTime(item.conflict.detectedAt)}
+          </Text>
+        );
+      case 'synced':
+        return (
+          <Text style={styles.successText}>Synced {formatSyncTime(item.mutation.syncedAt)}</Text>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderItem = ({ item }: { item: SyncItem }) => {
+    const description = describeMutation(item.mutation, visits, patients);
+
+    return (
+      <View style={styles.item}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemTitle}>{description}</Text>
+          <Text style={styles.detailText}>Saved {formatSyncTime(item.mutation.timestamp)}</Text>
+          {renderDetails(item)}
+        </View>
+        <View style={styles.itemActions}>{renderActions(item, description)}</View>
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerStatus}>
+        {!isOnline
+          ? 'You are offline. Changes will sync when you reconnect.'
+          : lastSyncTimestamp
+            ? `Last synced ${formatSyncTime(lastSyncTimestamp)}`
+            : 'Not synced yet'}
+      </Text>
+      <Button
+        title="Sync Now"
+        onPress={handleSyncNow}
+        variant="primary"
+        size="small"
+        isLoading={syncing || isSyncing}
+        disabled={!isOnline || syncing || isSyncing}
+      />
+    </View>
+  );
+
+  const renderEmpty = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyText}>Everything is up to date.</Text>
+    </View>
+  );
+
+  return (
+    <SectionList
+      style={styles.container}
+      contentContainerStyle={styles.contentContainer}
+      sections={sections}
+      keyExtractor={(item) => item.mutation.id}
+      renderItem={renderItem}
+      renderSectionHeader={({ section }) => (
+        <Text style={styles.sectionTitle}>
+          {section.title} ({section.data.length})
+        </Text>
+      )}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={renderEmpty}
+      stickySectionHeadersEnabled={false}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F7FA',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  headerStatus: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  detailText: {
+    fontSize: 12,
+    color: '#757575',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#F44336',
+    marginTop: 2,
+  },
+  successText: {
+    fontSize: 12,
+    color: '#4CAF50',
+    marginTop: 2,
+  },
+  itemActions: {
+    marginLeft: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#3F51B5',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  actionDisabled: {
+    color: '#9E9E9E',
+  },
+  discardText: {
+    color: '#F44336',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#757575',
+  },
+});
+
+export default SyncCenterScreen;
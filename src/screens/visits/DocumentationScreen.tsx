@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,13 +8,22 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchVisitById, addVisitDocument, Visit } from '../../redux/slices/visitSlice';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../redux/store';
+import { Visit } from '../../redux/slices/visitSlice';
+import {
+  DocumentationDraft,
+  documentationDraftDiscarded,
+  documentationDraftSaved,
+  selectDocumentationDraft,
+} from '../../redux/slices/draftSlice';
+import { useAddVisitDocumentMutation, useGetVisitQuery, visitApi } from '../../redux/api/visitApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
-import { ROUTES, DOCUMENTATION_TYPES } from '../../constants/appConstants';
+import { ROUTES, DOCUMENTATION_TYPES, SESSION } from '../../constants/appConstants';
 import { formatDate, formatTime } from '../../utils/dateUtils';
+import { generateId } from '../../utils/idUtils';
 
 // Import documentation form components
 import TextDocumentationForm from './components/TextDocumentationForm';
@@ -41,40 +50,82 @@ const DocumentationScreen: React.FC<DocumentationScreenProps> = ({
 }) => {
   const { visitId } = route.params;
   const dispatch = useDispatch<AppDispatch>();
-
+  const userId = useSelector((state: RootState) => state.auth.user?.id);
+  const draft = useSelector((state: RootState) => selectDocumentationDraft(state, visitId));
   const visit = useSelector((state: RootState) => 
     state.visits.entities[visitId]
   );
   const patient = useSelector((state: RootState) => 
     visit ? state.patients.entities[visit.patientId] : null
   );
-  const loading = useSelector((state: RootState) => state.visits.loading);
+  const { isFetching: loading } = useGetVisitQuery(visitId);
+  useAbortOnUnmount(() => visitApi.util.getRunningQueryThunk('getVisit', visitId), [visitId]);
+  const [addDocument] = useAddVisitDocumentMutation();
 
-  const [selectedType, setSelectedType] = useState<DocumentationType>('list');
+  // Reopen an unfinished note or form, e.g. after signing back in
+  const [selectedType, setSelectedType] = useState<DocumentationType>(
+    () => (draft?.type as DocumentationType) || 'list'
+  );
   const [isCompleting, setIsCompleting] = useState(false);
+  const pendingDraft = useRef<Omit<DocumentationDraft, 'updatedAt'> | null>(null);
+  const draftTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  useEffect(() => {
-    loadVisitData();
-  }, [visitId]);
+  const cancelDraftSave = () => {
+    if (draftTimer.current) {
+      clearTimeout(draftTimer.current);
+      draftTimer.current = null;
+    }
+  };
 
-  const loadVisitData = async () => {
-    try {
-      await dispatch(fetchVisitById(visitId));
-    } catch (error) {
-      console.error('Error loading visit data:', error);
+  const flushDraft = () => {
+    cancelDraftSave();
+    if (pendingDraft.current) {
+      dispatch(documentationDraftSaved(pendingDraft.current));
+      pendingDraft.current = null;
     }
   };
 
+  // Save the draft once typing pauses
+  const saveDraft = (content: Pick<DocumentationDraft, 'type' | 'text' | 'form'>) => {
+    if (!userId) return;
+    pendingDraft.current = { visitId, userId, ...content };
+    cancelDraftSave();
+    draftTimer.current = setTimeout(flushDraft, SESSION.DRAFT_SAVE_DELAY);
+  };
+
+  const discardDraft = () => {
+    cancelDraftSave();
+    pendingDraft.current = null;
+    dispatch(documentationDraftDiscarded(visitId));
+  };
+
+  const handleCancelDraft = () => {
+    discardDraft();
+    setSelectedType('list');
+  };
+
+  // Keep what was typed just before leaving the screen
+  useEffect(() => flushDraft, []);
+
   const handleAddDocument = async (documentData: { type: string; content: string }) => {
     try {
       const document = {
         ...documentData,
         createdAt: Date.now(),
+        clientId: generateId(),
       };
 
-      await dispatch(addVisitDocument({ visitId, document }));
+      const result = await addDocument({ visitId, document });
       setSelectedType('list');
-      Alert.alert('Success', 'Documentation added successfully');
+      if ('error' in result) {
+        Alert.alert('Error', 'Failed to add documentation. Please try again.');
+      } else if (result.data.queued) {
+        discardDraft();
+        Alert.alert('Saved Offline', 'Documentation will be uploaded when you are back online');
+      } else {
+        discardDraft();
+        Alert.alert('Success', 'Documentation added successfully');
+      }
     } catch (error) {
       console.error('Error adding documentation:', error);
       Alert.alert('Error', 'Failed to add documentation. Please try again.');
@@ -118,7 +169,9 @@ const DocumentationScreen: React.FC<DocumentationScreenProps> = ({
         return (
           <TextDocumentationForm
             onSubmit={handleAddDocument}
-            onCancel={() => setSelectedType('list')}
+            onCancel={handleCancelDraft}
+            initialValue={draft?.text}
+            onChange={(text) => saveDraft({ type: DOCUMENTATION_TYPES.TEXT, text })}
           />
         );
       case 'image':
@@ -139,8 +192,10 @@ const DocumentationScreen: React.FC<DocumentationScreenProps> = ({
         return (
           <FormDocumentationForm
             onSubmit={handleAddDocument}
-            onCancel={() => setSelectedType('list')}
+            onCancel={handleCancelDraft}
             patientId={visit?.patientId}
+            initialDraft={draft?.form}
+            onDraftChange={(form) => saveDraft({ type: DOCUMENTATION_TYPES.FORM, form })}
           />
         );
       case 'signature':
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -16,8 +16,11 @@ import {
   clockOut, 
   setActiveVisit, 
   clearActiveVisit,
+  selectVisitRequest,
   VisitLocation
 } from '../../redux/slices/visitSlice';
+import { useClockInMutation, useClockOutMutation } from '../../redux/api/visitApi';
+import { selectEnvironment } from '../../redux/slices/environmentSlice';
 import { ROUTES, VISIT_STATUS } from '../../constants/appConstants';
 import Button from '../../components/Button';
 import Card from '../../components/Card';
@@ -43,13 +46,19 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
   const visit = useSelector((state: RootState) => 
     state.visits.entities[visitId]
   );
-  const loading = useSelector((state: RootState) => state.visits.loading);
+  const loading = useSelector((state: RootState) =>
+    selectVisitRequest(state, mode === 'clockIn' ? clockIn : clockOut, visitId).status === 'pending'
+  );
   const isOnline = useSelector((state: RootState) => state.offline.isOnline);
+  const [submitClockIn] = useClockInMutation();
+  const [submitClockOut] = useClockOutMutation();
 
   const [location, setLocation] = useState<VisitLocation | null>(null);
   const [notes, setNotes] = useState('');
   const [locationError, setLocationError] = useState<string | null>(null);
   const [isLocationVerified, setIsLocationVerified] = useState(false);
+  // The optimistic status change after submitting must not trigger the checks below
+  const hasSubmitted = useRef(false);
 
   // Get the patient's location coordinates from the visit data
   const patientLocation = visit?.patientId ? {
@@ -58,11 +67,13 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
   } : null;
 
   // Required accuracy (how close to the patient's location the caregiver needs to be)
-  // This would be configurable in a real app
-  const REQUIRED_LOCATION_ACCURACY_METERS = 50;
-  const REQUIRED_PROXIMITY_METERS = 1000; // 1 km distance allowed from patient's location
+  const { requiredAccuracyMeters, requiredProximityMeters } = useSelector(selectEnvironment).evv;
 
   useEffect(() => {
+    if (hasSubmitted.current) {
+      return;
+    }
+
     // Verify if we have a visit and it's in the correct state for the action
     if (!visit) {
       Alert.alert('Error', 'Visit not found');
@@ -90,13 +101,13 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
           patientLocation.longitude
         );
 
-        const isWithinRange = distance <= REQUIRED_PROXIMITY_METERS;
+        const isWithinRange = distance <= requiredProximityMeters;
         setIsLocationVerified(isWithinRange);
 
         if (!isWithinRange) {
           setLocationError(
             `You seem to be too far from the patient's location (${Math.round(distance)}m away). 
-            You need to be within ${REQUIRED_PROXIMITY_METERS}m.`
+            You need to be within ${requiredProximityMeters}m.`
           );
         } else {
           setLocationError(null);
@@ -106,7 +117,7 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
         setLocationError('Error verifying your location. Please try again.');
       }
     }
-  }, [location, patientLocation]);
+  }, [location, patientLocation, requiredProximityMeters]);
 
   const handleLocationSelected = (selectedLocation: {
     latitude: number;
@@ -128,11 +139,14 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
     }
 
     try {
-      await dispatch(clockIn({ visitId, location })).unwrap();
+      hasSubmitted.current = true;
+      const { queued } = await submitClockIn({ visitId, location }).unwrap();
       dispatch(setActiveVisit(visitId));
       Alert.alert(
-        'Success', 
-        'You have successfully clocked in for this visit',
+        queued ? 'Saved Offline' : 'Success', 
+        queued
+          ? 'Your clock in was saved and will be synchronized when you are back online'
+          : 'You have successfully clocked in for this visit',
         [
           { 
             text: 'OK', 
@@ -141,6 +155,7 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
         ]
       );
     } catch (error: any) {
+      hasSubmitted.current = false;
       console.error('Clock in error:', error);
       Alert.alert('Clock In Failed', error.message || 'Please try again');
     }
@@ -153,11 +168,14 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
     }
 
     try {
-      await dispatch(clockOut({ visitId, location })).unwrap();
+      hasSubmitted.current = true;
+      const { queued } = await submitClockOut({ visitId, location, notes: notes.trim() || undefined }).unwrap();
       dispatch(clearActiveVisit());
       Alert.alert(
-        'Success', 
-        'You have successfully clocked out from this visit',
+        queued ? 'Saved Offline' : 'Success', 
+        queued
+          ? 'Your clock out was saved and will be synchronized when you are back online'
+          : 'You have successfully clocked out from this visit',
         [
           { 
             text: 'OK', 
@@ -166,6 +184,7 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
         ]
       );
     } catch (error: any) {
+      hasSubmitted.current = false;
       console.error('Clock out error:', error);
       Alert.alert('Clock Out Failed', error.message || 'Please try again');
     }
@@ -207,7 +226,7 @@ const EVVScreen: React.FC<EVVScreenProps> = ({ navigation, route }) => {
 
           <LocationPicker
             onLocationSelected={handleLocationSelected}
-            requiredAccuracy={REQUIRED_LOCATION_ACCURACY_METERS}
+            requiredAccuracy={requiredAccuracyMeters}
             error={locationError || undefined}
           />
           
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -8,13 +8,15 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchVisitById } from '../../redux/slices/visitSlice';
-import { fetchPatientById } from '../../redux/slices/patientSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { useGetVisitQuery, visitApi } from '../../redux/api/visitApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
+import { useGetPatientQuery, patientApi } from '../../redux/api/patientApi';
 import { ROUTES, VISIT_STATUS } from '../../constants/appConstants';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
+import StaleDataBanner from '../../components/StaleDataBanner';
 import { formatDate, formatTime, calculateDuration } from '../../utils/dateUtils';
 
 interface VisitDetailScreenProps {
@@ -28,51 +30,43 @@ interface VisitDetailScreenProps {
 
 const VisitDetailScreen: React.FC<VisitDetailScreenProps> = ({ navigation, route }) => {
   const { visitId } = route.params;
-  const dispatch = useDispatch<AppDispatch>();
-
   const visit = useSelector((state: RootState) => 
     state.visits.entities[visitId]
   );
   const patient = useSelector((state: RootState) => 
     visit ? state.patients.entities[visit.patientId] : null
   );
-  const loading = useSelector((state: RootState) => state.visits.loading);
-  const error = useSelector((state: RootState) => state.visits.error);
-
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    loadVisitData();
-  }, [visitId]);
+  const { isFetching, error, refetch } = useGetVisitQuery(visitId);
+  useAbortOnUnmount(() => visitApi.util.getRunningQueryThunk('getVisit', visitId), [visitId]);
+  // The patient is fetched once the visit says who it is
+  useGetPatientQuery(visit?.patientId ?? '', { skip: !visit });
+  useAbortOnUnmount(
+    () => patientApi.util.getRunningQueryThunk('getPatient', visit?.patientId ?? ''),
+    [visit?.patientId]
+  );
+  const fetchedAt = useSelector((state: RootState) => state.visits.lastFetchedAt[visitId]);
+  const conflictCount = useSelector((state: RootState) =>
+    state.offline.conflicts.filter(conflict => conflict.entityId === visitId).length
+  );
 
-  const loadVisitData = async () => {
-    setIsLoading(true);
-    try {
-      await dispatch(fetchVisitById(visitId)).unwrap();
-      
-      // Once we have the visit, fetch patient details if needed
-      if (visit && !patient) {
-        await dispatch(fetchPatientById(visit.patientId)).unwrap();
-      }
-    } catch (error) {
-      console.error('Error loading visit details:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const isLoading = isFetching && !visit;
 
   const handleClockIn = () => {
-    navigation.navigate(ROUTES.VISITS.CLOCK_IN, { visitId });
+    navigation.navigate(ROUTES.VISITS.CLOCK_IN, { visitId, mode: 'clockIn' });
   };
 
   const handleClockOut = () => {
-    navigation.navigate(ROUTES.VISITS.CLOCK_OUT, { visitId });
+    navigation.navigate(ROUTES.VISITS.CLOCK_OUT, { visitId, mode: 'clockOut' });
   };
 
   const handleAddDocumentation = () => {
     navigation.navigate(ROUTES.VISITS.DOCUMENTATION, { visitId });
   };
 
+  const handleResolveConflicts = () => {
+    navigation.navigate(ROUTES.SYNC.CONFLICTS, { visitId });
+  };
+
   const handleNavigateToPatient = () => {
     if (visit) {
       navigation.navigate(ROUTES.PATIENTS.PATIENT_DETAILS, { patientId: visit.patientId });
@@ -162,13 +156,14 @@ const VisitDetailScreen: React.FC<VisitDetailScreenProps> = ({ navigation, route
     );
   }
 
-  if (error) {
+  // A cached copy is still shown when refreshing it fails
+  if (error && !visit) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
+        <Text style={styles.errorText}>{error.message}</Text>
         <Button 
           title="Retry" 
-          onPress={loadVisitData} 
+          onPress={refetch} 
           variant="primary"
           style={styles.retryButton}
         />
@@ -192,6 +187,18 @@ const VisitDetailScreen: React.FC<VisitDetailScreenProps> = ({ navigation, route
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+      <StaleDataBanner fetchedAt={fetchedAt} />
+
+      {/* Sync Conflict Banner */}
+      {conflictCount > 0 && (
+        <TouchableOpacity style={styles.conflictBanner} onPress={handleResolveConflicts}>
+          <Text style={styles.conflictText}>
+            {conflictCount} offline {conflictCount === 1 ? 'change conflicts' : 'changes conflict'} with
+            updates on the server. Tap to review.
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Visit Status Card */}
       <Card variant="filled" style={[styles.statusCard, { backgroundColor: `${getStatusColor()}15` }]}>
         <View style={styles.statusHeader}>
@@ -200,6 +207,10 @@ const VisitDetailScreen: React.FC<VisitDetailScreenProps> = ({ navigation, route
             <Text style={styles.statusText}>{visit.status}</Text>
           </View>
         </View>
+
+        {visit.isOffline && (
+          <Text style={styles.offlineText}>Saved offline, waiting to sync</Text>
+        )}
         
         <Text style={styles.patientName}>{visit.patientId}</Text>
         <Text style={styles.visitDate}>{formatDate(new Date(visit.scheduledStartTime))}</Text>
@@ -396,6 +407,25 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     textTransform: 'uppercase',
   },
+  conflictBanner: {
+    backgroundColor: '#FFEBEE',
+    borderColor: '#F44336',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  conflictText: {
+    fontSize: 14,
+    color: '#C62828',
+    fontWeight: '600',
+  },
+  offlineText: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
   patientName: {
     fontSize: 20,
     fontWeight: '600',
@@ -8,12 +8,16 @@ import {
   RefreshControl,
   ActivityIndicator,
 } from 'react-native';
-import { useSelector, useDispatch } from 'react-redux';
-import { RootState, AppDispatch } from '../../redux/store';
-import { fetchVisits, Visit } from '../../redux/slices/visitSlice';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../redux/store';
+import { Visit } from '../../redux/slices/visitSlice';
+import { useGetVisitsQuery, visitApi } from '../../redux/api/visitApi';
+import { useAbortOnUnmount } from '../../hooks/useAbortOnUnmount';
 import Card from '../../components/Card';
+import StaleDataBanner from '../../components/StaleDataBanner';
 import { ROUTES, VISIT_STATUS } from '../../constants/appConstants';
 import { formatDate, formatTime } from '../../utils/dateUtils';
+import { getLatestFetchTime } from '../../utils/cacheUtils';
 
 interface VisitListScreenProps {
   navigation: any;
@@ -40,32 +44,22 @@ const FilterButton = ({
 );
 
 const VisitListScreen: React.FC<VisitListScreenProps> = ({ navigation }) => {
-  const dispatch = useDispatch<AppDispatch>();
-  const { entities: visits, loading, error } = useSelector((state: RootState) => state.visits);
+  const { entities: visits, lastFetchedAt } = useSelector((state: RootState) => state.visits);
+  // Visits are read from the slice, which merges in changes not synced yet
+  const { isFetching: loading, error, refetch } = useGetVisitsQuery();
+  useAbortOnUnmount(() => visitApi.util.getRunningQueryThunk('getVisits', undefined), []);
 
   const [refreshing, setRefreshing] = useState(false);
   const [activeFilter, setActiveFilter] = useState<string>('upcoming');
   const [filteredVisits, setFilteredVisits] = useState<Visit[]>([]);
 
-  useEffect(() => {
-    loadVisits();
-  }, []);
-
   useEffect(() => {
     filterVisits();
   }, [visits, activeFilter]);
 
-  const loadVisits = async () => {
-    try {
-      await dispatch(fetchVisits());
-    } catch (error) {
-      console.error('Error loading visits:', error);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadVisits();
+    await refetch();
     setRefreshing(false);
   };
 
@@ -244,10 +238,13 @@ const VisitListScreen: React.FC<VisitListScreenProps> = ({ navigation }) => {
         />
       </View>
 
-      {error ? (
+      <StaleDataBanner fetchedAt={getLatestFetchTime(lastFetchedAt)} style={styles.staleBanner} />
+
+      {/* Cached visits are still shown when refreshing them fails */}
+      {error && Object.keys(visits).length === 0 ? (
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>{error}</Text>
-          <TouchableOpacity style={styles.retryButton} onPress={loadVisits}>
+          <Text style={styles.errorText}>{error.message}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={refetch}>
             <Text style={styles.retryButtonText}>Retry</Text>
           </TouchableOpacity>
         </View>
@@ -448,6 +445,11 @@ const styles = StyleSheet.create({
     color: '#757575',
     textAlign: 'center',
   },
+  staleBanner: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 0,
+  },
 });
 
 export default VisitListScreen;
\ No newline at end of file
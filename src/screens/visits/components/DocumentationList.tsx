@@ -6,6 +6,8 @@ import {
   TouchableOpacity,
   FlatList,
 } from 'react-native';
+import { useSelector } from 'react-redux';
+import { RootState } from '../../../redux/store';
 import { VisitDocument } from '../../../redux/slices/visitSlice';
 import Card from '../../../components/Card';
 import Button from '../../../components/Button';
@@ -29,6 +31,8 @@ const DocumentationList: React.FC<DocumentationListProps> = ({
   documents,
   onSelectDocumentType,
 }) => {
+  const uploadSessions = useSelector((state: RootState) => state.uploads.sessions);
+
   const documentTypes: DocumentTypeButton[] = [
     {
       type: 'text',
@@ -77,6 +81,10 @@ const DocumentationList: React.FC<DocumentationListProps> = ({
   const renderDocumentItem = ({ item }: { item: VisitDocument }) => {
     const icon = getDocumentTypeIcon(item.type);
     const date = new Date(item.createdAt);
+    const upload = item.isPending && item.clientId ? uploadSessions[item.clientId] : undefined;
+    const uploadPercent = upload && upload.size > 0
+      ? Math.floor((upload.offset / upload.size) * 100)
+      : 0;
 
     return (
       <Card variant="outlined" style={styles.documentCard}>
@@ -92,8 +100,22 @@ const DocumentationList: React.FC<DocumentationListProps> = ({
               Added on {formatDate(date)} at {date.toLocaleTimeString()}
             </Text>
           </View>
+          {item.isPending && (
+            <View style={styles.pendingBadge}>
+              <Text style={styles.pendingBadgeText}>Pending sync</Text>
+            </View>
+          )}
         </View>
 
+        {upload && (
+          <View style={styles.uploadContainer}>
+            <View style={styles.uploadTrack}>
+              <View style={[styles.uploadBar, { width: `${uploadPercent}%` }]} />
+            </View>
+            <Text style={styles.uploadText}>Uploaded {uploadPercent}%</Text>
+          </View>
+        )}
+
         {item.type === DOCUMENTATION_TYPES.TEXT && (
           <Text style={styles.textContent}>{item.content}</Text>
         )}
@@ -165,7 +187,7 @@ const DocumentationList: React.FC<DocumentationListProps> = ({
           <FlatList
             data={documents}
             renderItem={renderDocumentItem}
-            keyExtractor={(item) => item.id}
+            keyExtractor={(item) => item.clientId || item.id}
             scrollEnabled={false}
           />
         )}
@@ -276,6 +298,36 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  pendingBadge: {
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  pendingBadgeText: {
+    color: '#FF9800',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  uploadContainer: {
+    marginBottom: 12,
+  },
+  uploadTrack: {
+    height: 4,
+    backgroundColor: '#FFE0B2',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  uploadBar: {
+    height: 4,
+    backgroundColor: '#FF9800',
+  },
+  uploadText: {
+    fontSize: 12,
+    color: '#FF9800',
+    marginTop: 4,
+  },
   textContent: {
     fontSize: 14,
     color: '#333',
@@ -11,11 +11,14 @@ import {
 import Card from '../../../components/Card';
 import Button from '../../../components/Button';
 import { DOCUMENTATION_TYPES } from '../../../constants/appConstants';
+import { FormDraft } from '../../../redux/slices/draftSlice';
 
 interface FormDocumentationFormProps {
   onSubmit: (data: { type: string; content: string }) => void;
   onCancel: () => void;
   patientId?: string;
+  initialDraft?: FormDraft;
+  onDraftChange?: (draft: FormDraft) => void;
 }
 
 interface FormQuestion {
@@ -41,6 +44,8 @@ const FormDocumentationForm: React.FC<FormDocumentationFormProps> = ({
   onSubmit,
   onCancel,
   patientId,
+  initialDraft,
+  onDraftChange,
 }) => {
   const [selectedTemplate, setSelectedTemplate] = useState<FormTemplate | null>(null);
   const [answers, setAnswers] = useState<FormAnswers>({});
@@ -202,9 +207,21 @@ const FormDocumentationForm: React.FC<FormDocumentationFormProps> = ({
     },
   ];
 
+  // Reopen the template of a saved draft
+  useEffect(() => {
+    if (initialDraft) {
+      setSelectedTemplate(formTemplates.find(template => template.id === initialDraft.templateId) || null);
+    }
+  }, []);
+
   useEffect(() => {
     // Initialize answers object when a template is selected
     if (selectedTemplate) {
+      if (initialDraft?.templateId === selectedTemplate.id) {
+        setAnswers(initialDraft.answers);
+        return;
+      }
+
       const initialAnswers: FormAnswers = {};
       selectedTemplate.questions.forEach(question => {
         if (question.type === 'checkbox') {
@@ -217,6 +234,12 @@ const FormDocumentationForm: React.FC<FormDocumentationFormProps> = ({
     }
   }, [selectedTemplate]);
 
+  useEffect(() => {
+    if (selectedTemplate) {
+      onDraftChange?.({ templateId: selectedTemplate.id, answers });
+    }
+  }, [answers]);
+
   const handleTextInputChange = (questionId: string, value: string) => {
     setAnswers(prev => ({
       ...prev,
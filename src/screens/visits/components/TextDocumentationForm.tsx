@@ -16,12 +16,14 @@ interface TextDocumentationFormProps {
   onSubmit: (data: { type: string; content: string }) => void;
   onCancel: () => void;
   initialValue?: string;
+  onChange?: (text: string) => void;
 }
 
 const TextDocumentationForm: React.FC<TextDocumentationFormProps> = ({
   onSubmit,
   onCancel,
   initialValue = '',
+  onChange,
 }) => {
   const [text, setText] = useState(initialValue);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -63,7 +65,10 @@ const TextDocumentationForm: React.FC<TextDocumentationFormProps> = ({
               numberOfLines={10}
               textAlignVertical="top"
               value={text}
-              onChangeText={setText}
+              onChangeText={(value) => {
+                setText(value);
+                onChange?.(value);
+              }}
             />
           </View>
 
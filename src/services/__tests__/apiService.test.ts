@@ -0,0 +1,119 @@
+import { AnyAction, EnhancedStore, configureStore } from '@reduxjs/toolkit';
+import { apiService } from '../apiService';
+import { credentialManager } from '../credentialManager';
+import { navigationService } from '../navigationService';
+import { mockServer } from '../../mocks/mockServer';
+import { ENDPOINTS } from '../../constants/apiConstants';
+import { classifyRequestError } from '../../utils/requestErrorUtils';
+import { RootState } from '../../redux/store';
+import { logout } from '../../redux/slices/authSlice';
+import environmentReducer from '../../redux/slices/environmentSlice';
+
+jest.mock('../netInfoService', () => ({
+  netInfoService: {
+    isConnected: async () => true,
+    setSimulatedOffline: () => undefined,
+  },
+}));
+jest.mock('../storageService', () => {
+  const items = new Map<string, unknown>();
+  return {
+    storageService: {
+      getItem: async (key: string) => items.get(key) ?? null,
+      setItem: async (key: string, value: unknown) => {
+        items.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        items.delete(key);
+      },
+    },
+  };
+});
+jest.mock('../navigationService', () => ({
+  navigationService: { reset: jest.fn() },
+}));
+jest.mock('../syncEngine', () => ({
+  syncEngine: {
+    captureReplayError: jest.fn(),
+    enqueueRequest: jest.fn(),
+  },
+}));
+// Forgets the tokens and signs out like the real thunk
+jest.mock('../../redux/slices/authSlice', () => ({
+  setCredentials: () => ({ type: 'auth/setCredentials' }),
+  logout: jest.fn((reason: string) => async (dispatch: (action: unknown) => void) => {
+    await jest.requireActual('../credentialManager').credentialManager.clear();
+    dispatch({ type: 'auth/logout/fulfilled', meta: { arg: reason } });
+  }),
+}));
+
+const authReducer = (state = { isAuthenticated: true }, action: AnyAction) =>
+  action.type === 'auth/logout/fulfilled' ? { isAuthenticated: false } : state;
+
+// Issued tokens are compared with the expiry time in milliseconds
+const expireTokens = async () => {
+  mockServer.expireTokens();
+  await new Promise<void>((resolve) => setTimeout(() => resolve(), 5));
+};
+
+describe('apiService token refresh', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.mocked(navigationService.reset).mockClear();
+    jest.mocked(logout).mockClear();
+
+    const store = configureStore({
+      reducer: { auth: authReducer, environment: environmentReducer },
+    });
+    apiService.attachStore(store as unknown as EnhancedStore<RootState>);
+
+    mockServer.reset();
+    mockServer.configure({ latency: 0 });
+    mockServer.setEnabled(true);
+
+    await credentialManager.saveTokens({ token: 'mock-token-1', refreshToken: 'mock-refresh-1' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries a request with a refreshed token', async () => {
+    await expireTokens();
+
+    const response = await apiService.get(ENDPOINTS.VISITS.GET_ALL);
+
+    expect(response.status).toBe(200);
+    expect(await credentialManager.getToken()).not.toBe('mock-token-1');
+    expect(navigationService.reset).not.toHaveBeenCalled();
+  });
+
+  it('keeps the session when the refresh does not reach the server', async () => {
+    await expireTokens();
+    mockServer.failNext({ method: 'post', path: ENDPOINTS.AUTH.REFRESH_TOKEN });
+
+    const error = await apiService.get(ENDPOINTS.VISITS.GET_ALL).catch((caught) => caught);
+
+    expect(classifyRequestError(error)).toBe('network');
+    expect(await credentialManager.getToken()).toBe('mock-token-1');
+    expect(logout).not.toHaveBeenCalled();
+    expect(navigationService.reset).not.toHaveBeenCalled();
+  });
+
+  it('ends the session once when the refresh token is rejected', async () => {
+    await credentialManager.saveTokens({ token: 'mock-token-1', refreshToken: 'revoked' });
+    await expireTokens();
+
+    const results = await Promise.allSettled([
+      apiService.get(ENDPOINTS.VISITS.GET_ALL),
+      apiService.get(ENDPOINTS.SCHEDULES.GET_ALL),
+      apiService.get(ENDPOINTS.MESSAGES.GET_ALL),
+    ]);
+
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    expect(await credentialManager.getToken()).toBeNull();
+    expect(logout).toHaveBeenCalledTimes(1);
+    expect(logout).toHaveBeenCalledWith('session_expired');
+    expect(navigationService.reset).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { AnyAction, EnhancedStore, configureStore } from '@reduxjs/toolkit';
+import { appLockService } from '../appLockService';
+import { APP_LOCK } from '../../constants/appConstants';
+import { RootState } from '../../redux/store';
+import { logout } from '../../redux/slices/authSlice';
+import appLockReducer from '../../redux/slices/appLockSlice';
+
+jest.mock('react-native-biometrics', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ simplePrompt: jest.fn(), isSensorAvailable: jest.fn() })),
+}));
+jest.mock('../storageService', () => {
+  const items = new Map<string, unknown>();
+  return {
+    storageService: {
+      getItem: async (key: string) => items.get(key) ?? null,
+      setItem: async (key: string, value: unknown) => {
+        items.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        items.delete(key);
+      },
+    },
+  };
+});
+jest.mock('../../redux/slices/authSlice', () => {
+  const { createAction } = jest.requireActual('@reduxjs/toolkit');
+  const logoutFulfilled = createAction('auth/logout/fulfilled');
+  return {
+    clearCredentials: createAction('auth/clearCredentials'),
+    logout: Object.assign(
+      jest.fn((reason: string) => ({ type: logoutFulfilled.type, meta: { arg: reason } })),
+      { fulfilled: logoutFulfilled }
+    ),
+  };
+});
+
+const authReducer = (state = { isAuthenticated: true }, action: AnyAction) =>
+  action.type === 'auth/logout/fulfilled' ? { isAuthenticated: false } : state;
+
+const createStore = () => configureStore({
+  reducer: { auth: authReducer, appLock: appLockReducer },
+});
+
+describe('appLockService PIN unlock', () => {
+  let store: ReturnType<typeof createStore>;
+  let now: number;
+
+  const enterWrongPins = async (count: number) => {
+    for (let attempt = 0; attempt < count; attempt += 1) {
+      expect(await appLockService.unlockWithPin('0000')).toBe(false);
+    }
+  };
+
+  beforeEach(async () => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.mocked(logout).mockClear();
+
+    store = createStore();
+    appLockService.start(store as unknown as EnhancedStore<RootState>);
+    await appLockService.setPin('1234', false);
+    appLockService.lock();
+  });
+
+  afterEach(() => {
+    appLockService.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('unlocks with the right PIN', async () => {
+    await enterWrongPins(APP_LOCK.MAX_FAILED_ATTEMPTS - 1);
+
+    expect(await appLockService.unlockWithPin('1234')).toBe(true);
+    expect(store.getState().appLock.isLocked).toBe(false);
+    expect(store.getState().appLock.totalFailedAttempts).toBe(0);
+  });
+
+  it('refuses every PIN during a lockout', async () => {
+    await enterWrongPins(APP_LOCK.MAX_FAILED_ATTEMPTS);
+
+    expect(await appLockService.unlockWithPin('1234')).toBe(false);
+    expect(store.getState().appLock.isLocked).toBe(true);
+    expect(logout).not.toHaveBeenCalled();
+  });
+
+  it('signs out instead of locking out again after the last lockout', async () => {
+    for (let lockout = 1; lockout < APP_LOCK.MAX_LOCKOUTS; lockout += 1) {
+      await enterWrongPins(APP_LOCK.MAX_FAILED_ATTEMPTS);
+      now += APP_LOCK.LOCKOUT_DURATION;
+    }
+    expect(logout).not.toHaveBeenCalled();
+
+    await enterWrongPins(APP_LOCK.MAX_FAILED_ATTEMPTS);
+
+    expect(logout).toHaveBeenCalledTimes(1);
+    expect(logout).toHaveBeenCalledWith('session_expired');
+    expect(store.getState().auth.isAuthenticated).toBe(false);
+  });
+});
@@ -0,0 +1,425 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import { configureStore } from '@reduxjs/toolkit';
+import { apiService } from '../apiService';
+import { syncEngine, withOfflineReplay, OfflineReplayArg } from '../syncEngine';
+import { netInfoService } from '../netInfoService';
+import { mockServer } from '../../mocks/mockServer';
+import { ENDPOINTS, HEADERS } from '../../constants/apiConstants';
+import { AppStore } from '../../redux/store';
+import { createOfflineThunk, isQueuedOffline } from '../../redux/createOfflineThunk';
+import { offlineMiddleware } from '../../redux/middleware/offlineMiddleware';
+import offlineReducer, {
+  enqueueMutation,
+  retryPendingMutation,
+  setOnlineStatus,
+  syncOfflineData,
+} from '../../redux/slices/offlineSlice';
+
+// Connectivity follows the mock server's offline mode
+jest.mock('../netInfoService', () => {
+  let simulatedOffline = false;
+  return {
+    netInfoService: {
+      isConnected: async () => !simulatedOffline,
+      isConnectionExpensive: async () => false,
+      setSimulatedOffline: (offline: boolean) => {
+        simulatedOffline = offline;
+      },
+    },
+  };
+});
+jest.mock('../credentialManager', () => ({
+  credentialManager: {
+    getToken: async () => 'mock-token-1',
+  },
+}));
+jest.mock('../storageService', () => ({
+  storageService: {
+    getItem: async () => null,
+    removeItem: async () => undefined,
+  },
+}));
+jest.mock('../navigationService', () => ({
+  navigationService: { reset: jest.fn() },
+}));
+jest.mock('../syncScheduler', () => ({
+  syncScheduler: { start: jest.fn() },
+}));
+jest.mock('../../redux/slices/authSlice', () => {
+  const { createAction } = jest.requireActual('@reduxjs/toolkit');
+  return {
+    clearCredentials: createAction('auth/clearCredentials'),
+    login: { fulfilled: createAction('auth/login/fulfilled') },
+    logout: { fulfilled: createAction('auth/logout/fulfilled') },
+    verifyMfa: { fulfilled: createAction('auth/verifyMfa/fulfilled') },
+  };
+});
+
+const loggedOut = (userId: string, reason?: string) =>
+  ({ type: 'auth/logout/fulfilled', payload: userId, meta: { arg: reason } });
+const loggedIn = (userId: string) =>
+  ({ type: 'auth/login/fulfilled', payload: { user: { id: userId } } });
+jest.mock('../../redux/api/baseApi', () => ({
+  API_TAGS: [],
+  baseApi: {
+    util: { invalidateTags: () => ({ type: 'api/invalidateTags' }) },
+  },
+}));
+
+interface SentRequest {
+  url?: string;
+  body: any;
+  idempotencyKey?: string;
+}
+
+const sendMessage = createOfflineThunk(
+  'test/sendMessage',
+  async (arg: { content: string } & OfflineReplayArg, { rejectWithValue, requestId }) => {
+    try {
+      const { data } = await apiService.post(
+        ENDPOINTS.MESSAGES.CREATE,
+        { content: arg.content },
+        withOfflineReplay('test/sendMessage', arg, requestId)
+      );
+      return data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send message');
+    }
+  }
+);
+
+const startVisit = createOfflineThunk(
+  'test/startVisit',
+  async (arg: { visitId: string } & OfflineReplayArg, { rejectWithValue, requestId }) => {
+    try {
+      const { data } = await apiService.post(
+        ENDPOINTS.VISITS.CLOCK_IN.replace(':id', arg.visitId),
+        {},
+        withOfflineReplay('test/startVisit', arg, requestId)
+      );
+      return data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Clock in failed');
+    }
+  },
+  { dedupKey: ({ visitId }) => `POST ${ENDPOINTS.VISITS.CLOCK_IN.replace(':id', visitId)}` }
+);
+
+const finishVisit = createOfflineThunk(
+  'test/finishVisit',
+  async (arg: { visitId: string } & OfflineReplayArg, { rejectWithValue, requestId }) => {
+    try {
+      const { data } = await apiService.post(
+        ENDPOINTS.VISITS.CLOCK_OUT.replace(':id', arg.visitId),
+        {},
+        withOfflineReplay('test/finishVisit', arg, requestId)
+      );
+      return data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Clock out failed');
+    }
+  }
+);
+
+const sendPhoto = createOfflineThunk(
+  'test/sendPhoto',
+  async (arg: { uri: string } & OfflineReplayArg, { rejectWithValue, requestId }) => {
+    try {
+      const { data } = await apiService.post(
+        ENDPOINTS.MESSAGES.CREATE,
+        { content: arg.uri },
+        withOfflineReplay('test/sendPhoto', arg, requestId)
+      );
+      return data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send photo');
+    }
+  },
+  { hasUpload: () => true }
+);
+
+const createStore = () => configureStore({
+  reducer: { offline: offlineReducer },
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(offlineMiddleware),
+});
+
+type TestStore = ReturnType<typeof createStore>;
+
+describe('syncEngine offline replay', () => {
+  let store: TestStore;
+  let sentRequests: SentRequest[];
+
+  const goOffline = () => {
+    mockServer.setOffline(true);
+    store.dispatch(setOnlineStatus(false));
+  };
+
+  // Same as the connectivity listener set up by setupOfflineSync
+  const reconnect = async () => {
+    mockServer.setOffline(false);
+    store.dispatch(setOnlineStatus(true));
+    await store.dispatch(syncOfflineData());
+  };
+
+  const sentMessages = () => sentRequests.filter(
+    (request) => request.url === ENDPOINTS.MESSAGES.CREATE
+  );
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'] });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    mockServer.reset();
+    mockServer.configure({ latency: 0 });
+    mockServer.setEnabled(true);
+
+    // Record every request reaching the mock server, including failed ones
+    sentRequests = [];
+    const serve = mockServer.adapter;
+    jest.spyOn(mockServer, 'adapter').mockImplementation((config: InternalAxiosRequestConfig) => {
+      sentRequests.push({
+        url: config.url,
+        body: typeof config.data === 'string' ? JSON.parse(config.data) : config.data,
+        idempotencyKey: config.headers.get(HEADERS.IDEMPOTENCY_KEY) as string | undefined,
+      });
+      return serve(config);
+    });
+
+    store = createStore();
+    await syncEngine.attachStore(store as unknown as AppStore);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('queues mutations made offline without sending them', async () => {
+    goOffline();
+
+    const resultAction = await store.dispatch(sendMessage({ content: 'On my way' }));
+
+    expect(isQueuedOffline(resultAction)).toBe(true);
+    expect(sentRequests).toHaveLength(0);
+    expect(store.getState().offline.pendingActions).toHaveLength(1);
+  });
+
+  it('queues separate requests to the same endpoint', async () => {
+    const url = ENDPOINTS.VISITS.DOCUMENTS.replace(':id', 'visit-1');
+
+    const first = await syncEngine.enqueueRequest({ method: 'post', url, data: { title: 'Wound care' } });
+    const second = await syncEngine.enqueueRequest({ method: 'post', url, data: { title: 'Vitals' } });
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(store.getState().offline.pendingActions.map((mutation) => mutation.config?.data)).toEqual([
+      { title: 'Wound care' },
+      { title: 'Vitals' },
+    ]);
+  });
+
+  it('reports a mutation with an already queued dedup key as not queued', async () => {
+    goOffline();
+
+    const firstAction = await store.dispatch(startVisit({ visitId: 'visit-1' }));
+    const secondAction = await store.dispatch(startVisit({ visitId: 'visit-1' }));
+
+    expect(isQueuedOffline(firstAction)).toBe(true);
+    expect(isQueuedOffline(secondAction)).toBe(false);
+    expect(secondAction.meta.requestStatus).toBe('rejected');
+    expect(store.getState().offline.pendingActions).toHaveLength(1);
+  });
+
+  it('replays queued mutations in order once reconnected', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'First' }));
+    await store.dispatch(sendMessage({ content: 'Second' }));
+    await store.dispatch(sendMessage({ content: 'Third' }));
+    const queuedKeys = store.getState().offline.pendingActions.map(
+      (mutation) => mutation.idempotencyKey
+    );
+
+    await reconnect();
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual(['First', 'Second', 'Third']);
+    expect(sentMessages().map((request) => request.idempotencyKey)).toEqual(queuedKeys);
+    expect(new Set(queuedKeys).size).toBe(3);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+    expect(store.getState().offline.recentlySynced).toHaveLength(3);
+  });
+
+  it('skips a mutation discarded while the queue is being sent', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'First' }));
+    await store.dispatch(sendMessage({ content: 'Discarded' }));
+    const [, discarded] = store.getState().offline.pendingActions;
+
+    // Discarded from the Sync Center while the first message is in flight
+    const serve = mockServer.adapter;
+    jest.spyOn(mockServer, 'adapter').mockImplementationOnce((config: InternalAxiosRequestConfig) => {
+      expect(syncEngine.discardPending(discarded.id)).toBe(true);
+      return serve(config);
+    });
+    await reconnect();
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual(['First']);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+
+  it('quarantines a mutation that cannot be replayed without blocking the rest', async () => {
+    goOffline();
+    store.dispatch(enqueueMutation({
+      id: 'unknown-mutation',
+      kind: 'thunk',
+      type: 'test/removedThunk',
+      arg: {},
+      idempotencyKey: 'unknown-key',
+      timestamp: Date.now(),
+      attempts: 0,
+      lastError: null,
+      nextRetryAt: null,
+    }));
+    await store.dispatch(sendMessage({ content: 'Still sent' }));
+
+    await reconnect();
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual(['Still sent']);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+    expect(store.getState().offline.deadLetters.map((mutation) => mutation.id)).toEqual(['unknown-mutation']);
+  });
+
+  it('stops at the first upload on a metered connection', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'First' }));
+    await store.dispatch(sendPhoto({ uri: 'file:///photo.jpg' }));
+    await store.dispatch(sendMessage({ content: 'After the photo' }));
+
+    const isConnectionExpensive = jest.spyOn(netInfoService, 'isConnectionExpensive').mockResolvedValue(true);
+    await reconnect();
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual(['First']);
+    expect(store.getState().offline.pendingActions.map((mutation) => mutation.type)).toEqual([
+      'test/sendPhoto',
+      'test/sendMessage',
+    ]);
+
+    // Sent in full when the user asks for it, or once off the metered connection
+    await store.dispatch(syncOfflineData({ isManual: true }));
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual([
+      'First',
+      'file:///photo.jpg',
+      'After the photo',
+    ]);
+    expect(isConnectionExpensive).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds back later mutations of a visit while an earlier one is retried', async () => {
+    goOffline();
+    await store.dispatch(startVisit({ visitId: 'visit-1' }));
+    await store.dispatch(finishVisit({ visitId: 'visit-1' }));
+    await store.dispatch(sendMessage({ content: 'Other work goes on' }));
+
+    mockServer.failNext({ method: 'post', path: ENDPOINTS.VISITS.CLOCK_IN, status: 503 });
+    await reconnect();
+
+    expect(sentRequests.map((request) => request.url)).toEqual([
+      ENDPOINTS.VISITS.CLOCK_IN.replace(':id', 'visit-1'),
+      ENDPOINTS.MESSAGES.CREATE,
+    ]);
+    expect(store.getState().offline.pendingActions.map((mutation) => mutation.type)).toEqual([
+      'test/startVisit',
+      'test/finishVisit',
+    ]);
+    expect(store.getState().offline.deadLetters).toHaveLength(0);
+
+    // The retry sends the clock in, then the clock out
+    jest.setSystemTime(store.getState().offline.pendingActions[0].nextRetryAt!);
+    await syncEngine.processQueue();
+
+    expect(sentRequests.slice(2).map((request) => request.url)).toEqual([
+      ENDPOINTS.VISITS.CLOCK_IN.replace(':id', 'visit-1'),
+      ENDPOINTS.VISITS.CLOCK_OUT.replace(':id', 'visit-1'),
+    ]);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+
+  it('drops queued mutations when the user logs out', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'Before logout' }));
+    store.dispatch(loggedOut('caregiver-1', 'user'));
+
+    await reconnect();
+
+    expect(sentMessages()).toHaveLength(0);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+
+  it('sends mutations kept from an expired session once the same user signs back in', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'Before the session expired' }));
+    store.dispatch(loggedOut('caregiver-1', 'session_expired'));
+
+    await reconnect();
+    expect(sentMessages()).toHaveLength(0);
+
+    store.dispatch(loggedIn('caregiver-1'));
+    await syncEngine.processQueue();
+
+    expect(sentMessages().map((request) => request.body.content)).toEqual(['Before the session expired']);
+  });
+
+  it('drops mutations kept from an expired session when someone else signs in', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'Before the session expired' }));
+    store.dispatch(loggedOut('caregiver-1', 'session_expired'));
+
+    store.dispatch(loggedIn('caregiver-2'));
+    await reconnect();
+
+    expect(sentMessages()).toHaveLength(0);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+
+  it('replays a request interrupted by a dropped connection with its original idempotency key', async () => {
+    // Online as far as the app knows, the request itself fails
+    mockServer.setOffline(true);
+
+    const resultAction = await store.dispatch(sendMessage({ content: 'Running late' }));
+
+    expect(isQueuedOffline(resultAction)).toBe(true);
+    expect(sentMessages()).toHaveLength(1);
+    const [failedAttempt] = sentMessages();
+    expect(failedAttempt.idempotencyKey).toBeTruthy();
+
+    await reconnect();
+
+    expect(sentMessages()).toHaveLength(2);
+    expect(sentMessages()[1].idempotencyKey).toBe(failedAttempt.idempotencyKey);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+
+  it('keeps the idempotency key when a replay is retried', async () => {
+    goOffline();
+    await store.dispatch(sendMessage({ content: 'Visit notes updated' }));
+    const [mutation] = store.getState().offline.pendingActions;
+
+    // The connection drops again during the replay
+    mockServer.failNext({ method: 'post', path: ENDPOINTS.MESSAGES.CREATE });
+    await reconnect();
+
+    expect(store.getState().offline.pendingActions).toHaveLength(1);
+    expect(store.getState().offline.pendingActions[0].attempts).toBe(1);
+
+    store.dispatch(retryPendingMutation({ id: mutation.id }));
+    await syncEngine.processQueue();
+
+    expect(sentMessages().map((request) => request.idempotencyKey)).toEqual([
+      mutation.idempotencyKey,
+      mutation.idempotencyKey,
+    ]);
+    expect(store.getState().offline.pendingActions).toHaveLength(0);
+  });
+});
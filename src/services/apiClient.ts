@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { AxiosRequestConfig } from 'axios';
+import { apiService } from './apiService';
+import { syncEngine } from './syncEngine';
+import {
+  availableShiftSchema,
+  changeSetSchema,
+  conversationSchema,
+  loginResultSchema,
+  mfaVerifyResponseSchema,
+  messageSchema,
+  patientSchema,
+  scheduleSchema,
+  shiftRequestSchema,
+  uploadCompleteSchema,
+  uploadOffsetSchema,
+  uploadSessionSchema,
+  visitDocumentSchema,
+  visitSchema,
+  visitUpdateSchema,
+} from './apiSchemas';
+import { ENDPOINTS } from '../constants/apiConstants';
+import { ApiValidationError } from '../utils/requestErrorUtils';
+import { MfaMethod, RegistrationData } from '../redux/slices/authSlice';
+import { VisitDocument, VisitLocation } from '../redux/slices/visitSlice';
+import { Message } from '../redux/slices/messageSlice';
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Path params of an ENDPOINTS path, e.g. '/visits/:id/clock-in' -> { id: string }
+type PathParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [Key in Param]: string } & PathParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? { [Key in Param]: string }
+      : {};
+
+// Request of an endpoint, with only the parts it takes
+type EndpointRequest<Path extends string, Body, Query> =
+  (keyof PathParams<Path> extends never ? {} : { params: PathParams<Path> }) &
+  ([Body] extends [void] ? {} : { body: Body }) &
+  ([Query] extends [void] ? {} : { query?: Query }) &
+  { config?: AxiosRequestConfig };
+
+// The request can be left out of calls to endpoints that need nothing
+type EndpointArgs<Path extends string, Body, Query> =
+  {} extends EndpointRequest<Path, Body, Query>
+    ? [request?: EndpointRequest<Path, Body, Query>]
+    : [request: EndpointRequest<Path, Body, Query>];
+
+interface AnyEndpointRequest {
+  params?: Record<string, string>;
+  body?: unknown;
+  query?: unknown;
+  config?: AxiosRequestConfig;
+}
+
+/**
+ * Fill the path params of an ENDPOINTS path
+ * @param path Path with :param placeholders
+ * @param params Param values
+ * @returns The request URL
+ */
+const buildPath = (path: string, params: Record<string, string> = {}): string =>
+  path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name]));
+
+/**
+ * Validate a response body against its schema
+ * @throws ApiValidationError listing every mismatch
+ */
+const parseResponse = <Response>(
+  schema: z.ZodType<Response, z.ZodTypeDef, unknown>,
+  data: unknown,
+  request: string
+): Response => {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map(issue =>
+    `${issue.path.length > 0 ? issue.path.join('.') : 'body'}: ${issue.message}`
+  );
+  const error = new ApiValidationError(request, issues);
+  console.error(error.message);
+  throw error;
+};
+
+/**
+ * Declare an endpoint with its request body and query types
+ * Usage: endpoint<Body, Query>()(method, ENDPOINTS path, response schema)
+ * @returns Function calling the endpoint and resolving with the validated response body
+ */
+const endpoint = <Body = void, Query = void>() =>
+  <Path extends string, Response>(
+    method: HttpMethod,
+    path: Path,
+    schema: z.ZodType<Response, z.ZodTypeDef, unknown>
+  ) =>
+    async (...[request]: EndpointArgs<Path, Body, Query>): Promise<Response> => {
+      const { params, body, query, config = {} } = (request || {}) as AnyEndpointRequest;
+      const response = await apiService.request<unknown>({
+        ...config,
+        method,
+        url: buildPath(path, params),
+        data: body,
+        params: query ?? config.params,
+      });
+
+      try {
+        return parseResponse(schema, response.data, `${method.toUpperCase()} ${path}`);
+      } catch (error) {
+        // Let the sync engine classify the failure of a replayed thunk
+        syncEngine.captureReplayError(response.config, error);
+        throw error;
+      }
+    };
+
+/**
+ * Typed API client, one function per ENDPOINTS entry the app calls.
+ * Path params, query, body and response are typed, and every response is
+ * validated at runtime before it is returned.
+ */
+export const apiClient = {
+  auth: {
+    // deviceToken skips the MFA challenge on a trusted device
+    login: endpoint<{ username: string; password: string; deviceToken?: string }>()(
+      'post', ENDPOINTS.AUTH.LOGIN, loginResultSchema
+    ),
+    register: endpoint<RegistrationData>()('post', ENDPOINTS.AUTH.REGISTER, z.unknown()),
+    exchangeFirebaseToken: endpoint<{ idToken: string; deviceToken?: string }>()(
+      'post', ENDPOINTS.AUTH.FIREBASE_TOKEN, loginResultSchema
+    ),
+    verifyMfa: endpoint<{ challengeId: string; method: MfaMethod; code: string; rememberDevice: boolean }>()(
+      'post', ENDPOINTS.AUTH.MFA_VERIFY, mfaVerifyResponseSchema
+    ),
+    sendMfaCode: endpoint<{ challengeId: string }>()(
+      'post', ENDPOINTS.AUTH.MFA_SEND_CODE, z.unknown()
+    ),
+    requestPasswordReset: endpoint<{ email: string }>()(
+      'post', ENDPOINTS.AUTH.PASSWORD_RESET, z.unknown()
+    ),
+  },
+  visits: {
+    getAll: endpoint<void, { date?: string }>()(
+      'get', ENDPOINTS.VISITS.GET_ALL, z.array(visitSchema)
+    ),
+    getChanges: endpoint<void, { updatedSince?: string }>()(
+      'get', ENDPOINTS.VISITS.CHANGES, changeSetSchema(visitSchema)
+    ),
+    getById: endpoint()('get', ENDPOINTS.VISITS.GET_BY_ID, visitSchema),
+    clockIn: endpoint<{ location: VisitLocation }>()(
+      'post', ENDPOINTS.VISITS.CLOCK_IN, visitUpdateSchema
+    ),
+    clockOut: endpoint<{ location: VisitLocation; notes?: string }>()(
+      'post', ENDPOINTS.VISITS.CLOCK_OUT, visitUpdateSchema
+    ),
+    addDocument: endpoint<Omit<VisitDocument, 'id'>>()(
+      'post', ENDPOINTS.VISITS.DOCUMENTS, visitDocumentSchema
+    ),
+  },
+  patients: {
+    getAll: endpoint()('get', ENDPOINTS.PATIENTS.GET_ALL, z.array(patientSchema)),
+    getChanges: endpoint<void, { updatedSince?: string }>()(
+      'get', ENDPOINTS.PATIENTS.CHANGES, changeSetSchema(patientSchema)
+    ),
+    getById: endpoint()('get', ENDPOINTS.PATIENTS.GET_BY_ID, patientSchema),
+  },
+  schedules: {
+    getAll: endpoint<void, { date?: string }>()(
+      'get', ENDPOINTS.SCHEDULES.GET_ALL, z.array(scheduleSchema)
+    ),
+    getChanges: endpoint<void, { updatedSince?: string }>()(
+      'get', ENDPOINTS.SCHEDULES.CHANGES, changeSetSchema(scheduleSchema)
+    ),
+    getAvailableShifts: endpoint()(
+      'get', ENDPOINTS.SCHEDULES.AVAILABLE_SHIFTS, z.array(availableShiftSchema)
+    ),
+    requestShift: endpoint<{ shiftId: string }>()(
+      'post', ENDPOINTS.SCHEDULES.REQUEST_SHIFT, shiftRequestSchema
+    ),
+    cancelShiftRequest: endpoint()(
+      'post', ENDPOINTS.SCHEDULES.CANCEL_SHIFT_REQUEST, shiftRequestSchema
+    ),
+  },
+  messages: {
+    getAll: endpoint()('get', ENDPOINTS.MESSAGES.GET_ALL, z.array(messageSchema)),
+    getChanges: endpoint<void, { updatedSince?: string }>()(
+      'get', ENDPOINTS.MESSAGES.CHANGES, changeSetSchema(messageSchema)
+    ),
+    getConversations: endpoint()(
+      'get', ENDPOINTS.CONVERSATIONS.GET_ALL, z.array(conversationSchema)
+    ),
+    send: endpoint<Omit<Message, 'id' | 'timestamp' | 'readStatus'>>()(
+      'post', ENDPOINTS.MESSAGES.CREATE, messageSchema
+    ),
+    markRead: endpoint()('post', ENDPOINTS.MESSAGES.MARK_READ, messageSchema),
+  },
+  uploads: {
+    create: endpoint<{ fileName: string; mimeType: string; size: number }>()(
+      'post', ENDPOINTS.UPLOADS.CREATE, uploadSessionSchema
+    ),
+    getById: endpoint()('get', ENDPOINTS.UPLOADS.GET_BY_ID, uploadOffsetSchema),
+    putChunk: endpoint<{ offset: number; data: string }>()(
+      'put', ENDPOINTS.UPLOADS.CHUNKS, uploadOffsetSchema
+    ),
+    complete: endpoint()('post', ENDPOINTS.UPLOADS.COMPLETE, uploadCompleteSchema),
+  },
+};
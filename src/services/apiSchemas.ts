@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { REALTIME_EVENTS } from '../constants/apiConstants';
+import { MfaChallenge, User } from '../redux/slices/authSlice';
+import { Visit, VisitDocument, VisitLocation } from '../redux/slices/visitSlice';
+import {
+  Allergy,
+  CarePlan,
+  ContactPerson,
+  MedicalCondition,
+  Medication,
+  Patient,
+} from '../redux/slices/patientSlice';
+import { AvailableShift, Schedule, ShiftRequest } from '../redux/slices/scheduleSlice';
+import { Conversation, Message } from '../redux/slices/messageSlice';
+import { ChangeSet } from '../redux/deltaSync';
+
+// Runtime shapes of API responses. Each schema is annotated with the slice
+// type it produces, so the two cannot drift apart without a type error.
+// Unknown fields are kept, and null optional fields are read as missing.
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+const record = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+const coordinatesSchema = record({
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+// Auth
+
+export const userSchema: Schema<User> = record({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: z.string(),
+  profileImage: optional(z.string()),
+});
+
+export const loginResponseSchema = record({
+  user: userSchema,
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const mfaChallengeSchema: Schema<MfaChallenge> = record({
+  challengeId: z.string(),
+  methods: z.array(z.enum(['totp', 'sms'])),
+  phoneNumberHint: optional(z.string()),
+});
+
+// Supervisors and admins get an MFA challenge instead of tokens, unless the device is trusted
+export const loginResultSchema = z.union([
+  loginResponseSchema,
+  record({ mfaRequired: z.literal(true), challenge: mfaChallengeSchema }),
+]);
+
+// deviceToken is issued when the caregiver chose to trust the device
+export const mfaVerifyResponseSchema = loginResponseSchema.extend({
+  deviceToken: optional(z.string()),
+});
+
+// Visits
+
+export const visitLocationSchema: Schema<VisitLocation> = record({
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: optional(z.number()),
+  timestamp: z.number(),
+});
+
+export const visitDocumentSchema: Schema<VisitDocument> = record({
+  id: z.string(),
+  type: z.string(),
+  content: z.string(),
+  createdAt: z.number(),
+  clientId: optional(z.string()),
+});
+
+export const visitSchema: Schema<Visit> = record({
+  id: z.string(),
+  patientId: z.string(),
+  caregiverId: z.string(),
+  scheduledStartTime: z.string(),
+  scheduledEndTime: z.string(),
+  actualStartTime: optional(z.string()),
+  actualEndTime: optional(z.string()),
+  status: z.string(),
+  tasks: z.array(z.string()),
+  notes: optional(z.string()),
+  clockInLocation: optional(visitLocationSchema),
+  clockOutLocation: optional(visitLocationSchema),
+  documents: z.array(visitDocumentSchema),
+  version: optional(z.string()),
+});
+
+// Clock in and clock out return only the fields that changed
+export const visitUpdateSchema: Schema<Partial<Visit>> = record({
+  status: optional(z.string()),
+  actualStartTime: optional(z.string()),
+  actualEndTime: optional(z.string()),
+  notes: optional(z.string()),
+  clockInLocation: optional(visitLocationSchema),
+  clockOutLocation: optional(visitLocationSchema),
+  version: optional(z.string()),
+});
+
+// Patients
+
+const medicalConditionSchema: Schema<MedicalCondition> = record({
+  id: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  diagnosisDate: optional(z.string()),
+});
+
+const medicationSchema: Schema<Medication> = record({
+  id: z.string(),
+  name: z.string(),
+  dosage: z.string(),
+  frequency: z.string(),
+  instructions: optional(z.string()),
+  startDate: optional(z.string()),
+});
+
+const allergySchema: Schema<Allergy> = record({
+  id: z.string(),
+  name: z.string(),
+  severity: z.string(),
+  reaction: optional(z.string()),
+});
+
+const carePlanSchema: Schema<CarePlan> = record({
+  id: z.string(),
+  goals: z.array(z.string()),
+  instructions: z.string(),
+  specialNotes: optional(z.string()),
+  lastUpdated: z.string(),
+});
+
+const contactPersonSchema: Schema<ContactPerson> = record({
+  id: z.string(),
+  relationship: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  phone: z.string(),
+  email: optional(z.string()),
+  isEmergencyContact: z.boolean(),
+});
+
+export const patientSchema: Schema<Patient> = record({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  dateOfBirth: z.string(),
+  gender: z.string(),
+  address: record({
+    street: z.string(),
+    city: z.string(),
+    state: z.string(),
+    zipCode: z.string(),
+    country: z.string(),
+    coordinates: optional(coordinatesSchema),
+  }),
+  phone: z.string(),
+  email: optional(z.string()),
+  preferredLanguage: optional(z.string()),
+  medicalConditions: z.array(medicalConditionSchema),
+  medications: z.array(medicationSchema),
+  allergies: z.array(allergySchema),
+  carePlan: carePlanSchema,
+  contactPersons: z.array(contactPersonSchema),
+  notes: optional(z.string()),
+});
+
+// Schedules
+
+export const scheduleSchema: Schema<Schedule> = record({
+  id: z.string(),
+  caregiverId: z.string(),
+  patientId: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  status: z.string(),
+  recurring: optional(z.boolean()),
+  recurrencePattern: optional(z.string()),
+  tasks: z.array(z.string()),
+  notes: optional(z.string()),
+});
+
+export const availableShiftSchema: Schema<AvailableShift> = record({
+  id: z.string(),
+  patientId: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  taskDescription: z.string(),
+  requiredSkills: z.array(z.string()),
+  status: z.string(),
+  notes: optional(z.string()),
+  address: record({
+    street: z.string(),
+    city: z.string(),
+    state: z.string(),
+    zipCode: z.string(),
+    coordinates: optional(coordinatesSchema),
+  }),
+});
+
+export const shiftRequestSchema: Schema<ShiftRequest> = record({
+  id: z.string(),
+  shiftId: z.string(),
+  caregiverId: z.string(),
+  requestTime: z.string(),
+  status: z.string(),
+  notes: optional(z.string()),
+});
+
+// Messages
+
+export const messageSchema: Schema<Message> = record({
+  id: z.string(),
+  senderId: z.string(),
+  senderName: z.string(),
+  receiverId: z.string(),
+  receiverName: optional(z.string()),
+  content: z.string(),
+  timestamp: z.string(),
+  readStatus: z.boolean(),
+  priority: z.string(),
+  category: optional(z.string()),
+  attachments: optional(z.array(z.string())),
+});
+
+export const conversationSchema: Schema<Conversation> = record({
+  id: z.string(),
+  participants: z.array(z.string()),
+  lastMessage: messageSchema,
+  unreadCount: z.number(),
+});
+
+// Delta sync
+
+/**
+ * Schema of a collection's change set
+ * @param entitySchema Schema of the collection's records
+ */
+export const changeSetSchema = <T>(entitySchema: Schema<T>): Schema<ChangeSet<T>> => record({
+  updated: z.array(entitySchema),
+  deleted: z.array(z.string()),
+  cursor: z.string(),
+});
+
+// Realtime events
+
+export const realtimeEventSchemas = {
+  [REALTIME_EVENTS.SHIFT_APPROVED]: record({ request: shiftRequestSchema, schedule: scheduleSchema }),
+  [REALTIME_EVENTS.SHIFT_REJECTED]: record({ request: shiftRequestSchema }),
+  [REALTIME_EVENTS.SCHEDULE_CHANGED]: record({ schedule: scheduleSchema }),
+  [REALTIME_EVENTS.VISIT_REASSIGNED]: record({ visit: visitSchema }),
+  [REALTIME_EVENTS.VISIT_CANCELLED]: record({ visitId: z.string() }),
+  [REALTIME_EVENTS.MESSAGE_NEW]: record({ message: messageSchema }),
+  [REALTIME_EVENTS.MESSAGE_READ]: record({ messageId: z.string() }),
+};
+
+// Uploads
+
+export const uploadSessionSchema = record({
+  uploadId: z.string(),
+  offset: optional(z.number()),
+});
+
+export const uploadOffsetSchema = record({
+  offset: z.number(),
+});
+
+export const uploadCompleteSchema = record({
+  fileUrl: z.string(),
+});
@@ -1,16 +1,51 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { API_BASE_URL, API_TIMEOUT } from '../constants/apiConstants';
-import { storageService } from './storageService';
-import { STORAGE_KEYS } from '../constants/appConstants';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { EnhancedStore } from '@reduxjs/toolkit';
+import {
+  API_TIMEOUT,
+  ENDPOINTS,
+  HEADERS,
+  MUTATING_METHODS,
+} from '../constants/apiConstants';
+import { SessionNotRefreshableError, credentialManager } from './credentialManager';
+import { ROUTES } from '../constants/appConstants';
+import { BUILD_ENVIRONMENT, BUILD_TENANT, resolveEnvironment } from '../constants/environments';
 import { netInfoService } from './netInfoService';
-import { offlineQueueService } from './offlineQueueService';
+import { syncEngine } from './syncEngine';
+import { navigationService } from './navigationService';
+import { mockServer } from '../mocks/mockServer';
+import { generateId } from '../utils/idUtils';
+import { AppDispatch, RootState } from '../redux/store';
+import { logout } from '../redux/slices/authSlice';
+import { selectEnvironment } from '../redux/slices/environmentSlice';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Set on a request retried after a token refresh, so it is not retried again
+    isAuthRetry?: boolean;
+  }
+}
+
+// Refresh responses meaning the refresh token itself was rejected
+const REFRESH_REJECTED_STATUSES = [400, 401];
+
+// Requests that must not trigger a token refresh when they return 401
+const AUTH_ENDPOINTS = [
+  ENDPOINTS.AUTH.LOGIN,
+  ENDPOINTS.AUTH.FIREBASE_TOKEN,
+  ENDPOINTS.AUTH.MFA_VERIFY,
+  ENDPOINTS.AUTH.MFA_SEND_CODE,
+  ENDPOINTS.AUTH.REFRESH_TOKEN,
+];
 
 class ApiService {
   private api: AxiosInstance;
+  private store: EnhancedStore<RootState> | null = null;
+  // Sign out shared by every request rejected with the same expired session
+  private signOutPromise: Promise<void> | null = null;
 
   constructor() {
     this.api = axios.create({
-      baseURL: API_BASE_URL,
+      baseURL: resolveEnvironment(BUILD_ENVIRONMENT, BUILD_TENANT).apiBaseUrl,
       timeout: API_TIMEOUT,
       headers: {
         'Content-Type': 'application/json',
@@ -21,14 +56,34 @@ class ApiService {
     this.setupInterceptors();
   }
 
+  /**
+   * Bind the service to the Redux store holding the auth state and selected environment
+   * @param store Redux store
+   */
+  attachStore(store: EnhancedStore<RootState>): void {
+    this.store = store;
+  }
+
   private setupInterceptors() {
     // Request interceptor for adding auth token
     this.api.interceptors.request.use(
       async (config) => {
-        const token = await storageService.getItem(STORAGE_KEYS.AUTH_TOKEN);
+        config.baseURL = this.getBaseUrl();
+        if (this.usesMockApi()) {
+          config.adapter = mockServer.adapter;
+        }
+
+        const token = await credentialManager.getToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+
+        // Tag mutations with an idempotency key so a replay after a lost
+        // response is not applied twice by the server
+        const method = (config.method || 'get').toLowerCase();
+        if (MUTATING_METHODS.includes(method) && !config.headers[HEADERS.IDEMPOTENCY_KEY]) {
+          config.headers[HEADERS.IDEMPOTENCY_KEY] = generateId();
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -37,41 +92,63 @@ class ApiService {
     // Response interceptor for handling errors
     this.api.interceptors.response.use(
       (response) => response,
-      async (error) => {
+      async (responseError) => {
+        let error = responseError;
+
+        // Aborted by the caller (e.g. the screen was left), nothing to retry or queue
+        if (axios.isCancel(error)) {
+          return Promise.reject(error);
+        }
+
         // Handle unauthorized errors (token expired)
-        if (error.response && error.response.status === 401) {
-          try {
-            // Try to refresh the token
-            const refreshToken = await storageService.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-            if (refreshToken) {
-              const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
-              
-              if (response.data.token) {
-                await storageService.setItem(STORAGE_KEYS.AUTH_TOKEN, response.data.token);
-                
-                // Retry the original request
-                const originalRequest = error.config;
-                originalRequest.headers.Authorization = `Bearer ${response.data.token}`;
-                return this.api(originalRequest);
-              }
+        const originalRequest = error.config;
+        if (error.response?.status === 401 && originalRequest && !this.isAuthRequest(originalRequest)) {
+          let refreshError: unknown = null;
+          // A request that already failed with a refreshed token is not retried again
+          if (!originalRequest.isAuthRetry) {
+            try {
+              const token = await this.refreshAuthToken(originalRequest);
+              originalRequest.isAuthRetry = true;
+              originalRequest.headers.Authorization = `Bearer ${token}`;
+              return this.api(originalRequest);
+            } catch (caughtError) {
+              console.error('Error refreshing auth token:', caughtError);
+              refreshError = caughtError;
             }
-          } catch (refreshError) {
-            // If refresh fails, clear auth and redirect to login
+          }
+
+          if (refreshError && !this.isRefreshRejected(refreshError)) {
+            // The refresh did not get an answer, the session may still be
+            // valid. Fail the request like one that never reached the server.
+            error = new AxiosError(
+              'Network error: Session could not be refreshed',
+              AxiosError.ERR_NETWORK,
+              originalRequest,
+              error.request
+            );
+          } else {
+            // If we couldn't refresh, clear auth and redirect
             await this.clearAuthAndRedirect();
           }
-          
-          // If we couldn't refresh, clear auth and redirect
-          await this.clearAuthAndRedirect();
         }
         
+        // Let the sync engine classify failures of replayed thunks
+        if (error.config) {
+          syncEngine.captureReplayError(error.config, error);
+        }
+
         // Check if error is due to network
         if (!error.response && error.request) {
           // Network error occurred
           const isConnected = await netInfoService.isConnected();
-          if (!isConnected) {
-            // If offline, queue the request for later
-            offlineQueueService.enqueueRequest(error.config);
-            throw new Error('Network error: Request queued for when connection is restored');
+          const method = (error.config?.method || 'get').toLowerCase();
+          if (!isConnected && MUTATING_METHODS.includes(method)) {
+            // If offline, queue the mutation for later. One that is not
+            // queued (already in the queue) fails with the network error.
+            const queued = await syncEngine.enqueueRequest(error.config);
+            if (queued) {
+              throw new Error('Network error: Request queued for when connection is restored');
+            }
           }
         }
         
@@ -80,11 +157,94 @@ class ApiService {
     );
   }
 
-  private async clearAuthAndRedirect() {
-    await storageService.removeItem(STORAGE_KEYS.AUTH_TOKEN);
-    await storageService.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
-    // Redirect to login - this would be handled by a navigation service
-    // navigationService.navigate('Login');
+  /**
+   * Get the API base URL of the selected environment
+   */
+  getBaseUrl(): string {
+    return this.store
+      ? selectEnvironment(this.store.getState()).apiBaseUrl
+      : this.api.defaults.baseURL || '';
+  }
+
+  /**
+   * Whether requests are answered by the in-process mock API instead of the network
+   */
+  private usesMockApi(): boolean {
+    if (mockServer.isEnabled()) {
+      return true;
+    }
+    return this.store
+      ? selectEnvironment(this.store.getState()).mockApi
+      : resolveEnvironment(BUILD_ENVIRONMENT, BUILD_TENANT).mockApi;
+  }
+
+  private isAuthRequest(config: AxiosRequestConfig): boolean {
+    return AUTH_ENDPOINTS.some(endpoint => config.url?.endsWith(endpoint));
+  }
+
+  /**
+   * Get a fresh auth token after a request failed with 401
+   * @param failedRequest Request rejected with 401
+   * @returns The new auth token
+   */
+  private async refreshAuthToken(failedRequest: AxiosRequestConfig): Promise<string> {
+    // The token was already refreshed while this request was in flight
+    const currentToken = await credentialManager.getToken();
+    const sentAuthorization = failedRequest.headers?.Authorization;
+    if (currentToken && sentAuthorization !== `Bearer ${currentToken}`) {
+      return currentToken;
+    }
+
+    return credentialManager.refreshTokens(async (refreshToken) => {
+      // Sent outside the instance so a 401 here is not intercepted again
+      const response = await axios.post(
+        `${this.getBaseUrl()}${ENDPOINTS.AUTH.REFRESH_TOKEN}`,
+        { refreshToken },
+        { timeout: API_TIMEOUT, adapter: this.usesMockApi() ? mockServer.adapter : undefined }
+      );
+      return response.data;
+    });
+  }
+
+  /**
+   * Check whether a failed refresh means the session is over, rather than
+   * the refresh endpoint being unreachable
+   * @param error Error thrown while refreshing
+   */
+  private isRefreshRejected(error: unknown): boolean {
+    if (error instanceof SessionNotRefreshableError) {
+      return true;
+    }
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    return status !== undefined && REFRESH_REJECTED_STATUSES.includes(status);
+  }
+
+  private clearAuthAndRedirect(): Promise<void> {
+    if (!this.signOutPromise) {
+      this.signOutPromise = this.signOut().finally(() => {
+        this.signOutPromise = null;
+      });
+    }
+    return this.signOutPromise;
+  }
+
+  private async signOut() {
+    if (this.store) {
+      // Already signed out by a request that failed before this one
+      if (!this.store.getState().auth.isAuthenticated) return;
+
+      // Like an idle session expiring, cached PHI is dropped and drafts are kept
+      const dispatch = this.store.dispatch as AppDispatch;
+      await dispatch(logout('session_expired'));
+    } else {
+      await credentialManager.clear();
+    }
+    // Performed once AppNavigator has swapped to the auth stack
+    navigationService.reset(ROUTES.AUTH.LOGIN);
+  }
+
+  async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return this.api.request<T>(config);
   }
 
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
@@ -0,0 +1,193 @@
+import ReactNativeBiometrics, { BiometryType } from 'react-native-biometrics';
+import { EnhancedStore } from '@reduxjs/toolkit';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { storageService } from './storageService';
+import { APP_LOCK, STORAGE_KEYS } from '../constants/appConstants';
+import { generateId } from '../utils/idUtils';
+import { AppDispatch, RootState } from '../redux/store';
+import { logout } from '../redux/slices/authSlice';
+import {
+  appLockDisabled,
+  appLockEnabled,
+  appLocked,
+  appUnlocked,
+  unlockFailed,
+} from '../redux/slices/appLockSlice';
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+const biometrics = new ReactNativeBiometrics();
+
+const hashPin = async (pin: string, salt: string): Promise<string> =>
+  bytesToHex(await pbkdf2Async(sha256, pin, salt, { c: APP_LOCK.PIN_HASH_ITERATIONS, dkLen: 32 }));
+
+/**
+ * Check that a PIN has the allowed number of digits
+ * @param pin Entered PIN
+ * @returns True if the PIN can be set
+ */
+export const isValidPin = (pin: string): boolean =>
+  new RegExp(`^\\d{${APP_LOCK.PIN_MIN_LENGTH},${APP_LOCK.PIN_MAX_LENGTH}}$`).test(pin);
+
+/**
+ * Lets caregivers unlock with device biometrics or their app PIN instead of
+ * a full login. sessionManager decides when to lock.
+ * Only a salted hash of the PIN is stored, in encrypted storage, and it is
+ * removed on logout.
+ */
+class AppLockService {
+  private store: EnhancedStore<RootState> | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private wasAuthenticated: boolean = false;
+
+  /**
+   * Start watching for the session to end
+   * Should be called once the persisted state has been rehydrated
+   * @param store Redux store
+   */
+  start(store: EnhancedStore<RootState>): void {
+    this.store = store;
+    this.wasAuthenticated = store.getState().auth.isAuthenticated;
+
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = store.subscribe(this.handleStoreChange);
+  }
+
+  /**
+   * Stop watching for the session to end
+   */
+  stop(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+  }
+
+  /**
+   * Lock the app if a PIN is set
+   */
+  lock(): void {
+    this.store?.dispatch(appLocked());
+  }
+
+  /**
+   * Get the biometrics the device offers
+   * @returns The biometry type, or null if none is enrolled
+   */
+  async getBiometryType(): Promise<BiometryType | null> {
+    try {
+      const { available, biometryType } = await biometrics.isSensorAvailable();
+      return available && biometryType ? biometryType : null;
+    } catch (error) {
+      console.error('Error checking biometrics:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Enable the app lock with a new PIN, or replace the current PIN
+   * @param pin New PIN
+   * @param biometricsEnabled Whether to offer biometrics before the PIN
+   * @throws Error if the PIN does not have the allowed number of digits
+   */
+  async setPin(pin: string, biometricsEnabled: boolean): Promise<void> {
+    if (!isValidPin(pin)) {
+      throw new Error(`The PIN must be ${APP_LOCK.PIN_MIN_LENGTH} to ${APP_LOCK.PIN_MAX_LENGTH} digits`);
+    }
+
+    const salt = generateId();
+    const storedPin: StoredPin = { salt, hash: await hashPin(pin, salt) };
+    await storageService.setItem(STORAGE_KEYS.APP_LOCK_PIN, storedPin, true);
+    this.store?.dispatch(appLockEnabled({ biometricsEnabled }));
+  }
+
+  /**
+   * Turn the app lock off and forget the PIN
+   */
+  async disable(): Promise<void> {
+    await this.removePin();
+    this.store?.dispatch(appLockDisabled());
+  }
+
+  /**
+   * Unlock with the app PIN
+   * Wrong PINs count towards a lockout, during which every PIN is refused.
+   * After APP_LOCK.MAX_LOCKOUTS the caregiver is signed out.
+   * @param pin Entered PIN
+   * @returns True if the app was unlocked
+   */
+  async unlockWithPin(pin: string): Promise<boolean> {
+    if (!this.store) return false;
+
+    const { lockedOutUntil } = this.store.getState().appLock;
+    if (lockedOutUntil && Date.now() < lockedOutUntil) {
+      return false;
+    }
+
+    const storedPin: StoredPin | null = await storageService.getItem(STORAGE_KEYS.APP_LOCK_PIN, true);
+    if (storedPin && await hashPin(pin, storedPin.salt) === storedPin.hash) {
+      this.unlock();
+      return true;
+    }
+
+    this.store.dispatch(unlockFailed(Date.now()));
+
+    // Only the password lets anyone keep guessing
+    const maxFailedAttempts = APP_LOCK.MAX_FAILED_ATTEMPTS * APP_LOCK.MAX_LOCKOUTS;
+    if (this.store.getState().appLock.totalFailedAttempts >= maxFailedAttempts) {
+      const dispatch = this.store.dispatch as AppDispatch;
+      await dispatch(logout('session_expired'));
+    }
+    return false;
+  }
+
+  /**
+   * Unlock with the device biometrics
+   * @returns True if the app was unlocked, false if the prompt failed or was cancelled
+   */
+  async unlockWithBiometrics(): Promise<boolean> {
+    try {
+      const { success } = await biometrics.simplePrompt({
+        promptMessage: 'Unlock Caro',
+        cancelButtonText: 'Use PIN',
+      });
+      if (success) {
+        this.unlock();
+      }
+      return success;
+    } catch (error) {
+      console.error('Error prompting for biometrics:', error);
+      return false;
+    }
+  }
+
+  private unlock(): void {
+    this.store?.dispatch(appUnlocked());
+  }
+
+  private async removePin(): Promise<void> {
+    try {
+      await storageService.removeItem(STORAGE_KEYS.APP_LOCK_PIN, true);
+    } catch (error) {
+      console.error('Error removing app lock PIN:', error);
+    }
+  }
+
+  /**
+   * Forget the PIN when the session ends
+   */
+  private handleStoreChange = () => {
+    const isAuthenticated = !!this.store?.getState().auth.isAuthenticated;
+    if (isAuthenticated === this.wasAuthenticated) return;
+
+    this.wasAuthenticated = isAuthenticated;
+    if (!isAuthenticated) {
+      this.removePin();
+    }
+  };
+}
+
+export const appLockService = new AppLockService();
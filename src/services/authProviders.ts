@@ -0,0 +1,173 @@
+import auth from '@react-native-firebase/auth';
+import { apiClient } from './apiClient';
+import { storageService } from './storageService';
+import { AuthTokens, credentialManager } from './credentialManager';
+import { AuthProviderName } from '../constants/environments';
+import { FIREBASE_AUTH, STORAGE_KEYS } from '../constants/appConstants';
+import { MfaChallenge, RegistrationData, User } from '../redux/slices/authSlice';
+
+// Password login, or completing an email-link sign-in with the opened link
+export type LoginCredentials =
+  | { username: string; password: string }
+  | { emailLink: string };
+
+// Signed-in user and our API tokens, whichever provider checked the credentials
+export interface AuthSession extends AuthTokens {
+  user: User;
+}
+
+// Our API asks supervisors and admins for a second factor before issuing tokens
+export type LoginResult = AuthSession | { mfaRequired: true; challenge: MfaChallenge };
+
+export interface AuthProvider {
+  supportsEmailLink: boolean;
+  login(credentials: LoginCredentials): Promise<LoginResult>;
+  register(userData: RegistrationData): Promise<void>;
+  logout(): Promise<void>;
+  requestPasswordReset(email: string): Promise<void>;
+  sendSignInLink(email: string): Promise<void>;
+  isSignInLink(link: string): boolean;
+}
+
+// Firebase error codes caregivers can act on
+const FIREBASE_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-email': 'Please enter a valid email address',
+  'auth/user-disabled': 'This account has been disabled, please contact your agency',
+  'auth/user-not-found': 'Incorrect email or password',
+  'auth/wrong-password': 'Incorrect email or password',
+  'auth/invalid-credential': 'Incorrect email or password',
+  'auth/too-many-requests': 'Too many attempts, please try again later',
+  'auth/email-already-in-use': 'An account already exists for this email address',
+  'auth/weak-password': 'Please choose a stronger password',
+  'auth/invalid-action-code': 'This sign-in link is invalid or has already been used',
+  'auth/expired-action-code': 'This sign-in link has expired, please request a new one',
+};
+
+// Thrown by the providers themselves, the message is written for caregivers
+class AuthProviderError extends Error {}
+
+/**
+ * Get a message to show for a failed auth request
+ * @param error Error thrown by a provider
+ * @param fallback Message used when the error has none to show
+ */
+export const getAuthErrorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message
+  || FIREBASE_ERROR_MESSAGES[error?.code]
+  || (error instanceof AuthProviderError ? error.message : fallback);
+
+/**
+ * Signs in against our own API
+ */
+class RestAuthProvider implements AuthProvider {
+  supportsEmailLink = false;
+
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
+    if (!('password' in credentials)) {
+      throw new AuthProviderError('Email-link sign-in is not available');
+    }
+    const deviceToken = await credentialManager.getDeviceToken() ?? undefined;
+    return apiClient.auth.login({ body: { ...credentials, deviceToken } });
+  }
+
+  async register(userData: RegistrationData): Promise<void> {
+    await apiClient.auth.register({ body: userData });
+  }
+
+  async logout(): Promise<void> {
+    // The API tokens are simply forgotten by credentialManager
+  }
+
+  async requestPasswordReset(email: string): Promise<void> {
+    await apiClient.auth.requestPasswordReset({ body: { email } });
+  }
+
+  async sendSignInLink(): Promise<void> {
+    throw new AuthProviderError('Email-link sign-in is not available');
+  }
+
+  isSignInLink(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Signs in against the agency's Firebase project, then exchanges the
+ * Firebase ID token for our API tokens. Caregivers sign in with their email
+ * address as the username.
+ */
+class FirebaseAuthProvider implements AuthProvider {
+  supportsEmailLink = true;
+
+  async login(credentials: LoginCredentials): Promise<LoginResult> {
+    const { user } = 'password' in credentials
+      ? await auth().signInWithEmailAndPassword(credentials.username.trim(), credentials.password)
+      : await this.signInWithLink(credentials.emailLink);
+
+    try {
+      const deviceToken = await credentialManager.getDeviceToken() ?? undefined;
+      return await apiClient.auth.exchangeFirebaseToken({
+        body: { idToken: await user.getIdToken(), deviceToken },
+      });
+    } catch (error) {
+      // Not signed in to the app, so not to Firebase either
+      await auth().signOut();
+      throw error;
+    }
+  }
+
+  async register({ email, password, firstName, lastName }: RegistrationData): Promise<void> {
+    const { user } = await auth().createUserWithEmailAndPassword(email.trim(), password);
+    await user.updateProfile({ displayName: `${firstName} ${lastName}` });
+    // Like the REST registration, caregivers sign in afterwards, and our API
+    // links the Firebase account to the caregiver on the first token exchange
+    await auth().signOut();
+  }
+
+  async logout(): Promise<void> {
+    if (auth().currentUser) {
+      await auth().signOut();
+    }
+  }
+
+  async requestPasswordReset(email: string): Promise<void> {
+    await auth().sendPasswordResetEmail(email);
+  }
+
+  async sendSignInLink(email: string): Promise<void> {
+    await auth().sendSignInLinkToEmail(email, {
+      url: FIREBASE_AUTH.EMAIL_LINK_URL,
+      handleCodeInApp: true,
+      iOS: { bundleId: FIREBASE_AUTH.IOS_BUNDLE_ID },
+      android: { packageName: FIREBASE_AUTH.ANDROID_PACKAGE_NAME, installApp: true },
+    });
+    // Firebase needs the address again when the link is opened
+    await storageService.setItem(STORAGE_KEYS.EMAIL_LINK_ADDRESS, email, true);
+  }
+
+  isSignInLink(link: string): boolean {
+    return auth().isSignInWithEmailLink(link);
+  }
+
+  private async signInWithLink(link: string) {
+    const email: string | null = await storageService.getItem(STORAGE_KEYS.EMAIL_LINK_ADDRESS, true, false);
+    if (!email) {
+      throw new AuthProviderError('Open the sign-in link on the device it was requested from');
+    }
+
+    const credential = await auth().signInWithEmailLink(email, link);
+    await storageService.removeItem(STORAGE_KEYS.EMAIL_LINK_ADDRESS, true);
+    return credential;
+  }
+}
+
+const AUTH_PROVIDERS: Record<AuthProviderName, AuthProvider> = {
+  rest: new RestAuthProvider(),
+  firebase: new FirebaseAuthProvider(),
+};
+
+/**
+ * Get the provider caregivers sign in with
+ * @param name Provider of the selected environment
+ */
+export const getAuthProvider = (name: AuthProviderName): AuthProvider => AUTH_PROVIDERS[name];
@@ -0,0 +1,185 @@
+import { EnhancedStore } from '@reduxjs/toolkit';
+import { storageService } from './storageService';
+import { STORAGE_KEYS } from '../constants/appConstants';
+import { RootState } from '../redux/store';
+import { setCredentials } from '../redux/slices/authSlice';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+interface StoredTokens {
+  token: string | null;
+  refreshToken: string | null;
+}
+
+// Tokens returned by a refresh, the server may keep the refresh token
+type RefreshedTokens = Pick<AuthTokens, 'token'> & Partial<Pick<AuthTokens, 'refreshToken'>>;
+
+/**
+ * Thrown when there is no session left to refresh, so retrying the refresh
+ * would fail the same way
+ */
+export class SessionNotRefreshableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionNotRefreshableError';
+  }
+}
+
+/**
+ * Single source of the auth tokens
+ * Tokens are kept only in EncryptedStorage, and in memory once read. Redux
+ * holds the signed-in user and is told through setCredentials when the
+ * tokens are refreshed.
+ */
+class CredentialManager {
+  private store: EnhancedStore<RootState> | null = null;
+  // Read from EncryptedStorage on first use
+  private tokens: Promise<StoredTokens> | null = null;
+  // In-flight refresh shared by every caller
+  private refreshPromise: Promise<string> | null = null;
+
+  /**
+   * Bind the manager to the Redux store holding the auth state
+   * @param store Redux store
+   */
+  attachStore(store: EnhancedStore<RootState>): void {
+    this.store = store;
+  }
+
+  /**
+   * Get the current auth token
+   * @returns The token, or null when signed out
+   */
+  async getToken(): Promise<string | null> {
+    return (await this.loadTokens()).token;
+  }
+
+  /**
+   * Get the current refresh token
+   * @returns The refresh token, or null when signed out
+   */
+  async getRefreshToken(): Promise<string | null> {
+    return (await this.loadTokens()).refreshToken;
+  }
+
+  /**
+   * Store tokens issued at sign in or by a refresh
+   * @param tokens New tokens, the refresh token is kept when not rotated
+   */
+  async saveTokens({ token, refreshToken }: RefreshedTokens): Promise<void> {
+    const current = await this.loadTokens();
+    this.tokens = Promise.resolve({ token, refreshToken: refreshToken ?? current.refreshToken });
+
+    await storageService.setItem(STORAGE_KEYS.AUTH_TOKEN, token, true);
+    if (refreshToken) {
+      await storageService.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken, true);
+    }
+  }
+
+  /**
+   * Refresh the tokens and tell Redux about it
+   * Concurrent callers share one refresh, since the server rotates the
+   * refresh token and only the first refresh with it succeeds
+   * @param request Exchange a refresh token for new tokens
+   * @returns The new auth token
+   */
+  refreshTokens(request: (refreshToken: string) => Promise<RefreshedTokens>): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runRefresh(request).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Get the token that marks this device as trusted, skipping MFA at sign in
+   * @returns The device token, or null if the device is not trusted
+   */
+  async getDeviceToken(): Promise<string | null> {
+    return storageService.getItem(STORAGE_KEYS.MFA_DEVICE_TOKEN, true, false);
+  }
+
+  /**
+   * Remember this device after an MFA challenge
+   * Kept across logouts, the server ties it to the user and decides how long
+   * it stays valid
+   * @param deviceToken Token issued by the server
+   */
+  async saveDeviceToken(deviceToken: string): Promise<void> {
+    await storageService.setItem(STORAGE_KEYS.MFA_DEVICE_TOKEN, deviceToken, true);
+  }
+
+  /**
+   * Forget the tokens, on logout or when they can no longer be refreshed
+   */
+  async clear(): Promise<void> {
+    this.tokens = Promise.resolve({ token: null, refreshToken: null });
+    await storageService.removeItem(STORAGE_KEYS.AUTH_TOKEN, true);
+    await storageService.removeItem(STORAGE_KEYS.REFRESH_TOKEN, true);
+  }
+
+  /**
+   * Take over tokens that older versions persisted in the auth slice
+   * EncryptedStorage also held them and is kept when it has a token, since
+   * only it was updated reliably on refresh.
+   * @param token Persisted auth token
+   * @param refreshToken Persisted refresh token
+   */
+  importLegacyTokens(token?: string | null, refreshToken?: string | null): void {
+    if (!token || !refreshToken) return;
+
+    const stored = this.loadTokens().catch(() => ({ token: null, refreshToken: null }));
+    this.tokens = stored.then(async (current) => {
+      if (current.token) {
+        return current;
+      }
+      try {
+        await storageService.setItem(STORAGE_KEYS.AUTH_TOKEN, token, true);
+        await storageService.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken, true);
+      } catch (error) {
+        console.error('Error migrating stored credentials:', error);
+      }
+      return { token, refreshToken };
+    });
+  }
+
+  private loadTokens(): Promise<StoredTokens> {
+    if (!this.tokens) {
+      const tokens = Promise.all([
+        storageService.getItem(STORAGE_KEYS.AUTH_TOKEN, true, false),
+        storageService.getItem(STORAGE_KEYS.REFRESH_TOKEN, true, false),
+      ]).then(([token, refreshToken]) => ({ token, refreshToken }));
+      this.tokens = tokens;
+      // Read again next time, EncryptedStorage can fail while the device is locked
+      tokens.catch(() => {
+        if (this.tokens === tokens) {
+          this.tokens = null;
+        }
+      });
+    }
+    return this.tokens;
+  }
+
+  private async runRefresh(request: (refreshToken: string) => Promise<RefreshedTokens>): Promise<string> {
+    const refreshToken = await this.getRefreshToken();
+    if (!refreshToken) {
+      throw new SessionNotRefreshableError('No refresh token stored');
+    }
+
+    const tokens = await request(refreshToken);
+    if (!tokens.token) {
+      throw new SessionNotRefreshableError('Token refresh returned no token');
+    }
+
+    await this.saveTokens(tokens);
+    this.store?.dispatch(setCredentials({ updatedAt: Date.now() }));
+
+    return tokens.token;
+  }
+}
+
+export const credentialManager = new CredentialManager();
@@ -0,0 +1,131 @@
+import { CommonActions, createNavigationContainerRef } from '@react-navigation/native';
+import { ROUTES } from '../constants/appConstants';
+import { RootStackParamList, RouteName, RouteParamList } from '../navigation/types';
+
+// Route and params, with params optional only for routes that take none
+type NavigationArgs<T extends RouteName> = undefined extends RouteParamList[T]
+  ? [route: T, params?: RouteParamList[T]]
+  : [route: T, params: RouteParamList[T]];
+
+interface PendingNavigation {
+  route: RouteName;
+  params?: object;
+  reset: boolean;
+}
+
+// Navigators each screen is nested in, outermost first
+const ROUTE_PARENTS: Record<RouteName, string[]> = {
+  [ROUTES.AUTH.LOGIN]: ['Auth'],
+  [ROUTES.AUTH.REGISTER]: ['Auth'],
+  [ROUTES.AUTH.FORGOT_PASSWORD]: ['Auth'],
+  [ROUTES.AUTH.MFA_CHALLENGE]: ['Auth'],
+  [ROUTES.MAIN.HOME]: ['Main'],
+  [ROUTES.MAIN.SCHEDULE]: ['Main'],
+  [ROUTES.MAIN.VISITS]: ['Main'],
+  [ROUTES.MAIN.PATIENTS]: ['Main'],
+  [ROUTES.MAIN.MESSAGES]: ['Main'],
+  [ROUTES.MAIN.PROFILE]: ['Main'],
+  VisitsList: ['Main', ROUTES.MAIN.VISITS],
+  [ROUTES.VISITS.VISIT_DETAILS]: ['Main', ROUTES.MAIN.VISITS],
+  [ROUTES.VISITS.CLOCK_IN]: ['Main', ROUTES.MAIN.VISITS],
+  [ROUTES.VISITS.CLOCK_OUT]: ['Main', ROUTES.MAIN.VISITS],
+  [ROUTES.VISITS.DOCUMENTATION]: ['Main', ROUTES.MAIN.VISITS],
+  [ROUTES.VISITS.VISIT_HISTORY]: ['Main', ROUTES.MAIN.VISITS],
+  PatientsList: ['Main', ROUTES.MAIN.PATIENTS],
+  [ROUTES.PATIENTS.PATIENT_DETAILS]: ['Main', ROUTES.MAIN.PATIENTS],
+  [ROUTES.PATIENTS.CARE_PLAN]: ['Main', ROUTES.MAIN.PATIENTS],
+  [ROUTES.PATIENTS.HEALTH_METRICS]: ['Main', ROUTES.MAIN.PATIENTS],
+  [ROUTES.PATIENTS.MEDICAL_HISTORY]: ['Main', ROUTES.MAIN.PATIENTS],
+  ScheduleMain: ['Main', ROUTES.MAIN.SCHEDULE],
+  [ROUTES.SCHEDULE.CALENDAR]: ['Main', ROUTES.MAIN.SCHEDULE],
+  [ROUTES.SCHEDULE.SHIFT_MARKETPLACE]: ['Main', ROUTES.MAIN.SCHEDULE],
+  [ROUTES.SCHEDULE.AVAILABILITY]: ['Main', ROUTES.MAIN.SCHEDULE],
+  MessagesMain: ['Main', ROUTES.MAIN.MESSAGES],
+  [ROUTES.MESSAGES.INBOX]: ['Main', ROUTES.MAIN.MESSAGES],
+  [ROUTES.MESSAGES.CONVERSATION]: ['Main', ROUTES.MAIN.MESSAGES],
+  [ROUTES.MESSAGES.NEW_MESSAGE]: ['Main', ROUTES.MAIN.MESSAGES],
+  [ROUTES.SYNC.CENTER]: [],
+  [ROUTES.SYNC.CONFLICTS]: [],
+  [ROUTES.SETTINGS.SECURITY]: [],
+};
+
+/**
+ * Navigation from outside React components (API auth expiry, push
+ * notification taps).
+ * Bound to the NavigationContainer in App.tsx. Screens can be targeted by
+ * their ROUTES name alone, the service builds the nested navigator params.
+ * A navigation requested before the container is ready, or before the
+ * target navigator is mounted (e.g. the auth stack right after logout),
+ * is held and performed once it becomes possible.
+ */
+class NavigationService {
+  readonly navigationRef = createNavigationContainerRef<RootStackParamList>();
+  private pending: PendingNavigation | null = null;
+
+  /**
+   * Navigate to a screen
+   * @param route Screen name from ROUTES
+   * @param params Screen params
+   */
+  navigate<T extends RouteName>(...[route, params]: NavigationArgs<T>): void {
+    this.perform({ route, params: params as object | undefined, reset: false });
+  }
+
+  /**
+   * Replace the navigation history with a single screen
+   * @param route Screen name from ROUTES
+   * @param params Screen params
+   */
+  reset<T extends RouteName>(...[route, params]: NavigationArgs<T>): void {
+    this.perform({ route, params: params as object | undefined, reset: true });
+  }
+
+  /**
+   * Go back if there is a screen to go back to
+   */
+  goBack(): void {
+    if (this.navigationRef.isReady() && this.navigationRef.canGoBack()) {
+      this.navigationRef.goBack();
+    }
+  }
+
+  /**
+   * Perform the held navigation once it can be performed
+   * Should be passed to the NavigationContainer's onReady and onStateChange
+   */
+  handleNavigationChange = () => {
+    if (this.pending) {
+      this.perform(this.pending);
+    }
+  };
+
+  private perform(navigation: PendingNavigation): void {
+    const [rootRoute, ...nestedRoutes] = [...ROUTE_PARENTS[navigation.route], navigation.route];
+
+    const isMounted = this.navigationRef.isReady() &&
+      this.navigationRef.getRootState().routeNames.includes(rootRoute as keyof RootStackParamList);
+    if (!isMounted) {
+      this.pending = navigation;
+      return;
+    }
+    this.pending = null;
+
+    // e.g. Main > Visits > VisitDetails becomes
+    // { screen: 'Visits', params: { screen: 'VisitDetails', params } }
+    const rootParams = nestedRoutes.reduceRight<object | undefined>(
+      (params, screen) => ({ screen, params }),
+      navigation.params
+    );
+
+    if (navigation.reset) {
+      this.navigationRef.dispatch(CommonActions.reset({
+        index: 0,
+        routes: [{ name: rootRoute, params: rootParams }],
+      }));
+    } else {
+      this.navigationRef.dispatch(CommonActions.navigate({ name: rootRoute, params: rootParams }));
+    }
+  }
+}
+
+export const navigationService = new NavigationService();
@@ -5,6 +5,8 @@ type ConnectivityListener = (isConnected: boolean) => void;
 class NetInfoService {
   private listeners: Set<ConnectivityListener> = new Set();
   private connected: boolean = true;
+  // Forced offline by the mock API, whatever the real connection
+  private simulatedOffline: boolean = false;
 
   constructor() {
     // Setup Net Info listener
@@ -47,10 +49,10 @@ class NetInfoService {
     try {
       const state = await NetInfo.fetch();
       this.connected = state.isConnected ?? false;
-      return this.connected;
+      return this.connected && !this.simulatedOffline;
     } catch (error) {
       console.error('Error checking connectivity:', error);
-      return this.connected; // Return last known state
+      return this.connected && !this.simulatedOffline; // Return last known state
     }
   }
 
@@ -62,6 +64,20 @@ class NetInfoService {
     return await NetInfo.fetch();
   }
 
+  /**
+   * Check if the current connection is metered (e.g. cellular data)
+   * @returns Promise resolving to true if data usage may be billed
+   */
+  async isConnectionExpensive(): Promise<boolean> {
+    try {
+      const state = await NetInfo.fetch();
+      return !!state.details?.isConnectionExpensive;
+    } catch (error) {
+      console.error('Error checking connection cost:', error);
+      return false;
+    }
+  }
+
   /**
    * Add connectivity change listener
    * @param listener Function to call on connectivity change
@@ -70,7 +86,7 @@ class NetInfoService {
     this.listeners.add(listener);
     
     // Notify immediately with current state
-    listener(this.connected);
+    listener(this.connected && !this.simulatedOffline);
   }
 
   /**
@@ -81,12 +97,24 @@ class NetInfoService {
     this.listeners.delete(listener);
   }
 
+  /**
+   * Report the device as offline even when it is connected
+   * @param offline Whether to simulate being offline
+   */
+  setSimulatedOffline(offline: boolean): void {
+    if (this.simulatedOffline !== offline) {
+      this.simulatedOffline = offline;
+      this.notifyListeners();
+    }
+  }
+
   /**
    * Notify all listeners of connectivity change
    */
   private notifyListeners(): void {
+    const isConnected = this.connected && !this.simulatedOffline;
     this.listeners.forEach(listener => {
-      listener(this.connected);
+      listener(isConnected);
     });
   }
 }
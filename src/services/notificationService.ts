@@ -0,0 +1,69 @@
+import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { navigationService } from './navigationService';
+import { NOTIFICATION_TYPES, ROUTES } from '../constants/appConstants';
+
+/**
+ * Opens the screen a push notification is about when the user taps it,
+ * whether the app was in the background or not running
+ */
+class NotificationService {
+  private unsubscribeOpened: (() => void) | null = null;
+
+  /**
+   * Start handling notification taps
+   */
+  async start(): Promise<void> {
+    try {
+      this.unsubscribeOpened?.();
+      this.unsubscribeOpened = messaging().onNotificationOpenedApp(this.handleNotificationOpened);
+
+      // App was launched by tapping a notification
+      const initialNotification = await messaging().getInitialNotification();
+      if (initialNotification) {
+        this.handleNotificationOpened(initialNotification);
+      }
+    } catch (error) {
+      console.error('Error setting up notification handlers:', error);
+    }
+  }
+
+  /**
+   * Stop handling notification taps
+   */
+  stop(): void {
+    this.unsubscribeOpened?.();
+    this.unsubscribeOpened = null;
+  }
+
+  /**
+   * Navigate to the screen matching a tapped notification
+   */
+  private handleNotificationOpened = (message: FirebaseMessagingTypes.RemoteMessage) => {
+    const data = message.data || {};
+    const visitId = typeof data.visitId === 'string' ? data.visitId : undefined;
+
+    switch (data.type) {
+      case NOTIFICATION_TYPES.VISIT_REMINDER:
+      case NOTIFICATION_TYPES.VISIT_UPDATED:
+        if (visitId) {
+          navigationService.navigate(ROUTES.VISITS.VISIT_DETAILS, { visitId });
+        } else {
+          navigationService.navigate(ROUTES.MAIN.VISITS);
+        }
+        break;
+      case NOTIFICATION_TYPES.SHIFT_AVAILABLE:
+        navigationService.navigate(ROUTES.SCHEDULE.SHIFT_MARKETPLACE);
+        break;
+      case NOTIFICATION_TYPES.NEW_MESSAGE:
+        navigationService.navigate(ROUTES.MAIN.MESSAGES);
+        break;
+      case NOTIFICATION_TYPES.SYNC_CONFLICT:
+        navigationService.navigate(ROUTES.SYNC.CONFLICTS, visitId ? { visitId } : undefined);
+        break;
+      default:
+        navigationService.navigate(ROUTES.MAIN.HOME);
+    }
+  };
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,221 @@
+import { io, Socket } from 'socket.io-client';
+import { AnyAction, EnhancedStore } from '@reduxjs/toolkit';
+import { z } from 'zod';
+import { credentialManager } from './credentialManager';
+import { realtimeEventSchemas } from './apiSchemas';
+import { REALTIME_EVENTS } from '../constants/apiConstants';
+import { REALTIME } from '../constants/appConstants';
+import { formatApiDate } from '../utils/dateUtils';
+import { RootState } from '../redux/store';
+import { LIST_ID, baseApi } from '../redux/api/baseApi';
+import { selectEnvironment } from '../redux/slices/environmentSlice';
+import { Schedule, schedulesReceived, shiftRequestUpdated } from '../redux/slices/scheduleSlice';
+import { visitCancelled, visitReassigned, visitsReceived } from '../redux/slices/visitSlice';
+import { messageReadByReceiver, messageReceived } from '../redux/slices/messageSlice';
+
+type RealtimeEventName = typeof REALTIME_EVENTS[keyof typeof REALTIME_EVENTS];
+
+// Payloads of the events pushed by the realtime server
+export type RealtimeEvents = {
+  [Event in RealtimeEventName]: z.infer<typeof realtimeEventSchemas[Event]>;
+};
+
+const scheduleTags = (schedule: Schedule) => [
+  { type: 'Schedule' as const, id: schedule.id },
+  { type: 'Schedule' as const, id: LIST_ID },
+  { type: 'Schedule' as const, id: formatApiDate(new Date(schedule.startTime)) },
+];
+
+const visitTags = (visitId: string, scheduledStartTime?: string) => [
+  { type: 'Visit' as const, id: visitId },
+  { type: 'Visit' as const, id: LIST_ID },
+  ...(scheduledStartTime
+    ? [{ type: 'Visit' as const, id: formatApiDate(new Date(scheduledStartTime)) }]
+    : []),
+];
+
+// Each event updates its slice, and invalidates the queries showing it so
+// open screens pick up the change
+const EVENT_HANDLERS: {
+  [Event in RealtimeEventName]: (payload: RealtimeEvents[Event], state: RootState) => AnyAction[];
+} = {
+  [REALTIME_EVENTS.SHIFT_APPROVED]: ({ request, schedule }) => [
+    shiftRequestUpdated(request),
+    schedulesReceived([schedule]),
+    baseApi.util.invalidateTags([{ type: 'AvailableShift', id: LIST_ID }, ...scheduleTags(schedule)]),
+  ],
+  [REALTIME_EVENTS.SHIFT_REJECTED]: ({ request }) => [
+    shiftRequestUpdated(request),
+    baseApi.util.invalidateTags([{ type: 'AvailableShift', id: LIST_ID }]),
+  ],
+  [REALTIME_EVENTS.SCHEDULE_CHANGED]: ({ schedule }) => [
+    schedulesReceived([schedule]),
+    baseApi.util.invalidateTags(scheduleTags(schedule)),
+  ],
+  // Sent to both caregivers, the visit only stays with its new one
+  [REALTIME_EVENTS.VISIT_REASSIGNED]: ({ visit }, state) => [
+    visit.caregiverId === state.auth.user?.id ? visitsReceived([visit]) : visitReassigned(visit.id),
+    baseApi.util.invalidateTags(visitTags(visit.id, visit.scheduledStartTime)),
+  ],
+  [REALTIME_EVENTS.VISIT_CANCELLED]: ({ visitId }, state) => [
+    visitCancelled(visitId),
+    baseApi.util.invalidateTags(visitTags(visitId, state.visits.entities[visitId]?.scheduledStartTime)),
+  ],
+  [REALTIME_EVENTS.MESSAGE_NEW]: ({ message }) => [
+    messageReceived(message),
+    baseApi.util.invalidateTags([{ type: 'Message', id: LIST_ID }, { type: 'Conversation', id: LIST_ID }]),
+  ],
+  [REALTIME_EVENTS.MESSAGE_READ]: ({ messageId }) => [
+    messageReadByReceiver(messageId),
+    baseApi.util.invalidateTags([{ type: 'Message', id: messageId }]),
+  ],
+};
+
+/**
+ * Keeps a socket.io connection to the selected environment's realtime server
+ * while the user is signed in and the device is online, and applies the
+ * schedule, visit and message events it pushes.
+ * Dropped connections are retried with backoff. Events missed meanwhile are
+ * caught up by refetching the synced collections once reconnected.
+ */
+class RealtimeService {
+  private store: EnhancedStore<RootState> | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private socket: Socket | null = null;
+  // URL of the current socket, null while disconnected
+  private socketUrl: string | null = null;
+  private hasConnected: boolean = false;
+  // Connection attempts refused by the server in a row
+  private refusedAttempts: number = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start following the auth, connectivity and environment state
+   * Should be called once the persisted state has been rehydrated
+   * @param store Redux store
+   */
+  start(store: EnhancedStore<RootState>): void {
+    this.store = store;
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = store.subscribe(this.updateConnection);
+    this.updateConnection();
+  }
+
+  /**
+   * Disconnect and stop following the store
+   */
+  stop(): void {
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+    this.disconnect();
+  }
+
+  /**
+   * Connect, disconnect or switch servers to match the current state
+   */
+  private updateConnection = () => {
+    if (!this.store) return;
+
+    const state = this.store.getState();
+    const environment = selectEnvironment(state);
+    // The mock API has no realtime server
+    const socketUrl = state.auth.isAuthenticated && state.offline.isOnline && !environment.mockApi
+      ? environment.socketUrl
+      : null;
+    if (socketUrl === this.socketUrl) return;
+
+    this.disconnect();
+    if (socketUrl) {
+      this.connect(socketUrl);
+    }
+  };
+
+  private connect(socketUrl: string): void {
+    const socket = io(socketUrl, {
+      transports: ['websocket'],
+      // Read on every attempt, so reconnections use the latest refreshed token
+      auth: (callback) => {
+        credentialManager.getToken()
+          .then(token => callback({ token }))
+          .catch(() => callback({}));
+      },
+      reconnectionDelay: REALTIME.BASE_RECONNECT_DELAY,
+      reconnectionDelayMax: REALTIME.MAX_RECONNECT_DELAY,
+      randomizationFactor: REALTIME.RECONNECT_JITTER,
+    });
+
+    socket.on('connect', this.handleConnect);
+    socket.on('connect_error', this.handleConnectError);
+    Object.values(REALTIME_EVENTS).forEach(event => {
+      socket.on(event, (payload: unknown) => this.handleEvent(event, payload));
+    });
+
+    this.socket = socket;
+    this.socketUrl = socketUrl;
+  }
+
+  private disconnect(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.socket?.removeAllListeners();
+    this.socket?.disconnect();
+    this.socket = null;
+    this.socketUrl = null;
+    this.hasConnected = false;
+    this.refusedAttempts = 0;
+  }
+
+  private handleConnect = () => {
+    this.refusedAttempts = 0;
+    if (this.hasConnected) {
+      this.store?.dispatch(baseApi.util.invalidateTags([
+        { type: 'Visit', id: LIST_ID },
+        { type: 'Schedule', id: LIST_ID },
+        { type: 'Message', id: LIST_ID },
+        { type: 'Conversation', id: LIST_ID },
+      ]));
+    }
+    this.hasConnected = true;
+  };
+
+  /**
+   * Retry a connection refused by the server
+   * socket.io retries dropped connections by itself, but not one the server
+   * refused (e.g. with an expired token, refreshed meanwhile by the API).
+   */
+  private handleConnectError = (error: Error) => {
+    const socket = this.socket;
+    if (!socket || socket.active) return;
+
+    console.error('Realtime connection refused:', error.message);
+    this.refusedAttempts += 1;
+    const delay = Math.min(
+      REALTIME.BASE_RECONNECT_DELAY * Math.pow(2, this.refusedAttempts - 1),
+      REALTIME.MAX_RECONNECT_DELAY
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      socket.connect();
+    }, delay);
+  };
+
+  /**
+   * Validate an event's payload and apply it
+   */
+  private handleEvent(event: RealtimeEventName, payload: unknown): void {
+    if (!this.store) return;
+
+    const result = realtimeEventSchemas[event].safeParse(payload);
+    if (!result.success) {
+      console.error(`Ignoring invalid realtime event ${event}:`, result.error.issues);
+      return;
+    }
+
+    const handler = EVENT_HANDLERS[event] as (payload: unknown, state: RootState) => AnyAction[];
+    handler(result.data, this.store.getState()).forEach(action => this.store?.dispatch(action));
+  }
+}
+
+export const realtimeService = new RealtimeService();
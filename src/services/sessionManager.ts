@@ -0,0 +1,140 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { EnhancedStore } from '@reduxjs/toolkit';
+import { SESSION, TIMEOUTS } from '../constants/appConstants';
+import { AppDispatch, RootState } from '../redux/store';
+import { logout, sessionActivityRecorded } from '../redux/slices/authSlice';
+import { appLockService } from './appLockService';
+
+/**
+ * Ends sessions left idle on an unattended phone.
+ * After TIMEOUTS.INACTIVITY without a touch the app locks, or signs out if no
+ * app lock PIN is set. After TIMEOUTS.SESSION_EXPIRY it signs out even when
+ * locked. Time in the background and between launches counts as idle.
+ * Documentation drafts and queued mutations survive a session expiring, see
+ * draftSlice and offlineSlice.
+ */
+class SessionManager {
+  private store: EnhancedStore<RootState> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private unsubscribeStore: (() => void) | null = null;
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+  private lastActivityAt: number = Date.now();
+  private wasAuthenticated: boolean = false;
+  private wasLocked: boolean = false;
+
+  /**
+   * Start watching for inactivity
+   * Should be called once the persisted state has been rehydrated
+   * @param store Redux store
+   */
+  start(store: EnhancedStore<RootState>): void {
+    this.store = store;
+    const { auth, appLock } = store.getState();
+    this.wasAuthenticated = auth.isAuthenticated;
+    this.wasLocked = appLock.isLocked;
+    // Idle time before the app was closed still counts
+    this.lastActivityAt = auth.lastActiveAt ?? Date.now();
+
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = store.subscribe(this.handleStoreChange);
+
+    // Relaunching the app does not skip the lock
+    appLockService.lock();
+    this.checkSession();
+    if (AppState.currentState === 'active') {
+      this.startCheckTimer();
+    }
+  }
+
+  /**
+   * Stop watching for inactivity
+   */
+  stop(): void {
+    this.stopCheckTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeStore?.();
+    this.unsubscribeStore = null;
+  }
+
+  /**
+   * Restart the inactivity countdown, called on every touch
+   * Touches on the lock screen do not count, so a locked device still expires
+   */
+  recordActivity = () => {
+    if (this.store?.getState().appLock.isLocked) return;
+    this.lastActivityAt = Date.now();
+  };
+
+  /**
+   * Check inactivity when the app is resumed, and only count down in the foreground
+   */
+  private handleAppStateChange = (nextState: AppStateStatus) => {
+    if (nextState === 'active') {
+      this.checkSession();
+      this.startCheckTimer();
+    } else {
+      this.saveActivity();
+      this.stopCheckTimer();
+    }
+  };
+
+  /**
+   * Start counting from a fresh login or unlock
+   * Biometric unlocks happen in a system prompt, without a touch on the app
+   */
+  private handleStoreChange = () => {
+    if (!this.store) return;
+
+    const { auth, appLock } = this.store.getState();
+    const isSessionResumed = (auth.isAuthenticated && !this.wasAuthenticated)
+      || (!appLock.isLocked && this.wasLocked);
+    this.wasAuthenticated = auth.isAuthenticated;
+    this.wasLocked = appLock.isLocked;
+
+    if (isSessionResumed) {
+      this.recordActivity();
+    }
+  };
+
+  private checkSession = () => {
+    if (!this.store?.getState().auth.isAuthenticated) return;
+
+    this.saveActivity();
+    const idleTime = Date.now() - this.lastActivityAt;
+    const { isEnabled } = this.store.getState().appLock;
+    const dispatch = this.store.dispatch as AppDispatch;
+
+    if (idleTime >= TIMEOUTS.SESSION_EXPIRY || (idleTime >= TIMEOUTS.INACTIVITY && !isEnabled)) {
+      dispatch(logout('session_expired'));
+    } else if (idleTime >= TIMEOUTS.INACTIVITY) {
+      appLockService.lock();
+    }
+  };
+
+  /**
+   * Persist the last interaction so expiry also applies after a restart
+   */
+  private saveActivity(): void {
+    if (this.store?.getState().auth.isAuthenticated
+      && this.store.getState().auth.lastActiveAt !== this.lastActivityAt) {
+      this.store.dispatch(sessionActivityRecorded(this.lastActivityAt));
+    }
+  }
+
+  private startCheckTimer(): void {
+    this.stopCheckTimer();
+    this.checkTimer = setInterval(this.checkSession, SESSION.ACTIVITY_CHECK_INTERVAL);
+  }
+
+  private stopCheckTimer(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+}
+
+export const sessionManager = new SessionManager();
@@ -99,3 +99,13 @@ class StorageService {
 }
 
 export const storageService = new StorageService();
+
+/**
+ * redux-persist storage engine backed by EncryptedStorage
+ * Used for slices that cache PHI so it is encrypted at rest
+ */
+export const encryptedPersistStorage = {
+  getItem: (key: string): Promise<string | null> => EncryptedStorage.getItem(key).then(value => value ?? null),
+  setItem: (key: string, value: string): Promise<void> => EncryptedStorage.setItem(key, value),
+  removeItem: (key: string): Promise<void> => EncryptedStorage.removeItem(key),
+};
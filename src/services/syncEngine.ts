@@ -0,0 +1,584 @@
+import { AsyncThunk, isRejected } from '@reduxjs/toolkit';
+import { AxiosHeaders, AxiosRequestConfig } from 'axios';
+import { apiService } from './apiService';
+import { netInfoService } from './netInfoService';
+import { storageService } from './storageService';
+import { HEADERS } from '../constants/apiConstants';
+import { OFFLINE_QUEUE, STORAGE_KEYS } from '../constants/appConstants';
+import { AppStore } from '../redux/store';
+import { API_TAGS, baseApi } from '../redux/api/baseApi';
+import {
+  ConflictResolution,
+  PendingMutation,
+  QueuedRequestConfig,
+  conflictDetected,
+  conflictResolved,
+  discardDeadLetter,
+  discardPendingMutation,
+  enqueueMutation,
+  mutationFailed,
+  mutationQuarantined,
+  mutationStarted,
+  mutationSucceeded,
+  requeueDeadLetter,
+  retryPendingMutation,
+  setSyncing,
+} from '../redux/slices/offlineSlice';
+import { mergeVisits } from '../utils/conflictUtils';
+import { generateId } from '../utils/idUtils';
+import {
+  classifyRequestError,
+  getBackoffDelay,
+  getRequestErrorMessage,
+} from '../utils/requestErrorUtils';
+
+// Thunk details attached to an axios config so a failed request is queued
+// as a re-dispatch of the thunk rather than as a raw request
+export interface OfflineActionConfig {
+  type: string;
+  arg: unknown;
+  requestId?: string;
+}
+
+// Optional argument fields set when a thunk is queued and replayed
+export interface OfflineReplayArg {
+  // Reused on every replay so the server applies the mutation once
+  idempotencyKey?: string;
+  // Version of the resource the change was made against, sent as If-Match
+  baseVersion?: string;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    offlineAction?: OfflineActionConfig;
+  }
+}
+
+/**
+ * Build the request config for an API call made by an offline-capable thunk
+ * @param type Thunk type prefix
+ * @param arg Thunk argument
+ * @param requestId ID of the thunk dispatch making the call
+ * @returns Axios config linking the request back to the thunk
+ */
+export const withOfflineReplay = (
+  type: string,
+  arg: OfflineReplayArg & Record<string, any>,
+  requestId?: string
+): AxiosRequestConfig => {
+  const { idempotencyKey, ...replayArg } = arg;
+  const headers: Record<string, string> = {};
+  if (idempotencyKey) {
+    headers[HEADERS.IDEMPOTENCY_KEY] = idempotencyKey;
+  }
+  if (arg.baseVersion) {
+    headers[HEADERS.IF_MATCH] = arg.baseVersion;
+  }
+
+  return {
+    offlineAction: { type, arg: replayArg, requestId },
+    headers,
+  };
+};
+
+/**
+ * Single owner of every pending mutation in the app.
+ * Raw apiService requests and offline-capable thunks are queued into the
+ * persisted offline slice, drained by one processing loop and reported
+ * through one status API (the offline slice selectors).
+ */
+class SyncEngine {
+  private store: AppStore | null = null;
+  private thunks: Map<string, AsyncThunk<unknown, unknown, {}>> = new Map();
+  private thunkDedupKeys: Map<string, (arg: unknown) => string> = new Map();
+  private thunkUploads: Map<string, (arg: unknown) => boolean> = new Map();
+  private replayErrors: Map<string, unknown> = new Map();
+  private isProcessing: boolean = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Bind the engine to the Redux store holding the queue
+   * Should be called once the persisted state has been rehydrated
+   * @param store Redux store
+   */
+  async attachStore(store: AppStore): Promise<void> {
+    this.store = store;
+    store.dispatch(setSyncing(false));
+
+    await this.migrateLegacyQueue();
+  }
+
+  /**
+   * Register a thunk that can be queued and re-dispatched later
+   * @param thunk Async thunk action creator
+   * @param getDedupKey Key of the resource the thunk mutates, for thunks
+   * queued at most once per resource (e.g. clocking in to a visit)
+   * @param hasUpload Whether replaying the thunk uploads a media file
+   */
+  registerThunk<Returned, ThunkArg, ThunkApiConfig extends {}>(
+    thunk: AsyncThunk<Returned, ThunkArg, ThunkApiConfig>,
+    getDedupKey?: (arg: ThunkArg) => string,
+    hasUpload?: (arg: ThunkArg) => boolean
+  ): void {
+    // Replayed with the argument it was queued with, so of the thunk's own type
+    this.thunks.set(thunk.typePrefix, thunk as AsyncThunk<unknown, unknown, {}>);
+    if (getDedupKey) {
+      this.thunkDedupKeys.set(thunk.typePrefix, getDedupKey as (arg: unknown) => string);
+    }
+    if (hasUpload) {
+      this.thunkUploads.set(thunk.typePrefix, hasUpload as (arg: unknown) => boolean);
+    }
+  }
+
+  /**
+   * Import requests queued by the old standalone offline queue
+   */
+  private async migrateLegacyQueue(): Promise<void> {
+    try {
+      const legacyQueue = await storageService.getItem(STORAGE_KEYS.OFFLINE_DATA);
+      const legacyDeadLetters = await storageService.getItem(STORAGE_KEYS.OFFLINE_DEAD_LETTERS);
+      const legacyRequests = [...(legacyQueue || []), ...(legacyDeadLetters || [])];
+
+      legacyRequests.forEach((request: any) => {
+        if (request?.config) {
+          this.enqueue({
+            kind: 'request',
+            type: `${request.config.method.toUpperCase()} ${request.config.url}`,
+            config: request.config,
+            idempotencyKey: request.idempotencyKey || generateId(),
+          });
+        }
+      });
+
+      await storageService.removeItem(STORAGE_KEYS.OFFLINE_DATA);
+      await storageService.removeItem(STORAGE_KEYS.OFFLINE_DEAD_LETTERS);
+    } catch (error) {
+      console.error('Failed to migrate legacy offline queue:', error);
+    }
+  }
+
+  /**
+   * Convert an axios config into a plain object that can be persisted
+   * @param config Axios request config
+   */
+  private toQueuedConfig(config: AxiosRequestConfig): QueuedRequestConfig {
+    const headers: Record<string, string> = {};
+    const { headers: rawHeaders = {} } = config;
+    const headerEntries = rawHeaders instanceof AxiosHeaders ? rawHeaders.toJSON() : rawHeaders;
+    Object.entries(headerEntries).forEach(([key, value]) => {
+      // The auth header is re-applied on replay so a refreshed token is used
+      if (value !== undefined && value !== null && key.toLowerCase() !== 'authorization') {
+        headers[key] = String(value);
+      }
+    });
+
+    return {
+      method: (config.method || 'get').toLowerCase(),
+      url: config.url || '',
+      data: config.data,
+      params: config.params,
+      headers,
+    };
+  }
+
+  /**
+   * Add a mutation to the queue
+   * Mutations already queued (same idempotency key, or same dedup key when
+   * one is set) are not queued again
+   * @returns The queued mutation, or null when it was not queued
+   */
+  private enqueue(
+    mutation: Omit<PendingMutation, 'id' | 'timestamp' | 'attempts' | 'lastError' | 'nextRetryAt'>
+  ): PendingMutation | null {
+    if (!this.store) {
+      console.warn('Sync engine is not attached to a store, mutation dropped:', mutation.type);
+      return null;
+    }
+
+    const pendingMutation: PendingMutation = {
+      ...mutation,
+      id: generateId(),
+      timestamp: Date.now(),
+      attempts: 0,
+      lastError: null,
+      nextRetryAt: null,
+    };
+    this.store.dispatch(enqueueMutation(pendingMutation));
+
+    const isQueued = this.store.getState().offline.pendingActions.some(
+      (pending) => pending.id === pendingMutation.id
+    );
+    if (!isQueued) {
+      console.warn('Mutation already queued, not queued again:', mutation.type);
+      return null;
+    }
+
+    return pendingMutation;
+  }
+
+  /**
+   * Queue a failed apiService request for later
+   * Requests made by offline-capable thunks are queued as the thunk itself
+   * @param config Axios request config
+   * @returns The queued mutation, or null when it was not queued
+   */
+  async enqueueRequest(config: AxiosRequestConfig): Promise<PendingMutation | null> {
+    const queuedConfig = this.toQueuedConfig(config);
+    const idempotencyKey = queuedConfig.headers[HEADERS.IDEMPOTENCY_KEY] || generateId();
+    queuedConfig.headers[HEADERS.IDEMPOTENCY_KEY] = idempotencyKey;
+
+    if (config.offlineAction) {
+      const { type, arg, requestId } = config.offlineAction;
+      return this.enqueue({
+        kind: 'thunk',
+        type,
+        arg,
+        requestId,
+        idempotencyKey,
+        dedupKey: this.thunkDedupKeys.get(type)?.(arg),
+      });
+    }
+
+    return this.enqueue({
+      kind: 'request',
+      type: `${queuedConfig.method.toUpperCase()} ${queuedConfig.url}`,
+      config: queuedConfig,
+      idempotencyKey,
+    });
+  }
+
+  /**
+   * Queue an offline-capable thunk for later
+   * @param type Thunk type prefix
+   * @param arg Thunk argument
+   * @param dedupKey Key identifying the resource the thunk mutates, if it
+   * is queued at most once per resource
+   * @param requestId ID of the intercepted thunk dispatch
+   * @returns The queued mutation, or null when it was not queued
+   */
+  enqueueThunk(
+    type: string,
+    arg: unknown,
+    dedupKey?: string,
+    requestId?: string
+  ): PendingMutation | null {
+    return this.enqueue({
+      kind: 'thunk',
+      type,
+      arg,
+      requestId,
+      idempotencyKey: generateId(),
+      dedupKey,
+    });
+  }
+
+  /**
+   * Record the error of a request made while replaying a thunk, so the
+   * thunk's rejection can be classified like a raw request failure
+   * @param config Axios request config
+   * @param error Error thrown by axios
+   */
+  captureReplayError(config: AxiosRequestConfig, error: any): void {
+    const idempotencyKey = config.headers?.[HEADERS.IDEMPOTENCY_KEY];
+    if (config.offlineAction && typeof idempotencyKey === 'string') {
+      this.replayErrors.set(idempotencyKey, error);
+    }
+  }
+
+  /**
+   * Execute a single pending mutation against the server
+   */
+  private async execute(mutation: PendingMutation): Promise<void> {
+    if (mutation.kind === 'request' && mutation.config) {
+      await apiService.request(mutation.config);
+      return;
+    }
+
+    const thunk = this.thunks.get(mutation.type);
+    if (!thunk || !this.store) {
+      throw new Error(`No offline handler registered for ${mutation.type}`);
+    }
+
+    this.replayErrors.delete(mutation.idempotencyKey);
+    const resultAction = await this.store.dispatch(
+      thunk({ ...mutation.arg, idempotencyKey: mutation.idempotencyKey })
+    );
+
+    if (isRejected(resultAction)) {
+      const requestError = this.replayErrors.get(mutation.idempotencyKey);
+      this.replayErrors.delete(mutation.idempotencyKey);
+      throw requestError || new Error(
+        typeof resultAction.payload === 'string' ? resultAction.payload : resultAction.error.message
+      );
+    }
+  }
+
+  /**
+   * Process the queue
+   * - Server and network errors are retried with exponential backoff
+   * - Client errors (e.g. 400 on a cancelled visit) are quarantined right away
+   * - Conflicts (the visit changed on the server) wait for the user to resolve them
+   * - A mutation that keeps failing is quarantined after MAX_ATTEMPTS
+   * - Mutations of a visit wait while an earlier one for it is backing off,
+   *   quarantined or in conflict, so a clock out never goes before its clock in
+   * - On a metered connection, processing stops at the first mutation
+   *   uploading a media file unless the user asked for the sync
+   * @param options.isManual Whether the user asked for the sync
+   */
+  async processQueue({ isManual = false }: { isManual?: boolean } = {}): Promise<void> {
+    // Kept from an expired session until its user signs back in
+    if (!this.store || this.isProcessing || this.store.getState().offline.heldForUserId) return;
+
+    this.isProcessing = true;
+
+    // Offline: wait for the connectivity listener to restart processing
+    const isConnected = await netInfoService.isConnected();
+    if (!isConnected) {
+      this.isProcessing = false;
+      return;
+    }
+
+    const deferUploads = !isManual && await netInfoService.isConnectionExpensive();
+    const { dispatch, getState } = this.store;
+    dispatch(setSyncing(true));
+
+    try {
+      // Process each due mutation in order
+      const now = Date.now();
+      const { pendingActions, deadLetters, conflicts } = getState().offline;
+      const heldVisitIds = new Set(
+        [...deadLetters, ...conflicts.map((conflict) => conflict.mutation)]
+          .map((mutation) => mutation.arg?.visitId)
+          .filter((visitId): visitId is string => !!visitId)
+      );
+
+      let syncedCount = 0;
+      for (const mutation of pendingActions) {
+        const visitId: string | undefined = mutation.arg?.visitId;
+        if (visitId && heldVisitIds.has(visitId)) continue;
+
+        if (mutation.nextRetryAt !== null && mutation.nextRetryAt > now) {
+          if (visitId) heldVisitIds.add(visitId);
+          continue;
+        }
+
+        // Discarded by the user while earlier mutations were being sent
+        const isStillPending = getState().offline.pendingActions.some(
+          (pending) => pending.id === mutation.id
+        );
+        if (!isStillPending) continue;
+
+        // Sent in order, so the mutations after it wait for the upload too
+        if (deferUploads && this.hasUpload(mutation)) break;
+
+        dispatch(mutationStarted({ id: mutation.id }));
+        const attempts = mutation.attempts + 1;
+
+        try {
+          await this.execute(mutation);
+          dispatch(mutationSucceeded({ id: mutation.id }));
+          syncedCount += 1;
+        } catch (error: any) {
+          console.error(`Failed to process pending mutation ${mutation.id}:`, error);
+          if (visitId) heldVisitIds.add(visitId);
+          const errorType = classifyRequestError(error);
+          const message = getRequestErrorMessage(error);
+
+          if (errorType === 'conflict' && this.recordConflict(mutation, error)) {
+            continue;
+          }
+
+          if (errorType === 'client' || errorType === 'conflict' || attempts >= OFFLINE_QUEUE.MAX_ATTEMPTS) {
+            dispatch(mutationQuarantined({
+              id: mutation.id,
+              error: message,
+              errorType,
+              status: error?.response?.status,
+            }));
+            continue;
+          }
+
+          dispatch(mutationFailed({
+            id: mutation.id,
+            error: message,
+            nextRetryAt: Date.now() + getBackoffDelay(attempts),
+          }));
+
+          if (errorType === 'network') {
+            break; // Connection dropped, the rest would fail the same way
+          }
+        }
+      }
+
+      // Queries refetched on reconnect may have run before the replays
+      if (syncedCount > 0) {
+        dispatch(baseApi.util.invalidateTags([...API_TAGS]));
+      }
+    } catch (error) {
+      console.error('Error processing pending mutations:', error);
+    } finally {
+      this.isProcessing = false;
+      dispatch(setSyncing(false));
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Check whether replaying a mutation uploads a media file
+   * @param mutation Pending mutation
+   */
+  private hasUpload(mutation: PendingMutation): boolean {
+    return mutation.kind === 'thunk' && !!this.thunkUploads.get(mutation.type)?.(mutation.arg);
+  }
+
+  /**
+   * Move a mutation rejected with a conflict out of the queue, keeping the
+   * local and server copies of the record for the user to compare
+   * @param mutation Pending mutation
+   * @param error Error thrown by axios
+   * @returns Whether a conflict could be recorded for the mutation
+   */
+  private recordConflict(mutation: PendingMutation, error: any): boolean {
+    const visitId: string | undefined = mutation.arg?.visitId;
+    const responseData = error?.response?.data;
+    const serverCopy = responseData?.current ?? responseData;
+    if (!this.store || !visitId || !serverCopy?.id) {
+      return false;
+    }
+
+    this.store.dispatch(conflictDetected({
+      id: generateId(),
+      mutation,
+      entityType: 'visit',
+      entityId: visitId,
+      localCopy: this.store.getState().visits.entities[visitId],
+      serverCopy,
+      detectedAt: Date.now(),
+    }));
+
+    return true;
+  }
+
+  /**
+   * Resolve a sync conflict
+   * - mine: replay the local change against the server's current version
+   * - server: drop the local change and keep the server copy
+   * - merge: combine notes and documents, then replay against the server's version
+   * @param id Conflict ID
+   * @param resolution Version the user chose
+   */
+  resolveConflict(id: string, resolution: ConflictResolution): void {
+    if (!this.store) return;
+
+    const conflict = this.store.getState().offline.conflicts.find(
+      (pending) => pending.id === id
+    );
+    if (!conflict) return;
+
+    const { mutation, localCopy, serverCopy } = conflict;
+    const mergedCopy = resolution === 'merge' && localCopy
+      ? mergeVisits(localCopy, serverCopy)
+      : undefined;
+    const resolvedCopy = resolution === 'server' ? serverCopy : mergedCopy;
+
+    this.store.dispatch(conflictResolved({ conflict, resolution, resolvedCopy }));
+
+    if (resolution === 'server') return;
+
+    const arg = { ...mutation.arg, baseVersion: serverCopy.version };
+    if (mergedCopy && arg.notes !== undefined) {
+      arg.notes = mergedCopy.notes;
+    }
+
+    // A new idempotency key, the server never applied the conflicting attempt
+    this.enqueue({
+      kind: mutation.kind,
+      type: mutation.type,
+      arg,
+      requestId: mutation.requestId,
+      idempotencyKey: generateId(),
+      dedupKey: mutation.dedupKey,
+    });
+    this.processQueue();
+  }
+
+  /**
+   * Schedule the next processing run for the earliest pending retry
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.store) return;
+
+    const retryTimes = this.store.getState().offline.pendingActions
+      .map((mutation) => mutation.nextRetryAt)
+      .filter((retryAt): retryAt is number => retryAt !== null);
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+
+  /**
+   * Move a quarantined mutation back into the queue and retry it
+   * @param id Pending mutation ID
+   */
+  retryDeadLetter(id: string): void {
+    if (!this.store) return;
+
+    this.store.dispatch(requeueDeadLetter({ id }));
+    this.processQueue({ isManual: true });
+  }
+
+  /**
+   * Retry a pending mutation now instead of waiting for its backoff delay
+   * @param id Pending mutation ID
+   */
+  retryPendingNow(id: string): void {
+    if (!this.store) return;
+
+    this.store.dispatch(retryPendingMutation({ id }));
+    this.processQueue({ isManual: true });
+  }
+
+  /**
+   * Drop a pending mutation before it reaches the server
+   * The mutation currently being sent cannot be discarded
+   * @param id Pending mutation ID
+   * @returns Whether the mutation was discarded
+   */
+  discardPending(id: string): boolean {
+    if (!this.store) return false;
+
+    const { offline } = this.store.getState();
+    const mutation = offline.pendingActions.find((pending) => pending.id === id);
+    if (!mutation || offline.activeMutationId === id) {
+      return false;
+    }
+
+    this.store.dispatch(discardPendingMutation(mutation));
+    return true;
+  }
+
+  /**
+   * Drop a quarantined mutation for good
+   * @param id Pending mutation ID
+   */
+  discardDeadLetter(id: string): void {
+    if (!this.store) return;
+
+    const deadLetter = this.store.getState().offline.deadLetters.find(
+      (mutation) => mutation.id === id
+    );
+    if (deadLetter) {
+      this.store.dispatch(discardDeadLetter(deadLetter));
+    }
+  }
+}
+
+export const syncEngine = new SyncEngine();
@@ -0,0 +1,167 @@
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import DeviceInfo from 'react-native-device-info';
+import { EnhancedStore } from '@reduxjs/toolkit';
+import { netInfoService } from './netInfoService';
+import { SYNC, TIMEOUTS } from '../constants/appConstants';
+import { AppDispatch, RootState } from '../redux/store';
+import {
+  SyncPauseReason,
+  setSyncPaused,
+  syncCompleted,
+  syncOfflineData,
+} from '../redux/slices/offlineSlice';
+import { selectFeatureFlags } from '../redux/slices/environmentSlice';
+import { visitApi } from '../redux/api/visitApi';
+import { scheduleApi } from '../redux/api/scheduleApi';
+
+/**
+ * Runs a full sync every TIMEOUTS.SYNC_INTERVAL while the app is in the
+ * foreground, and once each time the app is resumed.
+ * A sync drains the pending mutation queue, then refreshes today's visits
+ * and schedules. Background runs are skipped on low battery. On metered
+ * connections they only send the queued mutations up to the first media
+ * upload, and skip the refresh. A manual sync always runs in full.
+ */
+class SyncScheduler {
+  private store: EnhancedStore<RootState> | null = null;
+  private intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private isRunning: boolean = false;
+
+  /**
+   * Start scheduling syncs
+   * Should be called once the persisted state has been rehydrated
+   * @param store Redux store
+   */
+  start(store: EnhancedStore<RootState>): void {
+    this.store = store;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    if (AppState.currentState === 'active') {
+      this.startInterval();
+    }
+  }
+
+  /**
+   * Stop scheduling syncs
+   */
+  stop(): void {
+    this.stopInterval();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  /**
+   * Sync immediately, regardless of battery level or connection cost
+   * @returns True if the sync completed
+   */
+  async syncNow(): Promise<boolean> {
+    return this.runSync(true);
+  }
+
+  /**
+   * Handle the app moving between foreground and background
+   */
+  private handleAppStateChange = (nextState: AppStateStatus) => {
+    if (nextState === 'active') {
+      this.runSync(false);
+      this.startInterval();
+    } else {
+      this.stopInterval();
+    }
+  };
+
+  private startInterval(): void {
+    this.stopInterval();
+    this.intervalTimer = setInterval(() => {
+      // Checked on every tick so switching environments takes effect right away
+      if (this.store && selectFeatureFlags(this.store.getState()).backgroundSync) {
+        this.runSync(false);
+      }
+    }, TIMEOUTS.SYNC_INTERVAL);
+  }
+
+  private stopInterval(): void {
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+  }
+
+  /**
+   * Check whether background sync should be skipped right now
+   * @returns The reason to pause, or null if sync can run
+   */
+  private async getPauseReason(): Promise<SyncPauseReason | null> {
+    try {
+      const powerState = await DeviceInfo.getPowerState();
+      const isCharging = powerState.batteryState === 'charging' || powerState.batteryState === 'full';
+      const isLowBattery = powerState.lowPowerMode ||
+        (powerState.batteryLevel !== undefined && powerState.batteryLevel < SYNC.LOW_BATTERY_LEVEL);
+      if (isLowBattery && !isCharging) {
+        return 'low_battery';
+      }
+    } catch (error) {
+      console.error('Error reading battery state:', error);
+    }
+
+    if (await netInfoService.isConnectionExpensive()) {
+      return 'metered';
+    }
+
+    return null;
+  }
+
+  /**
+   * Drain the queue and refresh today's data
+   * @param isManual Whether the user asked for the sync
+   * @returns True if the sync completed
+   */
+  private async runSync(isManual: boolean): Promise<boolean> {
+    if (!this.store || this.isRunning) return false;
+
+    const { getState } = this.store;
+    const dispatch = this.store.dispatch as AppDispatch;
+    if (!getState().offline.isOnline || !getState().auth.isAuthenticated) {
+      return false;
+    }
+
+    const pauseReason = isManual ? null : await this.getPauseReason();
+    if (pauseReason === 'low_battery') {
+      dispatch(setSyncPaused(pauseReason));
+      return false;
+    }
+
+    this.isRunning = true;
+    try {
+      // Clocking in or a note is small enough to send over cellular data, the
+      // sync engine holds back media uploads itself
+      await dispatch(syncOfflineData({ isManual }));
+      if (pauseReason === 'metered') {
+        dispatch(setSyncPaused(pauseReason));
+        return false;
+      }
+
+      // Only changes since the last sync are downloaded, and the screens
+      // showing the collections are updated with them
+      const results = await Promise.all([
+        dispatch(visitApi.endpoints.getVisits.initiate(undefined, { subscribe: false, forceRefetch: true })),
+        dispatch(scheduleApi.endpoints.getSchedules.initiate(undefined, { subscribe: false, forceRefetch: true })),
+      ]);
+      if (results.some(result => result.isError)) {
+        return false;
+      }
+
+      dispatch(syncCompleted(Date.now()));
+      return true;
+    } catch (error) {
+      console.error('Error running scheduled sync:', error);
+      return false;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const syncScheduler = new SyncScheduler();
@@ -0,0 +1,131 @@
+import RNFS from 'react-native-fs';
+import { AxiosRequestConfig } from 'axios';
+import { apiClient } from './apiClient';
+import { UPLOAD } from '../constants/appConstants';
+
+// Local media file to upload
+export interface MediaFile {
+  uri: string;
+  mimeType: string;
+}
+
+// Server-side upload session, persisted so an interrupted upload can resume
+export interface UploadProgress {
+  uploadId: string;
+  size: number;
+  offset: number;
+}
+
+interface UploadOptions {
+  // Called when a new session is created on the server
+  onSession: (progress: UploadProgress) => void;
+  // Called after each chunk with the number of bytes the server has committed
+  onProgress: (offset: number) => void;
+  // Extra config for every request (e.g. to queue the owning thunk offline)
+  config?: AxiosRequestConfig;
+}
+
+/**
+ * Chunked, resumable upload of documentation media.
+ * Protocol:
+ * 1. POST /uploads { fileName, mimeType, size } -> { uploadId, offset }
+ * 2. GET /uploads/:id -> { offset } bytes the server has committed so far
+ * 3. PUT /uploads/:id/chunks { offset, data } with base64 data -> { offset }
+ * 4. POST /uploads/:id/complete -> { fileUrl }
+ * An interrupted upload resumes from the server's offset instead of
+ * starting over.
+ */
+class UploadService {
+  /**
+   * Check whether a document URI points to a file on the device
+   * @param uri Document URI
+   */
+  isLocalFile(uri?: string): boolean {
+    return !!uri && (/^(file|content):\/\//.test(uri) || uri.startsWith('/'));
+  }
+
+  /**
+   * Upload a file, resuming the given session if the server still has it
+   * @param file Local file
+   * @param resumeFrom Session of an earlier, interrupted attempt
+   * @param options Upload callbacks and request config
+   * @returns URL of the uploaded file
+   */
+  async upload(
+    file: MediaFile,
+    resumeFrom: UploadProgress | null,
+    { onSession, onProgress, config }: UploadOptions
+  ): Promise<string> {
+    let session: UploadProgress | null = resumeFrom ? await this.resume(resumeFrom, config) : null;
+
+    if (!session) {
+      session = await this.createSession(file, config);
+      onSession(session);
+    }
+
+    while (session.offset < session.size) {
+      const length = Math.min(UPLOAD.CHUNK_SIZE, session.size - session.offset);
+      const data = await RNFS.read(file.uri, length, session.offset, 'base64');
+      const { offset } = await apiClient.uploads.putChunk({
+        params: { id: session.uploadId },
+        body: { offset: session.offset, data },
+        config,
+      });
+
+      if (offset <= session.offset) {
+        throw new Error('Upload did not advance, the server rejected the chunk');
+      }
+      session = { ...session, offset };
+      onProgress(session.offset);
+    }
+
+    const { fileUrl } = await apiClient.uploads.complete({
+      params: { id: session.uploadId },
+      config,
+    });
+
+    return fileUrl;
+  }
+
+  /**
+   * Start a new upload session on the server
+   */
+  private async createSession(file: MediaFile, config?: AxiosRequestConfig): Promise<UploadProgress> {
+    const { size, name } = await RNFS.stat(file.uri);
+    const { uploadId, offset } = await apiClient.uploads.create({
+      body: {
+        fileName: name || file.uri.split('/').pop() || 'upload',
+        mimeType: file.mimeType,
+        size,
+      },
+      config,
+    });
+
+    return { uploadId, size, offset: offset || 0 };
+  }
+
+  /**
+   * Ask the server how much of an interrupted upload it has committed
+   * @returns The session to continue, or null if the server no longer has it
+   */
+  private async resume(
+    session: UploadProgress,
+    config?: AxiosRequestConfig
+  ): Promise<UploadProgress | null> {
+    try {
+      const { offset } = await apiClient.uploads.getById({
+        params: { id: session.uploadId },
+        config,
+      });
+      return { ...session, offset };
+    } catch (error: any) {
+      // Expired sessions are started over
+      if (error?.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export const uploadService = new UploadService();
@@ -0,0 +1,30 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ApiValidationError, classifyRequestError } from '../requestErrorUtils';
+
+const responseError = (status: number) => new AxiosError(
+  `Request failed with status code ${status}`,
+  AxiosError.ERR_BAD_REQUEST,
+  undefined,
+  {},
+  { status, statusText: String(status), data: {}, headers: {}, config: { headers: new AxiosHeaders() } }
+);
+
+describe('classifyRequestError', () => {
+  it('treats requests without a response as network errors', () => {
+    expect(classifyRequestError(new AxiosError('Network Error', AxiosError.ERR_NETWORK, undefined, {}))).toBe('network');
+    expect(classifyRequestError(new AxiosError('timeout of 30000ms exceeded', AxiosError.ECONNABORTED))).toBe('network');
+  });
+
+  it('treats errors thrown before a request was sent as client errors', () => {
+    expect(classifyRequestError(new Error('No offline handler registered for visits/clockIn'))).toBe('client');
+    expect(classifyRequestError(new Error('Clock in failed'))).toBe('client');
+    expect(classifyRequestError(new ApiValidationError('GET /visits', ['id: Required']))).toBe('client');
+  });
+
+  it('classifies responses by status', () => {
+    expect(classifyRequestError(responseError(400))).toBe('client');
+    expect(classifyRequestError(responseError(412))).toBe('conflict');
+    expect(classifyRequestError(responseError(429))).toBe('server');
+    expect(classifyRequestError(responseError(503))).toBe('server');
+  });
+});
@@ -0,0 +1,77 @@
+import { OFFLINE_CACHE } from '../constants/appConstants';
+
+/**
+ * Check whether a cached record should be flagged as stale
+ * @param fetchedAt Time the record was last fetched from the server
+ * @returns True if the record is missing a fetch time or is older than STALE_AFTER
+ */
+export const isStale = (fetchedAt?: number | null): boolean => {
+  if (!fetchedAt) return true;
+  return Date.now() - fetchedAt > OFFLINE_CACHE.STALE_AFTER;
+};
+
+/**
+ * Get the most recent fetch time of a cached collection
+ * @param lastFetchedAt Fetch time of each record by ID
+ * @returns The latest fetch time, or null if nothing was fetched
+ */
+export const getLatestFetchTime = (lastFetchedAt: Record<string, number>): number | null => {
+  const fetchTimes = Object.values(lastFetchedAt);
+  return fetchTimes.length > 0 ? Math.max(...fetchTimes) : null;
+};
+
+/**
+ * Order records by how far their date is from now, furthest first
+ * Used as the eviction order of collections synced all at once, whose
+ * records share a fetch time.
+ * @param getDate Date of a record, e.g. when a visit is scheduled
+ */
+export const byDistanceFromNow = <T>(getDate: (entity: T) => string) => (a: T, b: T): number => {
+  const now = Date.now();
+  return Math.abs(Date.parse(getDate(b)) - now) - Math.abs(Date.parse(getDate(a)) - now);
+};
+
+/**
+ * Evict cached records so the offline cache stays within its limits
+ * - Records older than MAX_AGE are removed
+ * - Above maxEntries, records are removed in eviction order, then least
+ *   recently fetched first
+ * Pinned records (e.g. with unsynced local changes) are never evicted.
+ * Mutates both maps, so it can be used on Immer drafts in reducers.
+ * @param entities Cached records by ID
+ * @param lastFetchedAt Fetch time of each record by ID
+ * @param maxEntries Maximum number of records to keep
+ * @param isPinned Returns true for records that must be kept
+ * @param evictionOrder Sorts the records to evict first before the others
+ */
+export const evictCachedEntities = <T>(
+  entities: Record<string, T>,
+  lastFetchedAt: Record<string, number>,
+  maxEntries: number,
+  isPinned: (entity: T) => boolean = () => false,
+  evictionOrder?: (a: T, b: T) => number
+): void => {
+  const now = Date.now();
+  const evictable = Object.keys(entities)
+    .filter(id => !isPinned(entities[id]))
+    .sort((a, b) =>
+      (evictionOrder?.(entities[a], entities[b]) || 0) || (lastFetchedAt[a] || 0) - (lastFetchedAt[b] || 0)
+    );
+
+  let excess = Object.keys(entities).length - maxEntries;
+  evictable.forEach(id => {
+    const isExpired = now - (lastFetchedAt[id] || 0) > OFFLINE_CACHE.MAX_AGE;
+    if (isExpired || excess > 0) {
+      delete entities[id];
+      delete lastFetchedAt[id];
+      excess -= 1;
+    }
+  });
+
+  // Drop fetch times of records that were removed elsewhere
+  Object.keys(lastFetchedAt).forEach(id => {
+    if (!entities[id]) {
+      delete lastFetchedAt[id];
+    }
+  });
+};
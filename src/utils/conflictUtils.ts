@@ -0,0 +1,51 @@
+import { Visit, VisitDocument } from '../redux/slices/visitSlice';
+
+/**
+ * Merge two versions of free-text notes
+ * Identical or contained notes collapse to the longer one, otherwise both are kept
+ * @param mine Local notes
+ * @param server Server notes
+ * @returns Merged notes
+ */
+export const mergeNotes = (mine?: string, server?: string): string | undefined => {
+  const localNotes = mine?.trim();
+  const serverNotes = server?.trim();
+
+  if (!localNotes) return server;
+  if (!serverNotes) return mine;
+  if (serverNotes.includes(localNotes)) return server;
+  if (localNotes.includes(serverNotes)) return mine;
+
+  return `${serverNotes}\n\n${localNotes}`;
+};
+
+/**
+ * Merge two document lists, keeping every server document and adding
+ * local documents the server does not have yet
+ * @param mine Local documents
+ * @param server Server documents
+ * @returns Merged documents
+ */
+export const mergeDocuments = (
+  mine: VisitDocument[] = [],
+  server: VisitDocument[] = []
+): VisitDocument[] => {
+  const localOnly = mine.filter(doc => !server.some(serverDoc =>
+    serverDoc.id === doc.id || (!!doc.clientId && serverDoc.clientId === doc.clientId)
+  ));
+
+  return [...server, ...localOnly];
+};
+
+/**
+ * Merge a locally edited visit with the server copy it conflicts with
+ * Server fields win, notes and documents are combined
+ * @param mine Local visit
+ * @param server Server visit
+ * @returns Merged visit
+ */
+export const mergeVisits = (mine: Visit, server: Visit): Visit => ({
+  ...server,
+  notes: mergeNotes(mine.notes, server.notes),
+  documents: mergeDocuments(mine.documents, server.documents),
+});
@@ -87,6 +87,19 @@ export const isToday = (date: Date | string): boolean => {
   );
 };
 
+/**
+ * Check if a date is today or later
+ * @param date Date to check
+ * @returns Boolean indicating if the date is not before the start of today
+ */
+export const isTodayOrLater = (date: Date | string): boolean => {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  return dateObj.getTime() >= startOfToday.getTime();
+};
+
 /**
  * Check if a date is tomorrow
  * @param date Date to check
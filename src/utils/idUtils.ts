@@ -0,0 +1,13 @@
+/**
+ * Generate a random RFC 4122 version 4 identifier.
+ * Used for client-side IDs and idempotency keys that must stay unique
+ * across app restarts and requests queued within the same millisecond.
+ * @returns UUID string (e.g. "3b241101-e2bb-4255-8caf-4136c566a962")
+ */
+export const generateId = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+};
@@ -0,0 +1,80 @@
+import { isAxiosError } from 'axios';
+import { OFFLINE_QUEUE } from '../constants/appConstants';
+
+/**
+ * Category of a failed request
+ * - network: no response was received (offline, DNS, timeout)
+ * - server: 5xx or throttling responses that are worth retrying
+ * - conflict: the resource changed on the server since the client last saw it
+ * - client: 4xx or malformed responses that will fail the same way on every retry
+ */
+export type RequestErrorType = 'network' | 'server' | 'conflict' | 'client';
+
+/**
+ * Thrown when a response does not have the shape the app expects,
+ * so malformed data is rejected before it reaches the reducers
+ */
+export class ApiValidationError extends Error {
+  constructor(request: string, readonly issues: string[]) {
+    super(`Invalid response from ${request}: ${issues.join('; ')}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+// Statuses returned when an If-Match precondition no longer holds
+const CONFLICT_STATUSES = [409, 412];
+
+// 4xx statuses that are transient and should be retried like server errors
+const RETRYABLE_CLIENT_STATUSES = [408, 425, 429];
+
+/**
+ * Classify an axios error so callers can decide whether to retry it
+ * @param error Error thrown by axios
+ * @returns The error category
+ */
+export const classifyRequestError = (error: any): RequestErrorType => {
+  const status: number | undefined = error?.response?.status;
+
+  // The same response would be rejected again on retry
+  if (error instanceof ApiValidationError) {
+    return 'client';
+  }
+
+  if (!status) {
+    // Sent without getting a response back. Anything else failed before a
+    // request was made (e.g. no offline handler) and would fail again.
+    return isAxiosError(error) || error?.request ? 'network' : 'client';
+  }
+
+  if (CONFLICT_STATUSES.includes(status)) {
+    return 'conflict';
+  }
+
+  if (status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status)) {
+    return 'client';
+  }
+
+  return 'server';
+};
+
+/**
+ * Extract a human-readable message from a failed request
+ * @param error Error thrown by axios
+ * @returns Error message
+ */
+export const getRequestErrorMessage = (error: any): string => {
+  return error?.response?.data?.message || error?.message || 'Request failed';
+};
+
+/**
+ * Calculate the delay before the next retry using exponential backoff
+ * and jitter, so many devices reconnecting at once do not retry
+ * in lockstep.
+ * @param attempts Number of attempts made so far (1 after the first failure)
+ * @returns Delay in milliseconds
+ */
+export const getBackoffDelay = (attempts: number): number => {
+  const exponentialDelay = OFFLINE_QUEUE.BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1));
+  const cappedDelay = Math.min(exponentialDelay, OFFLINE_QUEUE.MAX_RETRY_DELAY);
+  return Math.round(cappedDelay / 2 + Math.random() * (cappedDelay / 2));
+};
@@ -0,0 +1,58 @@
+import { Visit } from '../redux/slices/visitSlice';
+import { Patient } from '../redux/slices/patientSlice';
+import { formatTime, getRelativeDateString } from './dateUtils';
+
+// Readable names of the mutations the sync engine can replay
+const MUTATION_LABELS: Record<string, string> = {
+  'visits/clockIn': 'Clock in',
+  'visits/clockOut': 'Clock out',
+  'visits/addVisitDocument': 'Add documentation',
+  'messages/sendMessage': 'Send message',
+};
+
+/**
+ * Get the readable name of a queued mutation
+ * @param type Thunk type prefix, or "METHOD url" for raw requests
+ * @returns Readable name
+ */
+export const getMutationLabel = (type: string): string => MUTATION_LABELS[type] || type;
+
+/**
+ * Describe a queued mutation for the user, e.g. "Clock out — Jane Doe visit, 3:42 PM"
+ * @param mutation Queued, failed or synced mutation
+ * @param visits Cached visits by ID
+ * @param patients Cached patients by ID
+ * @returns Readable description
+ */
+export const describeMutation = (
+  mutation: { type: string; timestamp: number; arg?: any; entityId?: string },
+  visits: Record<string, Visit>,
+  patients: Record<string, Patient>
+): string => {
+  const label = getMutationLabel(mutation.type);
+  const time = formatTime(new Date(mutation.timestamp));
+
+  const visitId = mutation.arg?.visitId ?? mutation.entityId;
+  if (visitId) {
+    const visit = visits[visitId];
+    const patient = visit ? patients[visit.patientId] : undefined;
+    const subject = patient ? `${patient.firstName} ${patient.lastName} visit` : 'Visit';
+    return `${label} — ${subject}, ${time}`;
+  }
+
+  if (mutation.arg?.receiverName) {
+    return `${label} — ${mutation.arg.receiverName}, ${time}`;
+  }
+
+  return `${label}, ${time}`;
+};
+
+/**
+ * Format a sync event time, e.g. "Today at 3:42 PM"
+ * @param timestamp Time in milliseconds
+ * @returns Readable date and time
+ */
+export const formatSyncTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${getRelativeDateString(date)} at ${formatTime(date)}`;
+};